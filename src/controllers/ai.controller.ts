@@ -1,42 +1,81 @@
 import { Request, Response } from 'express';
 import aiService from '../services/ai.service';
-import schemaController from '../controllers/schema.controller';
-import { NLQueryRequest } from '../types/ai.types';
-import * as fs from 'fs/promises';
-import path from 'path';
+import clarificationService, { ClarificationError } from '../services/clarification.service';
+import sessionService from '../services/session.service';
+import connectionService, { ConnectionError } from '../services/connection.service';
+import runService, { RunError } from '../services/run.service';
+import exportService from '../services/export.service';
+import auditService from '../services/audit.service';
+import llmService from '../services/llm.service';
+import { queryOutcome, requestUser, summarizeLLMCalls } from '../helpers/audit.helper';
+import { EXPORT_FORMATS, ExportFormat } from '../types/export.types';
+import { AuditEntry, AuditEventType } from '../types/audit.types';
+import { QueryCancelledError } from '../helpers/mongo.helper';
+import { requestConnectionId } from '../helpers/connection.helper';
+import { writeChunk } from '../helpers/stream.helper';
 
 class AIController {
-  private analysisPath: string;
-
   constructor() {
-    this.analysisPath = path.join(__dirname, '../../data/schema_analysis.json');
     this.generateContext = this.generateContext.bind(this);
     this.executeQuery = this.executeQuery.bind(this);
+    this.getResultsPage = this.getResultsPage.bind(this);
+    this.streamResults = this.streamResults.bind(this);
+    this.exportResults = this.exportResults.bind(this);
+  }
+
+  // Stops running queries once nobody is waiting for the answer
+  private abortOnClose(res: Response): AbortSignal {
+    const abortController = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) abortController.abort();
+    });
+    return abortController.signal;
+  }
+
+  // Records access to the results of an earlier run
+  private async auditRun(
+    req: Request,
+    type: AuditEventType,
+    runId: string,
+    startedAt: number,
+    fields: Partial<AuditEntry>
+  ) {
+    let run;
+    try {
+      run = runId ? runService.get(runId) : undefined;
+    } catch (error) {
+      run = undefined;
+    }
+    await auditService.record({
+      type,
+      ...requestUser(req),
+      connectionId: run?.connectionId,
+      runId: runId || undefined,
+      question: run?.question,
+      mongoQuery: run?.mongoQuery,
+      operation: run?.operation,
+      outcome: 'success',
+      durationMs: Date.now() - startedAt,
+      ...fields
+    });
   }
 
   async generateContext(req: Request, res: Response) {
     try {
-      // First try to read the saved schema analysis
-      try {
-        const analysisData = await fs.readFile(this.analysisPath, 'utf-8');
-        const schema = JSON.parse(analysisData);
-
-        // Generate and save context using the saved schema
-        const context = await aiService.generateContext(schema);
-        
-        res.json({
-          message: 'Context generated and saved succassaaessfully',
-          context
-        });
-      } catch (readError) {
-        console.error('Error reading schema analysis:', readError);
-        res.status(500).json({
-          error: 'Failed to read schema analysis',
-          details: 'Please run /api/schema/analyze first to generate the schema analysis',
-          path: this.analysisPath
-        });
-      }
+      const connection = await connectionService.getConnection(requestConnectionId(req));
+
+      // Generate and save context from the connection's saved schema analysis
+      const context = await aiService.generateContext(connection);
+
+      res.json({
+        message: 'Context generated and saved successfully',
+        connectionId: connection.id,
+        context
+      });
     } catch (error: any) {
+      if (error instanceof ConnectionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error('Context generation error:', error);
       res.status(500).json({
         error: 'Failed to generate context',
@@ -47,39 +86,122 @@ class AIController {
   }
 
   async executeQuery(req: Request, res: Response) {
+    const startedAt = Date.now();
+    const audit: Partial<AuditEntry> = {};
     try {
-      const { query, proceed } = req.body as { 
-        query: string;
-        proceed?: boolean;
+      const { query, sessionId: bodySessionId, clarificationId, choice, answer } = req.body as {
+        query?: string;
+        sessionId?: string;
+        clarificationId?: string;
+        choice?: string;
+        answer?: string;
       };
-      
-      if (!query) {
-        return res.status(400).json({ error: 'Query is required' });
+      // Conversations continue via /api/ai/sessions/:id/query or a sessionId in the body
+      const sessionId = req.params.id || bodySessionId;
+
+      const session = sessionId ? await sessionService.getSessionById(sessionId, req.user) : null;
+      if (sessionId && !session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      const history = session?.turns;
+
+      // Conversations stay on the database they were started against
+      const requestedConnection = requestConnectionId(req);
+      if (session?.connectionId && requestedConnection && requestedConnection !== session.connectionId) {
+        return res.status(400).json({ error: `Session belongs to connection "${session.connectionId}"` });
       }
+      const connection = await connectionService.getConnection(session?.connectionId || requestedConnection);
+      audit.connectionId = connection.id;
+      audit.sessionId = session?.id;
 
-      const result = await aiService.generateMongoQuery(query);
+      const signal = this.abortOnClose(res);
+      const pageSize = runService.resolvePageSize(req.body.pageSize);
+      const explain = req.body.explain === true;
+      const cache = req.body.cache !== false;
 
-      if (result.needsClarification && proceed === undefined) {
+      let tracked;
+      let question: string;
+      if (clarificationId) {
+        // Follow-up to an ambiguous request: run it with the chosen interpretation
+        const intent = clarificationService.resolve(clarificationId, choice, answer, connection.id, req.user?.id);
+        question = audit.question = intent.originalQuery;
+        tracked = await llmService.trackUsage(() =>
+          aiService.generateMongoQuery(question, connection, { intent, history, signal, pageSize, explain, cache, user: req.user }));
+      } else {
+        if (!query) {
+          return res.status(400).json({ error: 'Query is required' });
+        }
+        question = audit.question = query;
+        tracked = await llmService.trackUsage(() =>
+          aiService.generateMongoQuery(question, connection, { history, signal, pageSize, explain, cache, user: req.user }));
+      }
+      const result = tracked.result;
+
+      const executed = result.attempts?.some(a => a.outcome === 'success' || a.outcome === 'empty_result');
+      if (executed && result.operation) {
+        // Later pages rerun this exact query without going back to the model
+        const run = runService.create(connection.id, result.mongoQuery, result.operation, { question, userId: req.user?.id });
+        result.page = runService.buildPage(run, 0, pageSize, !!result.truncated);
+      }
+
+      await auditService.record({
+        type: 'nl_query',
+        ...requestUser(req),
+        ...audit,
+        runId: result.page?.runId,
+        mongoQuery: result.mongoQuery || undefined,
+        operation: result.operation,
+        ...(signal.aborted ? { outcome: 'cancelled' as const } : queryOutcome(result)),
+        policy: result.policy && {
+          allowed: result.policy.allowed,
+          violations: result.policy.violations.map(violation => violation.message)
+        },
+        attempts: result.attempts?.length,
+        resultCount: executed ? result.results.length : undefined,
+        truncated: result.truncated,
+        durationMs: Date.now() - startedAt,
+        cache: result.cache,
+        llm: summarizeLLMCalls(tracked.calls)
+      });
+
+      if (result.needsClarification) {
         return res.json({
           needsClarification: true,
           message: result.clarificationMessage,
-          options: {
-            proceed: true,
-            cancel: false
-          }
+          clarificationId: result.clarification?.clarificationId,
+          question: result.clarification?.question,
+          options: result.clarification?.options || []
         });
       }
 
-      if (proceed === false) {
-        return res.json({
-          message: 'Query cancelled as per user request',
-          success: false
+      if (result.policy && !result.policy.allowed) {
+        return res.status(403).json({
+          error: 'Query rejected by policy',
+          mongoQuery: result.mongoQuery,
+          violations: result.policy.violations,
+          attempts: result.attempts
         });
       }
 
+      if (session && executed) {
+        const turn = await sessionService.addTurn(session.id, question, result);
+        return res.json({ ...result, sessionId: session.id, turnId: turn?.id });
+      }
+
       return res.json(result);
 
     } catch (error: any) {
+      await auditService.record({
+        type: 'nl_query',
+        ...requestUser(req),
+        ...audit,
+        outcome: error instanceof QueryCancelledError ? 'cancelled' : 'error',
+        durationMs: Date.now() - startedAt,
+        error: error.message
+      });
+      if (error instanceof ClarificationError || error instanceof ConnectionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error('Query execution error:', error);
       res.status(500).json({
         error: 'Failed to execute query',
@@ -88,17 +210,135 @@ class AIController {
     }
   }
 
+  // Returns the page a cursor from an earlier response points at
+  async getResultsPage(req: Request, res: Response) {
+    const startedAt = Date.now();
+    let runId = '';
+    try {
+      if (typeof req.query.cursor !== 'string' || !req.query.cursor) {
+        return res.status(400).json({ error: 'Cursor is required' });
+      }
+      runId = runService.decodeCursor(req.query.cursor).runId;
+      const { run, results, resultType, page } = await runService.fetchPage(req.query.cursor, this.abortOnClose(res), req.user);
+      await this.auditRun(req, 'results_page', runId, startedAt, { resultCount: results.length, truncated: page.hasMore });
+      res.json({ mongoQuery: run.mongoQuery, operation: run.operation, resultType, results, page });
+    } catch (error: any) {
+      await this.auditRun(req, 'results_page', runId, startedAt, {
+        outcome: error instanceof QueryCancelledError ? 'cancelled' : 'error',
+        error: error.message
+      });
+      if (error instanceof QueryCancelledError) return;
+      if (error instanceof RunError || error instanceof ConnectionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Result page error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch results page',
+        details: error.message
+      });
+    }
+  }
+
+  // Writes one JSON document per line as they come off the Mongo cursor,
+  // starting at the beginning of the run or where `cursor` points
+  async streamResults(req: Request, res: Response) {
+    const startedAt = Date.now();
+    let runId = '';
+    let resultCount = 0;
+    try {
+      runId = typeof req.query.runId === 'string' ? req.query.runId : '';
+      let offset = 0;
+      if (typeof req.query.cursor === 'string' && req.query.cursor) {
+        ({ runId, offset } = runService.decodeCursor(req.query.cursor));
+      }
+      if (!runId) {
+        return res.status(400).json({ error: 'runId or cursor is required' });
+      }
+
+      const signal = this.abortOnClose(res);
+      const { truncated } = await runService.stream(runId, offset, async document => {
+        resultCount++;
+        if (!res.headersSent) res.type('application/x-ndjson');
+        await writeChunk(res, JSON.stringify(document) + '\n', signal);
+      }, signal, req.user);
+
+      await this.auditRun(req, 'results_stream', runId, startedAt, { resultCount, truncated });
+      if (!res.headersSent) res.type('application/x-ndjson');
+      res.end(truncated ? JSON.stringify({ truncated: true, maxTotalResults: runService.maxTotalResults }) + '\n' : undefined);
+    } catch (error: any) {
+      await this.auditRun(req, 'results_stream', runId, startedAt, {
+        outcome: error instanceof QueryCancelledError ? 'cancelled' : 'error',
+        resultCount,
+        error: error.message
+      });
+      if (error instanceof QueryCancelledError) return;
+      if (res.headersSent) {
+        // The status line is gone; end the stream with the error as its last line
+        return res.end(JSON.stringify({ error: error.message }) + '\n');
+      }
+      if (error instanceof RunError || error instanceof ConnectionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Result stream error:', error);
+      res.status(500).json({
+        error: 'Failed to stream results',
+        details: error.message
+      });
+    }
+  }
+
+  // Downloads all results of a run as CSV, XLSX or NDJSON, read straight off the cursor
+  async exportResults(req: Request, res: Response) {
+    const startedAt = Date.now();
+    let runId = '';
+    try {
+      runId = typeof req.query.runId === 'string' ? req.query.runId : '';
+      const format = String(req.query.format || 'csv').toLowerCase() as ExportFormat;
+      if (!runId) {
+        return res.status(400).json({ error: 'runId is required' });
+      }
+      if (!EXPORT_FORMATS.includes(format)) {
+        return res.status(400).json({ error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+      }
+
+      const { fileName, contentType } = await exportService.describe(runId, format, req.user);
+      res.type(contentType);
+      res.attachment(fileName);
+      const { rows, truncated } = await exportService.exportRun(runId, format, res, this.abortOnClose(res), req.user);
+      await this.auditRun(req, 'results_export', runId, startedAt, { resultCount: rows, truncated });
+    } catch (error: any) {
+      await this.auditRun(req, 'results_export', runId, startedAt, {
+        outcome: error instanceof QueryCancelledError ? 'cancelled' : 'error',
+        error: error.message
+      });
+      if (error instanceof QueryCancelledError) return;
+      if (res.headersSent) {
+        // Part of the file is already out; cut it off so the client sees a failed download
+        console.error('Result export error:', error);
+        return res.destroy(error);
+      }
+      if (error instanceof RunError || error instanceof ConnectionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Result export error:', error);
+      res.status(500).json({
+        error: 'Failed to export results',
+        details: error.message
+      });
+    }
+  }
+
   async testOpenAI(req: Request, res: Response) {
     try {
       const result = await aiService.testOpenAI();
       res.json({
-        message: 'OpenAI API test successful',
+        message: 'LLM provider test successful',
         result
       });
     } catch (error: any) {
-      console.error('OpenAI test error:', error);
+      console.error('LLM test error:', error);
       res.status(500).json({
-        error: 'OpenAI API test failed',
+        error: 'LLM provider test failed',
         details: error.message
       });
     }
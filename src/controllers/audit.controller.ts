@@ -0,0 +1,56 @@
+import { Request, Response } from 'express';
+import auditService from '../services/audit.service';
+import { AuditEventType, AuditFilter, AuditOutcome } from '../types/audit.types';
+
+const EVENT_TYPES: AuditEventType[] = ['nl_query', 'saved_query', 'results_page', 'results_stream', 'results_export'];
+const OUTCOMES: AuditOutcome[] = ['success', 'empty_result', 'clarification', 'policy_violation', 'error', 'cancelled'];
+const MAX_LIMIT = 500;
+
+function stringParam(value: any): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function dateParam(value: any, name: string): Date | undefined {
+  if (!stringParam(value)) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw new Error(`"${name}" must be a date`);
+  return date;
+}
+
+class AuditController {
+  async getHistory(req: Request, res: Response) {
+    let filter: AuditFilter;
+    try {
+      const type = stringParam(req.query.type) as AuditEventType | undefined;
+      const outcome = stringParam(req.query.outcome) as AuditOutcome | undefined;
+      if (type && !EVENT_TYPES.includes(type)) throw new Error(`"type" must be one of: ${EVENT_TYPES.join(', ')}`);
+      if (outcome && !OUTCOMES.includes(outcome)) throw new Error(`"outcome" must be one of: ${OUTCOMES.join(', ')}`);
+      filter = {
+        userId: stringParam(req.query.userId),
+        connectionId: stringParam(req.query.connectionId),
+        type,
+        outcome,
+        from: dateParam(req.query.from, 'from'),
+        to: dateParam(req.query.to, 'to'),
+        text: stringParam(req.query.q),
+        limit: Math.min(Math.max(Math.floor(Number(req.query.limit)) || 50, 1), MAX_LIMIT),
+        offset: Math.max(Math.floor(Number(req.query.offset)) || 0, 0)
+      };
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    try {
+      const entries = await auditService.find(filter);
+      res.json({ entries, limit: filter.limit, offset: filter.offset });
+    } catch (error: any) {
+      console.error('Audit history error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch audit history',
+        details: error.message
+      });
+    }
+  }
+}
+
+export default new AuditController();
@@ -0,0 +1,33 @@
+import { Request, Response } from 'express';
+import authService, { AuthError } from '../services/auth.service';
+import userService from '../services/user.service';
+
+class AuthController {
+  async login(req: Request, res: Response) {
+    try {
+      const { email, password } = req.body || {};
+      res.json(await authService.login(email, password));
+    } catch (error: any) {
+      if (error instanceof AuthError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Login error:', error);
+      res.status(500).json({
+        error: 'Failed to log in',
+        details: error.message
+      });
+    }
+  }
+
+  async me(req: Request, res: Response) {
+    try {
+      // Anonymous while authentication is disabled
+      const user = await userService.getUserById(req.user!.id);
+      res.json(user ? { ...user, method: req.user!.method } : req.user);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch user' });
+    }
+  }
+}
+
+export default new AuthController();
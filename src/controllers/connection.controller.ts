@@ -0,0 +1,81 @@
+import { Request, Response } from 'express';
+import connectionService, { ConnectionError } from '../services/connection.service';
+import snapshotService from '../services/snapshot.service';
+import { maskUri } from '../helpers/connection.helper';
+import { Connection, ConnectionSummary, CreateConnectionDto } from '../types/connection.types';
+import * as fs from 'fs/promises';
+
+class ConnectionController {
+  constructor() {
+    this.getAllConnections = this.getAllConnections.bind(this);
+    this.getConnectionById = this.getConnectionById.bind(this);
+    this.createConnection = this.createConnection.bind(this);
+  }
+
+  private async summarize(connection: Connection): Promise<ConnectionSummary> {
+    const artifacts = connectionService.getArtifacts(connection);
+    const latest = await snapshotService.getLatestSnapshot(artifacts);
+    const hasContext = await fs.access(artifacts.contextPath).then(() => true, () => false);
+    return {
+      id: connection.id,
+      name: connection.name,
+      uri: maskUri(connection.uri),
+      databaseName: connection.databaseName || latest?.databaseName,
+      schemaVersion: latest?.version ?? null,
+      hasContext,
+      createdAt: connection.createdAt,
+      updatedAt: connection.updatedAt
+    };
+  }
+
+  async getAllConnections(req: Request, res: Response) {
+    try {
+      const connections = await connectionService.getAllConnections();
+      res.json(await Promise.all(connections.map(connection => this.summarize(connection))));
+    } catch (error: any) {
+      res.status(500).json({ error: 'Failed to fetch connections', details: error.message });
+    }
+  }
+
+  async getConnectionById(req: Request, res: Response) {
+    try {
+      const connection = await connectionService.getConnection(req.params.id);
+      res.json(await this.summarize(connection));
+    } catch (error: any) {
+      if (error instanceof ConnectionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to fetch connection', details: error.message });
+    }
+  }
+
+  async createConnection(req: Request, res: Response) {
+    try {
+      const data: CreateConnectionDto = req.body || {};
+      const connection = await connectionService.createConnection(data);
+      res.status(201).json(await this.summarize(connection));
+    } catch (error: any) {
+      if (error instanceof ConnectionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to create connection', details: error.message });
+    }
+  }
+
+  async deleteConnection(req: Request, res: Response) {
+    try {
+      const success = await connectionService.deleteConnection(req.params.id);
+      if (!success) {
+        return res.status(404).json({ error: 'Connection not found' });
+      }
+      res.status(204).send();
+    } catch (error: any) {
+      if (error instanceof ConnectionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to delete connection', details: error.message });
+    }
+  }
+}
+
+export default new ConnectionController();
@@ -0,0 +1,70 @@
+import { Request, Response } from 'express';
+import exampleService, { ExampleError } from '../services/example.service';
+import { ConnectionError } from '../services/connection.service';
+import { RunError } from '../services/run.service';
+import { CreateExampleDto, ImportExamplesDto } from '../types/example.types';
+
+function errorStatus(error: any): number | null {
+  if (error instanceof ExampleError || error instanceof ConnectionError || error instanceof RunError) return error.status;
+  return null;
+}
+
+class ExampleController {
+  async getAll(req: Request, res: Response) {
+    try {
+      const connectionId = typeof req.query.connectionId === 'string' ? req.query.connectionId : undefined;
+      res.json(await exampleService.getAll(connectionId));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch query examples' });
+    }
+  }
+
+  async create(req: Request, res: Response) {
+    try {
+      const data: CreateExampleDto = req.body || {};
+      res.status(201).json(await exampleService.create(data, req.user));
+    } catch (error: any) {
+      const status = errorStatus(error);
+      if (status) return res.status(status).json({ error: error.message });
+      console.error('Create query example error:', error);
+      res.status(500).json({ error: 'Failed to create query example', details: error.message });
+    }
+  }
+
+  async import(req: Request, res: Response) {
+    try {
+      const data: ImportExamplesDto = req.body || {};
+      res.json(await exampleService.import(data.connectionId, data.examples, req.user));
+    } catch (error: any) {
+      const status = errorStatus(error);
+      if (status) return res.status(status).json({ error: error.message });
+      console.error('Import query examples error:', error);
+      res.status(500).json({ error: 'Failed to import query examples', details: error.message });
+    }
+  }
+
+  async seed(req: Request, res: Response) {
+    try {
+      res.json(await exampleService.seed(req.body?.connectionId));
+    } catch (error: any) {
+      const status = errorStatus(error);
+      if (status) return res.status(status).json({ error: error.message });
+      console.error('Seed query examples error:', error);
+      res.status(500).json({ error: 'Failed to seed query examples', details: error.message });
+    }
+  }
+
+  async delete(req: Request, res: Response) {
+    try {
+      const success = await exampleService.delete(req.params.id);
+      if (!success) {
+        return res.status(404).json({ error: 'Query example not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to delete query example' });
+    }
+  }
+}
+
+export default new ExampleController();
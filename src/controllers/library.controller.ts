@@ -0,0 +1,120 @@
+import { Request, Response } from 'express';
+import libraryService, { LibraryError } from '../services/library.service';
+import connectionService, { ConnectionError } from '../services/connection.service';
+import runService, { RunError } from '../services/run.service';
+import { ParameterError } from '../helpers/library.helper';
+import { QueryCancelledError } from '../helpers/mongo.helper';
+import { requestUser } from '../helpers/audit.helper';
+import auditService from '../services/audit.service';
+import { CreateSavedQueryDto, UpdateSavedQueryDto } from '../types/library.types';
+
+function errorStatus(error: any): number | null {
+  if (error instanceof LibraryError || error instanceof ConnectionError || error instanceof RunError) return error.status;
+  if (error instanceof ParameterError) return 400;
+  return null;
+}
+
+class LibraryController {
+  async getAll(req: Request, res: Response) {
+    try {
+      const connectionId = typeof req.query.connectionId === 'string' ? req.query.connectionId : undefined;
+      res.json(await libraryService.getAll(connectionId));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch saved queries' });
+    }
+  }
+
+  async getById(req: Request, res: Response) {
+    try {
+      res.json(await libraryService.get(req.params.id));
+    } catch (error: any) {
+      const status = errorStatus(error);
+      if (status) return res.status(status).json({ error: error.message });
+      res.status(500).json({ error: 'Failed to fetch saved query' });
+    }
+  }
+
+  async create(req: Request, res: Response) {
+    try {
+      const data: CreateSavedQueryDto = req.body || {};
+      res.status(201).json(await libraryService.create(data, req.user));
+    } catch (error: any) {
+      const status = errorStatus(error);
+      if (status) return res.status(status).json({ error: error.message });
+      console.error('Save query error:', error);
+      res.status(500).json({ error: 'Failed to save query', details: error.message });
+    }
+  }
+
+  async update(req: Request, res: Response) {
+    try {
+      const data: UpdateSavedQueryDto = req.body || {};
+      res.json(await libraryService.update(req.params.id, data));
+    } catch (error: any) {
+      const status = errorStatus(error);
+      if (status) return res.status(status).json({ error: error.message });
+      res.status(500).json({ error: 'Failed to update saved query', details: error.message });
+    }
+  }
+
+  async delete(req: Request, res: Response) {
+    try {
+      const success = await libraryService.delete(req.params.id);
+      if (!success) {
+        return res.status(404).json({ error: 'Saved query not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to delete saved query' });
+    }
+  }
+
+  async run(req: Request, res: Response) {
+    const startedAt = Date.now();
+    try {
+      const abortController = new AbortController();
+      res.on('close', () => {
+        if (!res.writableFinished) abortController.abort();
+      });
+      const result = await libraryService.run(req.params.id, req.body?.parameters, {
+        pageSize: runService.resolvePageSize(req.body?.pageSize),
+        signal: abortController.signal,
+        user: req.user
+      });
+      const saved = await libraryService.get(req.params.id);
+      await auditService.record({
+        type: 'saved_query',
+        ...requestUser(req),
+        connectionId: saved.connectionId,
+        runId: result.page.runId,
+        savedQueryId: saved.id,
+        parameters: result.parameters,
+        question: saved.question,
+        mongoQuery: saved.mongoQuery,
+        operation: saved.query.operation === 'unsupported' ? undefined : saved.query.operation,
+        outcome: result.results.length ? 'success' : 'empty_result',
+        resultCount: result.results.length,
+        truncated: result.truncated,
+        durationMs: Date.now() - startedAt
+      });
+      res.json(result);
+    } catch (error: any) {
+      await auditService.record({
+        type: 'saved_query',
+        ...requestUser(req),
+        savedQueryId: req.params.id,
+        outcome: error instanceof QueryCancelledError ? 'cancelled'
+          : error instanceof LibraryError && error.status === 403 ? 'policy_violation' : 'error',
+        durationMs: Date.now() - startedAt,
+        error: error.message
+      });
+      if (error instanceof QueryCancelledError) return;
+      const status = errorStatus(error);
+      if (status) return res.status(status).json({ error: error.message });
+      console.error('Saved query run error:', error);
+      res.status(500).json({ error: 'Failed to run saved query', details: error.message });
+    }
+  }
+}
+
+export default new LibraryController();
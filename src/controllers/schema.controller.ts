@@ -1,60 +1,168 @@
 import { Request, Response } from 'express';
-import schemaService from '../services/schema.service';
-import { DatabaseConfig } from '../types/schema.types';
+import schemaService, { SchemaError } from '../services/schema.service';
+import snapshotService, { SnapshotNotFoundError } from '../services/snapshot.service';
+import explainService from '../services/explain.service';
+import cacheService from '../services/cache.service';
+import connectionService, { ConnectionError } from '../services/connection.service';
+import { requestConnectionId } from '../helpers/connection.helper';
+import { Connection } from '../types/connection.types';
 import * as fs from 'fs/promises';
-import path from 'path';
 
 class SchemaController {
-  private analysisPath: string;
-
   constructor() {
-    this.analysisPath = path.join(__dirname, '../../data/schema_analysis.json');
     // Bind methods to this instance
     this.analyzeDatabase = this.analyzeDatabase.bind(this);
     this.getSavedAnalysis = this.getSavedAnalysis.bind(this);
+    this.listVersions = this.listVersions.bind(this);
+    this.getVersion = this.getVersion.bind(this);
+    this.diffVersions = this.diffVersions.bind(this);
+    this.getIndexReport = this.getIndexReport.bind(this);
   }
 
   async analyzeDatabase(req: Request, res: Response) {
     try {
-      const config: DatabaseConfig = req.body;
-      
-      if (!config.uri) {
-        return res.status(400).json({ 
-          error: 'MongoDB URI is required' 
+      const connection = await connectionService.getConnection(requestConnectionId(req));
+
+      // Analyzing one database and querying another is exactly what connections prevent
+      if (req.body?.uri && req.body.uri !== connection.uri) {
+        return res.status(400).json({
+          error: 'URI does not match the connection',
+          details: 'Register the database with POST /api/connections and pass its connectionId'
         });
       }
 
-      const schema = await schemaService.analyzeDatabase(config);
-      
+      const sampleSize = schemaService.resolveSampleSize(req.body?.sampleSize);
+      const artifacts = connectionService.getArtifacts(connection);
+      const previous = await snapshotService.getLatestSchema(artifacts);
+      const analysis = await schemaService.analyzeDatabase(
+        { uri: connection.uri, databaseName: connection.databaseName, sampleSize },
+        previous
+      );
+      const snapshot = await snapshotService.saveSnapshot(artifacts, analysis);
+      await cacheService.invalidate(connection.id);
+      const { relationships, ...schema } = analysis;
+
       // Ensure the directory exists
-      const dirPath = path.dirname(this.analysisPath);
-      await fs.mkdir(dirPath, { recursive: true });
+      await fs.mkdir(artifacts.dir, { recursive: true });
 
       // Save the analysis results
       await fs.writeFile(
-        this.analysisPath,
+        artifacts.analysisPath,
         JSON.stringify(schema, null, 2),
         'utf-8'
       );
+      await fs.writeFile(
+        artifacts.relationshipsPath,
+        JSON.stringify(relationships, null, 2),
+        'utf-8'
+      );
 
       res.json({
         message: 'Database schema analyzed and saved successfully',
-        analysisPath: this.analysisPath,
-        schema
+        connectionId: connection.id,
+        analysisPath: artifacts.analysisPath,
+        relationshipsPath: artifacts.relationshipsPath,
+        version: snapshot.version,
+        changes: snapshot.changes,
+        schema,
+        relationships
       });
     } catch (error: any) {
+      if (error instanceof ConnectionError || error instanceof SchemaError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error('Schema analysis error:', error);
-      res.status(500).json({ 
+      res.status(500).json({
         error: 'Failed to analyze database schema',
-        details: error.message,
-        path: this.analysisPath // Add this for debugging
+        details: error.message
+      });
+    }
+  }
+
+  async listVersions(req: Request, res: Response) {
+    try {
+      const connection = await connectionService.getConnection(requestConnectionId(req));
+      res.json(await snapshotService.listSnapshots(connectionService.getArtifacts(connection)));
+    } catch (error: any) {
+      if (error instanceof ConnectionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({
+        error: 'Failed to list schema versions',
+        details: error.message
+      });
+    }
+  }
+
+  async getVersion(req: Request, res: Response) {
+    try {
+      const connection = await connectionService.getConnection(requestConnectionId(req));
+      const snapshot = await snapshotService.getSnapshot(
+        connectionService.getArtifacts(connection),
+        Number(req.params.version)
+      );
+      if (!snapshot) {
+        return res.status(404).json({ error: 'Schema version not found' });
+      }
+      res.json(snapshot);
+    } catch (error: any) {
+      if (error instanceof ConnectionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({
+        error: 'Failed to fetch schema version',
+        details: error.message
+      });
+    }
+  }
+
+  // Defaults to the latest version against the one before it
+  async diffVersions(req: Request, res: Response) {
+    try {
+      const connection = await connectionService.getConnection(requestConnectionId(req));
+      const artifacts = connectionService.getArtifacts(connection);
+      const latest = await snapshotService.getLatestSnapshot(artifacts);
+      const to = req.query.to ? Number(req.query.to) : latest?.version;
+      const from = req.query.from ? Number(req.query.from) : (to || 0) - 1;
+
+      if (!to || !Number.isInteger(to) || !Number.isInteger(from)) {
+        return res.status(400).json({ error: 'Valid "from" and "to" versions are required' });
+      }
+
+      res.json(await snapshotService.diffVersions(artifacts, from, to));
+    } catch (error: any) {
+      if (error instanceof SnapshotNotFoundError) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error instanceof ConnectionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({
+        error: 'Failed to diff schema versions',
+        details: error.message
+      });
+    }
+  }
+
+  async getIndexReport(req: Request, res: Response) {
+    try {
+      const connection = await connectionService.getConnection(requestConnectionId(req));
+      res.json(await explainService.buildIndexReport(connection, req.user));
+    } catch (error: any) {
+      if (error instanceof ConnectionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Index report error:', error);
+      res.status(500).json({
+        error: 'Failed to build index report',
+        details: error.message
       });
     }
   }
 
-  async getSavedAnalysis() {
+  async getSavedAnalysis(connection: Connection) {
     try {
-      const data = await fs.readFile(this.analysisPath, 'utf-8');
+      const data = await fs.readFile(connectionService.getArtifacts(connection).analysisPath, 'utf-8');
       return JSON.parse(data);
     } catch (error) {
       console.error('Error reading saved analysis:', error);
@@ -65,4 +173,4 @@ class SchemaController {
 
 // Create a single instance with proper binding
 const schemaController = new SchemaController();
-export default schemaController; 
\ No newline at end of file
+export default schemaController;
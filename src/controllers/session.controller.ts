@@ -0,0 +1,55 @@
+import { Request, Response } from 'express';
+import sessionService from '../services/session.service';
+import connectionService, { ConnectionError } from '../services/connection.service';
+import { CreateSessionDto } from '../types/session.types';
+
+class SessionController {
+  async createSession(req: Request, res: Response) {
+    try {
+      const data: CreateSessionDto = req.body || {};
+      const connection = await connectionService.getConnection(data.connectionId);
+      const session = await sessionService.createSession({ ...data, connectionId: connection.id }, req.user);
+      res.status(201).json(session);
+    } catch (error) {
+      if (error instanceof ConnectionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to create session' });
+    }
+  }
+
+  async getAllSessions(req: Request, res: Response) {
+    try {
+      const sessions = await sessionService.getAllSessions(req.user);
+      res.json(sessions);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch sessions' });
+    }
+  }
+
+  async getSessionById(req: Request, res: Response) {
+    try {
+      const session = await sessionService.getSessionById(req.params.id, req.user);
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      res.json(session);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch session' });
+    }
+  }
+
+  async deleteSession(req: Request, res: Response) {
+    try {
+      const success = await sessionService.deleteSession(req.params.id, req.user);
+      if (!success) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to delete session' });
+    }
+  }
+}
+
+export default new SessionController();
@@ -1,6 +1,6 @@
 import { Request, Response } from 'express';
-import userService from '../services/user.service';
-import { CreateUserDto } from '../types/user.types';
+import userService, { UserError } from '../services/user.service';
+import { CreateUserDto, UpdateUserDto } from '../types/user.types';
 
 class UserController {
   async getAllUsers(req: Request, res: Response) {
@@ -30,18 +30,29 @@ class UserController {
       const newUser = await userService.createUser(userData);
       res.status(201).json(newUser);
     } catch (error) {
+      if (error instanceof UserError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       res.status(500).json({ error: 'Failed to create user' });
     }
   }
 
   async updateUser(req: Request, res: Response) {
     try {
-      const updatedUser = await userService.updateUser(req.params.id, req.body);
+      const userData: UpdateUserDto = req.body || {};
+      // Users may change their own name, email and password, not their role
+      if (req.user?.role !== 'admin' && userData.role !== undefined) {
+        return res.status(403).json({ error: 'Requires the admin role' });
+      }
+      const updatedUser = await userService.updateUser(req.params.id, userData);
       if (!updatedUser) {
         return res.status(404).json({ error: 'User not found' });
       }
       res.json(updatedUser);
     } catch (error) {
+      if (error instanceof UserError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       res.status(500).json({ error: 'Failed to update user' });
     }
   }
@@ -54,9 +65,39 @@ class UserController {
       }
       res.status(204).send();
     } catch (error) {
+      if (error instanceof UserError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       res.status(500).json({ error: 'Failed to delete user' });
     }
   }
+
+  async createApiKey(req: Request, res: Response) {
+    try {
+      const { key, apiKey } = await userService.createApiKey(req.params.id, req.body?.name);
+      res.status(201).json({ ...apiKey, key });
+    } catch (error) {
+      if (error instanceof UserError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to create API key' });
+    }
+  }
+
+  async revokeApiKey(req: Request, res: Response) {
+    try {
+      const success = await userService.revokeApiKey(req.params.id, req.params.keyId);
+      if (!success) {
+        return res.status(404).json({ error: 'API key not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof UserError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to revoke API key' });
+    }
+  }
 }
 
-export default new UserController(); 
\ No newline at end of file
+export default new UserController();
@@ -0,0 +1,149 @@
+import dotenv from 'dotenv';
+import * as fs from 'fs/promises';
+import path from 'path';
+import { compareReports } from './helpers/eval.helper';
+import { EvalComparison, EvalConfig, EvalReport } from './types/eval.types';
+
+dotenv.config();
+
+const USAGE = `Usage:
+  yarn eval run <dataset.json> [--config <config.json>] [--config <candidate.json>] [--mongo-uri <uri>] [--out <report.json>] [--allow-drop]
+  yarn eval compare <baseline.json> <candidate.json> [--out <comparison.json>]
+
+With two --config files both configurations run and a comparison is written
+next to their reports. Fixtures replace collections of the same name, so with
+a MongoDB of your own the database must be named eval_* unless --allow-drop.`;
+
+const REPORTS_DIR = path.join(__dirname, '../data/eval');
+
+// Options that take no value
+const FLAGS = new Set(['allow-drop']);
+
+function parseArgs(args: string[]): { positional: string[]; options: { [name: string]: string[] }; flags: Set<string> } {
+  const positional: string[] = [];
+  const options: { [name: string]: string[] } = {};
+  const flags = new Set<string>();
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith('--') && FLAGS.has(args[i].slice(2))) {
+      flags.add(args[i].slice(2));
+    } else if (args[i].startsWith('--')) {
+      const value = args[i + 1];
+      if (value === undefined || value.startsWith('--')) throw new Error(`${args[i]} needs a value`);
+      (options[args[i].slice(2)] ||= []).push(value);
+      i++;
+    } else {
+      positional.push(args[i]);
+    }
+  }
+  return { positional, options, flags };
+}
+
+async function writeJson(file: string, value: any): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(value, null, 2));
+  console.log(`Wrote ${file}`);
+}
+
+function percent(value: number | null): string {
+  return value === null ? '-' : `${Math.round(value * 1000) / 10}%`;
+}
+
+function printReport(report: EvalReport): void {
+  const { metrics } = report;
+  console.log(`\n${report.dataset} / ${report.config.name}: ${metrics.cases} cases`);
+  console.log(`  accuracy ${percent(metrics.accuracy)}, executed ${percent(metrics.executionRate)}, `
+    + `results ${percent(metrics.resultAccuracy)}, shape ${percent(metrics.shapeAccuracy)}`);
+  console.log(`  valid queries ${percent(metrics.validQueryRate)}, valid field paths ${percent(metrics.validFieldPathRate)}, `
+    + `${metrics.averageAttempts} attempts and ${metrics.averageDurationMs} ms per case, ${metrics.totalTokens} tokens`);
+  for (const result of report.cases.filter(result => !result.correct)) {
+    const reason = result.error || [
+      result.resultsMatch === false ? 'wrong results' : '',
+      ...result.shapeIssues
+    ].filter(Boolean).join('; ');
+    console.log(`  ✗ ${result.id} (${result.outcome}): ${reason}`);
+  }
+}
+
+function printComparison(comparison: EvalComparison): void {
+  const { accuracy, validFieldPathRate, totalTokens } = comparison.metrics;
+  console.log(`\n${comparison.candidate} vs ${comparison.baseline}: accuracy ${percent(accuracy.baseline)} → ${percent(accuracy.candidate)}, `
+    + `valid field paths ${percent(validFieldPathRate.baseline)} → ${percent(validFieldPathRate.candidate)}, `
+    + `tokens ${totalTokens.baseline} → ${totalTokens.candidate}`);
+  comparison.regressions.forEach(change => console.log(`  - ${change.id}: ${change.question}`));
+  comparison.improvements.forEach(change => console.log(`  + ${change.id}: ${change.question}`));
+}
+
+function stamp(date: Date): string {
+  return date.toISOString().replace(/[:.]/g, '-');
+}
+
+async function run(args: string[]): Promise<void> {
+  const { positional: [datasetFile], options, flags } = parseArgs(args);
+  if (!datasetFile) throw new Error(USAGE);
+  if ((options.config?.length || 0) > 2) throw new Error('At most two --config files can be compared');
+  // Loaded here so `compare` works without a database or model configured
+  const { default: evalService } = await import('./services/eval.service');
+  const { default: mongoService } = await import('./services/mongo.service');
+
+  const configs: EvalConfig[] = options.config
+    ? await Promise.all(options.config.map(file => evalService.loadConfig(file)))
+    : [{ name: 'default' }];
+  if (configs.length === 2 && configs[0].name === configs[1].name) throw new Error('The two configs need different names');
+
+  const reports: EvalReport[] = [];
+  try {
+    for (const config of configs) {
+      reports.push(await evalService.run(datasetFile, config, options['mongo-uri']?.[0], {
+        allowDrop: flags.has('allow-drop')
+      }));
+    }
+  } finally {
+    await mongoService.closeAll();
+  }
+
+  const prefix = path.join(REPORTS_DIR, `${path.basename(datasetFile, '.json')}-${stamp(reports[0].startedAt)}`);
+  const out = options.out?.[0];
+  for (const report of reports) {
+    printReport(report);
+    await writeJson(out && reports.length === 1 ? out : `${prefix}-${report.config.name}.json`, report);
+  }
+  if (reports.length === 2) {
+    const comparison = compareReports(reports[0], reports[1]);
+    printComparison(comparison);
+    await writeJson(out || `${prefix}-comparison.json`, comparison);
+  }
+}
+
+async function compare(args: string[]): Promise<void> {
+  const { positional: [baselineFile, candidateFile], options } = parseArgs(args);
+  if (!baselineFile || !candidateFile) throw new Error(USAGE);
+  const [baseline, candidate]: EvalReport[] = await Promise.all(
+    [baselineFile, candidateFile].map(async file => JSON.parse(await fs.readFile(file, 'utf-8')))
+  );
+  if (baseline.dataset !== candidate.dataset) {
+    console.warn(`Comparing runs of different datasets: "${baseline.dataset}" and "${candidate.dataset}"`);
+  }
+
+  const comparison = compareReports(baseline, candidate);
+  printComparison(comparison);
+  if (options.out) await writeJson(options.out[0], comparison);
+  else console.log(JSON.stringify(comparison, null, 2));
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+  const commands: { [name: string]: (args: string[]) => Promise<void> } = { run, compare };
+  if (!commands[command]) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  try {
+    await commands[command](args);
+    process.exit(0);
+  } catch (error: any) {
+    console.error(error.message);
+    process.exit(1);
+  }
+}
+
+main();
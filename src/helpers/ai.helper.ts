@@ -1,6 +1,8 @@
-import { OpenAI } from 'openai';
-import { DatabaseContext } from '../types/ai.types';
+import llmService from '../services/llm.service';
+import { DatabaseContext, QueryAttempt, QueryIntent, RequirementsAnalysis } from '../types/ai.types';
+import { QueryExample } from '../types/example.types';
 import { DatabaseSchema } from '../types/schema.types';
+import { ConversationTurn } from '../types/session.types';
 
 export async function generateAIResponse(query: string, context: DatabaseContext, schema: DatabaseSchema) {
   const systemPrompt = `
@@ -53,27 +55,73 @@ export async function generateAIResponse(query: string, context: DatabaseContext
     2. explanation: explanation of how the query works and why you chose this collection and fields based on the schema.
   `;
 
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
   try {
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      response_format: { type: "json_object" },
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ],
-      temperature: 0.3,
-    });
-
-    return JSON.parse(completion.choices[0].message.content || '{}');
+    const completion = await llmService.json('intentQuery', [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt }
+    ]);
+
+    return completion.content;
   } catch (error: unknown) {
     console.error('Error generating MongoDB query:', error);
     throw error;
   }
 }
 
-export async function generateIntentBasedQuery(query: string, context: DatabaseContext, schema: DatabaseSchema) {
+function describeIntent(intent?: QueryIntent): string {
+  if (!intent?.interpretation) return '';
+  const collections = intent.collections?.length
+    ? `\n    Use these collections: ${intent.collections.join(', ')}.`
+    : '';
+  return `
+    The request was ambiguous and the user clarified what they meant: "${intent.interpretation}".${collections}
+    Build the query for this interpretation only.
+  `;
+}
+
+function describeHistory(history: ConversationTurn[] = []): string {
+  if (history.length === 0) return '';
+  const turns = history.map((turn, index) => `
+    Turn ${index + 1}:
+    - Question: "${turn.question}"${turn.clarification ? `\n    - Clarified as: "${turn.clarification}"` : ''}
+    - MongoDB query: ${turn.mongoQuery}
+    - Result: ${turn.resultSummary.count} document(s) with fields ${turn.resultSummary.fields.join(', ') || '(none)'}`
+  ).join('\n');
+
+  return `
+    This request continues an earlier conversation:
+    ${turns}
+
+    If the new request refers to earlier results (e.g. "those", "now only for last month", "group them by status"),
+    refine the most recent query instead of starting over, keeping its collection and filters unless the user changes them.
+  `;
+}
+
+function describeExamples(examples: QueryExample[] = []): string {
+  if (examples.length === 0) return '';
+  const pairs = examples.map((example, index) => `
+    Example ${index + 1}:
+    - Question: "${example.question}"
+    - MongoDB query: ${example.mongoQuery}`
+  ).join('\n');
+
+  return `
+    These verified queries answered similar questions on this database:
+    ${pairs}
+
+    Reuse their collections, field names and value formats where they fit, but answer the new request, not theirs.
+  `;
+}
+
+// `examples` are verified queries for similar questions, shown as demonstrations
+export async function generateIntentBasedQuery(
+  query: string,
+  context: DatabaseContext,
+  schema: DatabaseSchema,
+  intent?: QueryIntent,
+  history?: ConversationTurn[],
+  examples?: QueryExample[]
+) {
   const systemPrompt = `
     You are an expert MongoDB query generator. Your task is to convert natural language requests into accurate MongoDB queries.
 
@@ -95,6 +143,9 @@ export async function generateIntentBasedQuery(query: string, context: DatabaseC
     - Write the final MongoDB query using proper syntax.
     - Use dot notation for nested fields (e.g., "phonePeSubscriptionData.nextPaymentInitDate").
     - Ensure the query is efficient and accurate.
+    - For "how many" questions use db.collection.countDocuments({...}); for "which values exist" use
+      db.collection.distinct("field", {...}). Use find() with a projection, .sort() and .limit() when
+      only some fields or the top N documents are needed.
 
     **Output Format:**
     Return a JSON object with:
@@ -109,31 +160,29 @@ export async function generateIntentBasedQuery(query: string, context: DatabaseC
     - Do not assume field names; cross-check with the schema.
     - Handle nested fields correctly with dot notation.
     - Base your reasoning on the schema's semantic meaning and structure.
+    - When the request spans collections, join them with $lookup along schema.relationships:
+      localField is from.field, from is to.collection and foreignField is to.field. Prefer
+      high-confidence relationships, and $unwind the joined array for many-to-one or one-to-one.
   `;
 
   const userPrompt = `
     Given this database context and schema:
     Schema: ${JSON.stringify(schema, null, 2)}
 
+    ${describeExamples(examples)}
+    ${describeHistory(history)}
     Generate a MongoDB query for this natural language request: "${query}"
-    
+    ${describeIntent(intent)}
     Follow the 4-step reasoning process outlined in the system prompt to ensure accuracy.
   `;
 
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
   try {
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      response_format: { type: "json_object" },
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ],
-      temperature: 0.3,
-    });
-
-    return JSON.parse(completion.choices[0].message.content || '{}');
+    const completion = await llmService.json('intentQuery', [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt }
+    ]);
+
+    return completion.content;
   } catch (error: unknown) {
     console.error('Error generating MongoDB query:', error);
     throw error;
@@ -141,13 +190,83 @@ export async function generateIntentBasedQuery(query: string, context: DatabaseC
 }
 
 
-export async function analyzeQueryRequirements(query: string, context: DatabaseContext, schema: DatabaseSchema) {
+export async function repairMongoQuery(
+  query: string,
+  context: DatabaseContext,
+  schema: DatabaseSchema,
+  failedAttempts: QueryAttempt[],
+  intent?: QueryIntent
+) {
+  const systemPrompt = `
+    You are an expert MongoDB query generator fixing a query that did not work.
+    You receive the original natural language request, the schema and every previous attempt with the error it produced.
+
+    **Rules:**
+    - Fix the cause of the latest error; do not repeat a query that already failed.
+    - Parse errors point at a line and column: correct the syntax there. Use mongosh syntax
+      (e.g. db.collection.find({...}) or db.collection.aggregate([...])) with helpers such as ObjectId("...") and ISODate("...").
+    - Policy violations mean the query used a write stage, server-side JavaScript or a restricted collection/field.
+      Rewrite it as a read-only query that avoids them.
+    - Validation errors name fields or collections that do not exist in the schema, usually with
+      "did you mean" suggestions: use the suggested names.
+    - Execution errors come from the MongoDB server: check operator usage and field types.
+    - An empty result may mean the filter values do not match the stored data: check spelling and casing of
+      enum values, ObjectId vs string ids, date types and ranges, and nested field paths.
+    - Validate every field name against the schema.
+    - Join collections only along schema.relationships, using from.field and to.field as the $lookup keys.
+
+    Return a JSON object with:
+    - **mongoQuery:** The corrected MongoDB query as a string.
+    - **explanation:** Explanation of how the query works.
+    - **fix:** One sentence describing what you changed compared to the previous attempt.
+  `;
+
+  const attempts = failedAttempts.map(attempt => `
+    Attempt ${attempt.attempt}:
+    Query: ${attempt.mongoQuery}
+    Outcome: ${attempt.outcome}${attempt.error ? `\n    Error: ${attempt.error}` : ''}`
+  ).join('\n');
+
+  const userPrompt = `
+    Schema: ${JSON.stringify(schema, null, 2)}
+
+    Natural language request: "${query}"
+    ${describeIntent(intent)}
+    Previous attempts:
+    ${attempts}
+
+    Return a corrected MongoDB query.
+  `;
+
+  try {
+    const completion = await llmService.json('queryRepair', [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt }
+    ]);
+
+    return completion.content;
+  } catch (error: unknown) {
+    console.error('Error repairing MongoDB query:', error);
+    throw error;
+  }
+}
+
+export async function analyzeQueryRequirements(
+  query: string,
+  context: DatabaseContext,
+  schema: DatabaseSchema,
+  history?: ConversationTurn[]
+): Promise<RequirementsAnalysis> {
   const systemPrompt = `
     You are a MongoDB query analyzer. Your task is to:
     1. Analyze if the query intent is clear and matches available collections/fields
     2. Identify which collections and fields would be needed
     3. Verify if those collections/fields exist in the schema
+    4. Detect ambiguity: a term that maps to more than one product, collection or field
+       (e.g. "gold" could mean regular gold purchases or goal-based gold investments)
     
+    Only set canProceed to false when the request is genuinely ambiguous or cannot be answered.
+    When it is ambiguous, offer the concrete interpretations as options so the user can pick one.
     Return a detailed analysis that helps determine if we can proceed with query generation.
   `;
 
@@ -155,7 +274,7 @@ export async function analyzeQueryRequirements(query: string, context: DatabaseC
     Given this database context and schema:
     Context: ${JSON.stringify(context, null, 2)}
     Schema: ${JSON.stringify(schema, null, 2)}
-
+    ${describeHistory(history)}
     Analyze this query: "${query}"
     
     Return a JSON object with:
@@ -164,21 +283,24 @@ export async function analyzeQueryRequirements(query: string, context: DatabaseC
       "relevantCollections": string[],
       "relevantFields": string[],
       "reasoning": string,
-      "suggestedClarification": string (if canProceed is false)
+      "suggestedClarification": string (if canProceed is false, phrased as a question to the user),
+      "options": [
+        {
+          "id": string (short kebab-case identifier),
+          "label": string (the interpretation in a few words),
+          "description": string,
+          "collections": string[] (collections this interpretation would query),
+          "intentType": "regular-gold" | "goal-gold" (only when choosing between gold products)
+        }
+      ] (if canProceed is false, at least two options)
     }
   `;
 
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
-    response_format: { type: "json_object" },
-    messages: [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt }
-    ],
-    temperature: 0.3,
-  });
+  const completion = await llmService.json<RequirementsAnalysis>('requirementsAnalysis', [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userPrompt }
+  ]);
 
-  return JSON.parse(completion.choices[0].message.content || '{}');
+  return completion.content;
 }
 
@@ -0,0 +1,41 @@
+import { Request } from 'express';
+import { QueryResult } from '../types/ai.types';
+import { AuditEntry, AuditFilter, AuditOutcome } from '../types/audit.types';
+import { LLMCallRecord } from '../types/llm.types';
+import { UserRole } from '../types/user.types';
+
+// Who is asking: the user the authenticate middleware resolved
+export function requestUser(req: Request): { userId: string | null; userRole?: UserRole; ip?: string } {
+  return { userId: req.user?.id || null, userRole: req.user?.role, ip: req.ip };
+}
+
+export function summarizeLLMCalls(calls: LLMCallRecord[]): AuditEntry['llm'] {
+  if (!calls.length) return undefined;
+  return { calls, totalTokens: calls.reduce((total, call) => total + (call.usage?.totalTokens || 0), 0) };
+}
+
+// What a natural language query ended in, for the audit log
+export function queryOutcome(result: QueryResult): { outcome: AuditOutcome; error?: string } {
+  if (result.needsClarification) return { outcome: 'clarification' };
+  if (result.policy && !result.policy.allowed) return { outcome: 'policy_violation' };
+  const last = result.attempts?.[result.attempts.length - 1];
+  const executed = result.attempts?.some(a => a.outcome === 'success' || a.outcome === 'empty_result');
+  if (executed) return { outcome: result.attempts!.some(a => a.outcome === 'success') ? 'success' : 'empty_result' };
+  return { outcome: 'error', error: last?.error || result.explanation };
+}
+
+export function matchesAuditFilter(entry: AuditEntry, filter: AuditFilter): boolean {
+  if (filter.userId && entry.userId !== filter.userId) return false;
+  if (filter.connectionId && entry.connectionId !== filter.connectionId) return false;
+  if (filter.type && entry.type !== filter.type) return false;
+  if (filter.outcome && entry.outcome !== filter.outcome) return false;
+  const time = new Date(entry.timestamp).getTime();
+  if (filter.from && time < filter.from.getTime()) return false;
+  if (filter.to && time > filter.to.getTime()) return false;
+  if (filter.text) {
+    const text = filter.text.toLowerCase();
+    const haystack = `${entry.question || ''}\n${entry.mongoQuery || ''}`.toLowerCase();
+    if (!haystack.includes(text)) return false;
+  }
+  return true;
+}
@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { TokenPayload } from '../types/auth.types';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const API_KEY_PREFIX = 'mq_';
+
+function base64url(value: Buffer | string): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+// Compares without leaking where two values first differ
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+// Stored as scrypt$<salt>$<hash>
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64');
+  return safeEqual(await scrypt(password, Buffer.from(salt, 'base64'), expected.length), expected);
+}
+
+// API keys are only shown once; the user service keeps their SHA-256
+export function generateApiKey(): string {
+  return API_KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export function isApiKey(credential: string): boolean {
+  return credential.startsWith(API_KEY_PREFIX);
+}
+
+export function signToken(payload: TokenPayload, secret: string): string {
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const body = base64url(JSON.stringify(payload));
+  const signature = crypto.createHmac('sha256', secret).update(`${header}.${body}`).digest('base64url');
+  return `${header}.${body}.${signature}`;
+}
+
+// Null for tokens that are malformed, signed with another secret or expired
+export function verifyToken(token: string, secret: string): TokenPayload | null {
+  const [header, body, signature] = token.split('.');
+  if (!header || !body || !signature) return null;
+  const expected = crypto.createHmac('sha256', secret).update(`${header}.${body}`).digest();
+  if (!safeEqual(Buffer.from(signature, 'base64url'), expected)) return null;
+
+  let payload: TokenPayload;
+  try {
+    if (JSON.parse(Buffer.from(header, 'base64url').toString()).alg !== 'HS256') return null;
+    payload = JSON.parse(Buffer.from(body, 'base64url').toString());
+  } catch (error) {
+    return null;
+  }
+  if (typeof payload.sub !== 'string' || typeof payload.exp !== 'number') return null;
+  return payload.exp * 1000 > Date.now() ? payload : null;
+}
@@ -0,0 +1,24 @@
+import { createHash } from 'crypto';
+import { BSON } from 'mongodb';
+import { ParsedQuery, ResultWindow } from '../types/query.types';
+
+// Case, spacing and trailing punctuation don't change what a question asks
+export function normalizeQuestion(question: string): string {
+  return question.toLowerCase().replace(/\s+/g, ' ').replace(/[\s?.!]+$/, '').trim();
+}
+
+export function hashKey(...parts: any[]): string {
+  return createHash('sha256')
+    .update(parts.map(part => typeof part === 'string' ? part : BSON.EJSON.stringify(part ?? null, { relaxed: false })).join('\u0000'))
+    .digest('hex')
+    .slice(0, 32);
+}
+
+/**
+ * Parsed queries are compared instead of their source text, so quoting,
+ * spacing and `ObjectId("...")` vs `new ObjectId('...')` don't matter. Key
+ * order is kept: it is significant in sort documents and pipelines.
+ */
+export function queryCacheKey(query: ParsedQuery, window: ResultWindow): string {
+  return hashKey(query, window);
+}
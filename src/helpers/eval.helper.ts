@@ -0,0 +1,182 @@
+import { BSON } from 'mongodb';
+import { collectQueryReferences } from './reference.helper';
+import { validateQueryFields } from './validation.helper';
+import { isPlainObject } from './query.helper';
+import {
+  EvalCaseChange,
+  EvalCaseResult,
+  EvalComparison,
+  EvalMetrics,
+  EvalQueryShape,
+  EvalReport
+} from '../types/eval.types';
+import { ParsedQuery } from '../types/query.types';
+import { DatabaseSchema } from '../types/schema.types';
+
+// Values compared the way they read: ObjectIds as hex, dates as ISO strings,
+// decimals as numbers, numbers to 9 significant digits, keys in order
+function canonical(value: any): any {
+  if (value instanceof BSON.ObjectId) return value.toHexString();
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof BSON.Decimal128 || value instanceof BSON.Long || value instanceof BSON.Double || value instanceof BSON.Int32) {
+    return canonical(Number(value.toString()));
+  }
+  if (typeof value === 'number') return Number.isFinite(value) ? Number(value.toPrecision(9)) : String(value);
+  if (Array.isArray(value)) return value.map(canonical);
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.keys(value).sort().map(key => [key, canonical(value[key])]));
+  }
+  return value;
+}
+
+// Expected results are written as Extended JSON
+export function parseExpected(results: any[]): any[] {
+  return BSON.EJSON.deserialize(results, { relaxed: true }) as any[];
+}
+
+/**
+ * Execution accuracy: the query returned the expected documents (or values),
+ * in order when `ordered`. Documents are compared on the keys the expected
+ * documents have, so extra fields in the answer don't count against it.
+ */
+export function resultsMatch(actual: any[], expected: any[], ordered = false): boolean {
+  if (actual.length !== expected.length) return false;
+  const keys = expected.every(isPlainObject) ? new Set(expected.flatMap(document => Object.keys(document))) : null;
+  const project = (value: any) => keys && isPlainObject(value)
+    ? Object.fromEntries([...keys].map(key => [key, value[key] ?? null]))
+    : value;
+
+  const actualKeys = actual.map(value => JSON.stringify(canonical(project(value))));
+  const expectedKeys = expected.map(value => JSON.stringify(canonical(project(value))));
+  if (!ordered) {
+    actualKeys.sort();
+    expectedKeys.sort();
+  }
+  return actualKeys.every((key, i) => key === expectedKeys[i]);
+}
+
+// Array positions don't change which field a path names
+function normalizePath(path: string): string {
+  return path.split('.').filter(segment => !/^\d+$/.test(segment)).join('.');
+}
+
+// Ways the query differs from the expected shape; empty when it matches
+export function queryShapeIssues(query: ParsedQuery, shape: EvalQueryShape): string[] {
+  const issues: string[] = [];
+  if (query.operation === 'unsupported') return [`${query.method}() is not supported`];
+  if (shape.collection && query.collectionName !== shape.collection) {
+    issues.push(`Queries "${query.collectionName}" instead of "${shape.collection}"`);
+  }
+  if (shape.operation && query.operation !== shape.operation) {
+    issues.push(`Uses ${query.operation}() instead of ${shape.operation}()`);
+  }
+  if (shape.fields?.length) {
+    const used = new Set(collectQueryReferences(query).fields
+      .filter(reference => reference.resolution === 'collection')
+      .map(reference => normalizePath(reference.path)));
+    for (const field of shape.fields) {
+      if (!used.has(normalizePath(field))) issues.push(`Doesn't use field "${field}"`);
+    }
+  }
+  if (shape.stages?.length) {
+    const stages = query.operation === 'aggregate' ? query.pipeline.map(stage => Object.keys(stage)[0]) : [];
+    let next = 0;
+    for (const stage of stages) {
+      if (stage === shape.stages[next]) next++;
+    }
+    if (next < shape.stages.length) issues.push(`Pipeline doesn't have ${shape.stages.join(', ')} in this order`);
+  }
+  return issues;
+}
+
+// Collections and stored field paths the query uses that the schema doesn't have
+export function fieldPathValidity(query: ParsedQuery, schema: DatabaseSchema): { total: number; invalid: string[] } {
+  const references = collectQueryReferences(query);
+  const total = references.collections.length
+    + references.fields.filter(reference => reference.path && reference.resolution !== 'computed' && reference.resolution !== 'unknown').length;
+  const invalid = validateQueryFields(query, schema).issues
+    .map(issue => issue.path ? `${issue.collection}.${issue.path}` : issue.collection);
+  return { total, invalid };
+}
+
+function share(count: number, total: number): number {
+  return total ? Math.round(count / total * 1000) / 1000 : 0;
+}
+
+function average(values: number[]): number {
+  return values.length ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length * 100) / 100 : 0;
+}
+
+export function summarize(results: EvalCaseResult[]): EvalMetrics {
+  const executed = results.filter(result => result.outcome === 'success' || result.outcome === 'empty_result');
+  const withResults = results.filter(result => result.resultsMatch !== null);
+  const withShape = results.filter(result => result.shapeMatch !== null);
+  const withQuery = results.filter(result => result.mongoQuery);
+  const paths = withQuery.reduce((sum, result) => sum + result.fieldPaths.total, 0);
+  const invalidPaths = withQuery.reduce((sum, result) => sum + result.fieldPaths.invalid.length, 0);
+
+  return {
+    cases: results.length,
+    executionRate: share(executed.length, results.length),
+    accuracy: share(results.filter(result => result.correct).length, results.length),
+    resultAccuracy: withResults.length ? share(withResults.filter(result => result.resultsMatch).length, withResults.length) : null,
+    shapeAccuracy: withShape.length ? share(withShape.filter(result => result.shapeMatch).length, withShape.length) : null,
+    validQueryRate: share(withQuery.filter(result => !result.fieldPaths.invalid.length).length, withQuery.length),
+    validFieldPathRate: share(Math.max(0, paths - invalidPaths), paths),
+    averageAttempts: average(results.map(result => result.attempts)),
+    totalTokens: results.reduce((sum, result) => sum + result.tokens, 0),
+    averageDurationMs: average(results.map(result => result.durationMs))
+  };
+}
+
+export function summarizeByTag(results: EvalCaseResult[]): { [tag: string]: EvalMetrics } {
+  const tags = [...new Set(results.flatMap(result => result.tags || []))].sort();
+  return Object.fromEntries(tags.map(tag => [tag, summarize(results.filter(result => result.tags?.includes(tag)))]));
+}
+
+/**
+ * Compares two runs of the same dataset case by case: which cases the
+ * candidate configuration broke, which it fixed, and how every metric moved.
+ */
+export function compareReports(baseline: EvalReport, candidate: EvalReport): EvalComparison {
+  const before = new Map(baseline.cases.map(result => [result.id, result]));
+  const after = new Map(candidate.cases.map(result => [result.id, result]));
+  const pick = ({ outcome, correct, mongoQuery }: EvalCaseResult) => ({ outcome, correct, mongoQuery });
+
+  const regressions: EvalCaseChange[] = [];
+  const improvements: EvalCaseChange[] = [];
+  let changedQueries = 0;
+  for (const [id, result] of before) {
+    const other = after.get(id);
+    if (!other) continue;
+    const change = { id, question: result.question, baseline: pick(result), candidate: pick(other) };
+    if (result.correct && !other.correct) regressions.push(change);
+    else if (!result.correct && other.correct) improvements.push(change);
+    else if (result.mongoQuery !== other.mongoQuery) changedQueries++;
+  }
+
+  const metrics = {} as EvalComparison['metrics'];
+  for (const metric of Object.keys(baseline.metrics) as (keyof EvalMetrics)[]) {
+    const from = baseline.metrics[metric];
+    const to = candidate.metrics[metric];
+    metrics[metric] = {
+      baseline: from,
+      candidate: to,
+      delta: from === null || to === null ? null : Math.round((to - from) * 1000) / 1000
+    };
+  }
+
+  return {
+    dataset: candidate.dataset,
+    baseline: baseline.config.name,
+    candidate: candidate.config.name,
+    metrics,
+    regressions,
+    improvements,
+    changedQueries,
+    unmatched: [
+      ...[...before.keys()].filter(id => !after.has(id)),
+      ...[...after.keys()].filter(id => !before.has(id))
+    ]
+  };
+}
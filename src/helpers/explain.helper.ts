@@ -0,0 +1,168 @@
+import { Document } from 'mongodb';
+import { lastModifier } from './mongo.helper';
+import { isOperatorObject } from './query.helper';
+import { ParsedQuery } from '../types/query.types';
+import { IndexInfo, IndexSuggestion, PlanSummary, ScanType } from '../types/explain.types';
+
+// Index key shape a query benefits from, following the equality-sort-range rule
+export interface IndexShape {
+  collection: string;
+  equality: string[];
+  sort: [string, 1 | -1][];
+  range: string[];
+}
+
+const EQUALITY_OPERATORS = new Set(['$eq', '$in', '$elemMatch', '$all', '$size']);
+
+// Explain output nests the planner under `$cursor` for pipelines and under
+// `shards` on sharded clusters; every part that has a queryPlanner is collected.
+function findPlannerRoots(explain: Document, roots: Document[] = []): Document[] {
+  if (!explain || typeof explain !== 'object') return roots;
+  if (explain.queryPlanner) {
+    roots.push(explain);
+    return roots;
+  }
+  for (const stage of explain.stages || []) {
+    if (stage.$cursor) findPlannerRoots(stage.$cursor, roots);
+  }
+  for (const shard of Object.values(explain.shards || {})) findPlannerRoots(shard as Document, roots);
+  return roots;
+}
+
+function collectStages(plan: Document | undefined, stages: string[], indexes: Set<string>) {
+  if (!plan || typeof plan !== 'object') return;
+  // Plans from the slot-based engine wrap the classic tree in `queryPlan`
+  if (plan.queryPlan) return collectStages(plan.queryPlan, stages, indexes);
+  if (plan.stage) stages.push(plan.stage);
+  if (plan.indexName) indexes.add(plan.indexName);
+  collectStages(plan.inputStage, stages, indexes);
+  for (const input of plan.inputStages || []) collectStages(input, stages, indexes);
+  for (const shard of plan.shards || []) collectStages(shard.winningPlan, stages, indexes);
+}
+
+export function summarizeExplain(explain: Document): PlanSummary {
+  const stages: string[] = [];
+  const indexes = new Set<string>();
+  const summary = { docsExamined: 0, keysExamined: 0, nReturned: 0, executionTimeMs: 0 };
+
+  for (const root of findPlannerRoots(explain)) {
+    collectStages(root.queryPlanner.winningPlan, stages, indexes);
+    const stats = root.executionStats || {};
+    summary.docsExamined += stats.totalDocsExamined || 0;
+    summary.keysExamined += stats.totalKeysExamined || 0;
+    summary.nReturned += stats.nReturned || 0;
+    summary.executionTimeMs = Math.max(summary.executionTimeMs, stats.executionTimeMillis || 0);
+  }
+
+  const collectionScan = stages.includes('COLLSCAN');
+  const indexScan = stages.some(stage => stage === 'IXSCAN' || stage === 'IDHACK' || stage === 'EXPRESS_IXSCAN');
+  let scanType: ScanType = 'none';
+  if (collectionScan && indexScan) scanType = 'mixed';
+  else if (collectionScan) scanType = 'COLLSCAN';
+  else if (indexScan) scanType = 'IXSCAN';
+
+  return { scanType, stages: Array.from(new Set(stages)), indexesUsed: Array.from(indexes), ...summary };
+}
+
+function classifyFilter(filter: Document, shape: IndexShape) {
+  for (const [field, condition] of Object.entries(filter || {})) {
+    if (field === '$and' && Array.isArray(condition)) {
+      condition.forEach(clause => classifyFilter(clause, shape));
+      continue;
+    }
+    // $or, $expr and $text need indexes of their own shape
+    if (field.startsWith('$')) continue;
+
+    const isEquality = !isOperatorObject(condition)
+      || Object.keys(condition).every(operator => EQUALITY_OPERATORS.has(operator));
+    const target = isEquality ? shape.equality : shape.range;
+    if (!shape.equality.includes(field) && !shape.range.includes(field)) target.push(field);
+  }
+}
+
+function sortEntries(sort: any): [string, 1 | -1][] {
+  if (!sort || typeof sort !== 'object' || Array.isArray(sort)) return [];
+  return Object.entries(sort)
+    .filter(([, direction]) => direction === 1 || direction === -1 || direction === 'asc' || direction === 'desc')
+    .map(([field, direction]) => [field, direction === -1 || direction === 'desc' ? -1 : 1]);
+}
+
+// Filter and sort an index could serve. For pipelines only the leading $match
+// stages and a $sort right after them can use an index.
+export function queryIndexShape(query: ParsedQuery): IndexShape | null {
+  const shape: IndexShape = { collection: query.collectionName, equality: [], sort: [], range: [] };
+
+  switch (query.operation) {
+    case 'find':
+      classifyFilter(query.filter, shape);
+      shape.sort = sortEntries(lastModifier(query, 'sort'));
+      break;
+    case 'findOne':
+      classifyFilter(query.filter, shape);
+      shape.sort = sortEntries(query.options.sort);
+      break;
+    case 'countDocuments':
+    case 'distinct':
+      classifyFilter(query.filter, shape);
+      break;
+    case 'aggregate': {
+      let index = 0;
+      while (query.pipeline[index]?.$match) classifyFilter(query.pipeline[index++].$match, shape);
+      if (query.pipeline[index]?.$sort) shape.sort = sortEntries(query.pipeline[index].$sort);
+      break;
+    }
+    default:
+      return null;
+  }
+
+  const sortFields = new Set(shape.sort.map(([field]) => field));
+  shape.sort = shape.sort.filter(([field]) => !shape.equality.includes(field));
+  shape.range = shape.range.filter(field => !sortFields.has(field));
+  return shape.equality.length || shape.sort.length || shape.range.length ? shape : null;
+}
+
+function sameFields(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every(field => b.includes(field));
+}
+
+// True when the index starts with the shape's fields: equality fields in any
+// order, then the sort fields in order (all directions matching or all
+// reversed), then the range fields in any order.
+export function isServedBy(shape: IndexShape, index: IndexInfo): boolean {
+  const fields = Object.keys(index.keys);
+  let position = shape.equality.length;
+  if (!sameFields(fields.slice(0, position), shape.equality)) return false;
+
+  let reversed: boolean | null = null;
+  for (const [field, direction] of shape.sort) {
+    const indexDirection = index.keys[field];
+    if (fields[position++] !== field || (indexDirection !== 1 && indexDirection !== -1)) return false;
+    const flipped = indexDirection !== direction;
+    if (reversed !== null && reversed !== flipped) return false;
+    reversed = flipped;
+  }
+  return sameFields(fields.slice(position, position + shape.range.length), shape.range);
+}
+
+export function shapeKeys(shape: IndexShape): { [field: string]: 1 | -1 } {
+  const keys: { [field: string]: 1 | -1 } = {};
+  shape.equality.forEach(field => { keys[field] = 1; });
+  shape.sort.forEach(([field, direction]) => { keys[field] = direction; });
+  shape.range.forEach(field => { keys[field] = 1; });
+  return keys;
+}
+
+export function suggestIndexes(
+  query: ParsedQuery,
+  indexes: IndexInfo[],
+  plan?: PlanSummary | null
+): IndexSuggestion[] {
+  const shape = queryIndexShape(query);
+  if (!shape || indexes.some(index => isServedBy(shape, index))) return [];
+
+  const fields = Object.keys(shapeKeys(shape)).join(', ');
+  const reason = plan && plan.scanType !== 'IXSCAN'
+    ? `${plan.scanType} examined ${plan.docsExamined} documents to return ${plan.nReturned}; no index starts with ${fields}`
+    : `No index starts with ${fields}`;
+  return [{ collection: shape.collection, keys: shapeKeys(shape), reason }];
+}
@@ -0,0 +1,108 @@
+import { flattenFields } from './schema.helper';
+import { CollectionSchema } from '../types/schema.types';
+import { ExportRow } from '../types/export.types';
+
+function isPlainObject(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+    && !(value instanceof Date) && !(value instanceof RegExp) && !value._bsontype;
+}
+
+/**
+ * Formats one value the same way in every export format: dates as ISO 8601,
+ * ObjectIds as hex, Decimal128 and Long as their exact decimal string, UUIDs
+ * in canonical form and other binary as base64. Objects and arrays keep their
+ * shape with their contents formatted.
+ */
+export function formatExportValue(value: any): any {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString();
+  if (value instanceof RegExp) return value.toString();
+  if (Array.isArray(value)) return value.map(formatExportValue);
+
+  switch (value._bsontype) {
+    case 'ObjectId':
+    case 'ObjectID': return value.toHexString();
+    case 'Decimal128':
+    case 'Long': return value.toString();
+    case 'Int32':
+    case 'Double': return value.valueOf();
+    case 'Binary': return value.sub_type === 4 ? value.toUUID().toString() : value.toString('base64');
+    case 'Timestamp': return { t: value.high, i: value.low };
+    case 'BSONRegExp': return `/${value.pattern}/${value.options}`;
+    case 'MinKey':
+    case 'MaxKey': return value._bsontype;
+    case 'Code': return value.code;
+    case 'BSONSymbol': return value.value;
+    case 'DBRef': return { $ref: value.collection, $id: formatExportValue(value.oid) };
+  }
+
+  if (typeof value === 'object') {
+    const formatted: { [key: string]: any } = {};
+    for (const [key, nested] of Object.entries(value)) formatted[key] = formatExportValue(nested);
+    return formatted;
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) return String(value);
+  return value;
+}
+
+// Embedded documents become dotted columns (`phonePeSubscriptionData.status`);
+// arrays stay in one cell as JSON.
+export function flattenDocument(document: any, prefix = '', row: ExportRow = {}): ExportRow {
+  if (!isPlainObject(document)) {
+    row[prefix || 'value'] = toCell(formatExportValue(document));
+    return row;
+  }
+  const entries = Object.entries(document);
+  if (entries.length === 0 && prefix) row[prefix] = '{}';
+  for (const [key, value] of entries) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value) && Object.keys(value as object).length > 0) {
+      flattenDocument(value, path, row);
+    } else {
+      row[path] = toCell(formatExportValue(value));
+    }
+  }
+  return row;
+}
+
+function toCell(value: any): string | number | boolean | null {
+  if (value === null || typeof value !== 'object') return value;
+  return JSON.stringify(value);
+}
+
+/**
+ * Puts `_id` first, then columns by the importance the schema analysis gave
+ * their field, highest first. Columns without a score (computed fields,
+ * unenriched schemas) follow in the order they were first seen.
+ */
+export function orderColumns(columns: string[], collection?: CollectionSchema): string[] {
+  const importance = new Map<string, number>();
+  for (const { path, info } of flattenFields(collection?.fields || {})) {
+    if (typeof info.importance === 'number') importance.set(path, info.importance);
+  }
+  const score = (column: string) => column === '_id' ? Infinity : importance.get(column) ?? -Infinity;
+
+  return columns
+    .map((column, index) => ({ column, index, score: score(column) }))
+    .sort((a, b) => (b.score - a.score) || (a.index - b.index))
+    .map(({ column }) => column);
+}
+
+// Spreadsheets run a text cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Quotes text a spreadsheet would otherwise evaluate (`=HYPERLINK(...)`)
+// with a leading apostrophe. Numbers are left alone, negative ones included.
+export function escapeFormula<T>(value: T): T | string {
+  return typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : value;
+}
+
+function escapeCsv(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = String(escapeFormula(value));
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvLine(values: (string | number | boolean | null | undefined)[]): string {
+  return values.map(escapeCsv).join(',') + '\r\n';
+}
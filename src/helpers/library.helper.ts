@@ -0,0 +1,211 @@
+import { BSON, Decimal128, Document, ObjectId } from 'mongodb';
+import { isOperatorObject } from './query.helper';
+import { resolveFieldPath } from './schema.helper';
+import { ParsedQuery } from '../types/query.types';
+import { CollectionSchema } from '../types/schema.types';
+import { ParameterType, QueryParameter } from '../types/library.types';
+
+export class ParameterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ParameterError';
+  }
+}
+
+const LOGICAL_OPERATORS = new Set(['$and', '$or', '$nor']);
+const COMPARISON_OPERATORS = new Set(['$eq', '$ne', '$gt', '$gte', '$lt', '$lte', '$in', '$nin', '$all']);
+const LIST_OPERATORS = new Set(['$in', '$nin', '$all']);
+// Pipeline stages after which documents still have the collection's fields
+const PASS_THROUGH_STAGES = new Set(['$match', '$sort', '$skip', '$limit']);
+
+const SCHEMA_PARAMETER_TYPES: { [bsonType: string]: ParameterType } = {
+  string: 'string',
+  number: 'number',
+  int: 'number',
+  long: 'number',
+  double: 'number',
+  decimal: 'decimal',
+  date: 'date',
+  objectId: 'objectId',
+  boolean: 'boolean'
+};
+
+function literalType(value: any): ParameterType | null {
+  if (typeof value === 'string') return 'string';
+  if (typeof value === 'number') return Number.isFinite(value) ? 'number' : null;
+  if (typeof value === 'boolean') return 'boolean';
+  if (value instanceof Date) return 'date';
+  switch (value?._bsontype) {
+    case 'ObjectId':
+    case 'ObjectID': return 'objectId';
+    case 'Decimal128': return 'decimal';
+    case 'Long':
+    case 'Int32':
+    case 'Double': return 'number';
+  }
+  return null;
+}
+
+function parameterName(field: string, operator: string, taken: Set<string>): string {
+  const base = field.split('.').filter(segment => !/^\d+$/.test(segment)).pop() || 'value';
+  const name = operator === '$eq' ? base : `${base}_${operator.slice(1)}`;
+  let unique = name;
+  for (let suffix = 2; taken.has(unique); suffix++) unique = `${name}_${suffix}`;
+  taken.add(unique);
+  return unique;
+}
+
+interface Collector {
+  parameters: QueryParameter[];
+  names: Set<string>;
+  collection?: CollectionSchema;
+  // Fields of later pipeline stages may be computed, so they aren't checked against the schema
+  schemaFields: boolean;
+}
+
+function addParameter(collector: Collector, field: string, operator: string, path: (string | number)[], value: any) {
+  const list = LIST_OPERATORS.has(operator);
+  const values = list ? value : [value];
+  if (!Array.isArray(values) || values.length === 0) return;
+  const types = new Set(values.map(literalType));
+  if (types.size !== 1 || types.has(null)) return;
+
+  let type = literalType(values[0])!;
+  if (collector.schemaFields && collector.collection) {
+    const schemaType = resolveFieldPath(collector.collection.fields, field).field?.type;
+    if (schemaType && SCHEMA_PARAMETER_TYPES[schemaType]) type = SCHEMA_PARAMETER_TYPES[schemaType];
+  }
+
+  collector.parameters.push({
+    name: parameterName(field, operator, collector.names),
+    path,
+    type,
+    list,
+    field: collector.schemaFields ? field : undefined,
+    operator,
+    defaultValue: value
+  });
+}
+
+function collectCondition(collector: Collector, field: string, condition: any, path: (string | number)[]) {
+  if (!isOperatorObject(condition)) {
+    addParameter(collector, field, '$eq', path, condition);
+    return;
+  }
+  for (const [operator, value] of Object.entries(condition)) {
+    if (COMPARISON_OPERATORS.has(operator)) addParameter(collector, field, operator, [...path, operator], value);
+  }
+}
+
+function collectFilter(collector: Collector, filter: Document, path: (string | number)[]) {
+  for (const [key, value] of Object.entries(filter || {})) {
+    if (LOGICAL_OPERATORS.has(key) && Array.isArray(value)) {
+      value.forEach((clause, index) => collectFilter(collector, clause, [...path, key, index]));
+    } else if (!key.startsWith('$')) {
+      collectCondition(collector, key, value, [...path, key]);
+    }
+  }
+}
+
+/**
+ * Turns the literals of a query's filters into named parameters: equality
+ * values, comparison bounds and $in lists. Types come from the analyzed schema
+ * when the field is known there, otherwise from the literal itself.
+ */
+export function extractParameters(query: ParsedQuery, collection?: CollectionSchema): QueryParameter[] {
+  const collector: Collector = { parameters: [], names: new Set(), collection, schemaFields: true };
+  switch (query.operation) {
+    case 'find':
+    case 'findOne':
+    case 'countDocuments':
+    case 'distinct':
+      collectFilter(collector, query.filter, ['filter']);
+      break;
+    case 'aggregate':
+      query.pipeline.forEach((stage, index) => {
+        if (stage.$match) collectFilter(collector, stage.$match, ['pipeline', index, '$match']);
+        if (!Object.keys(stage).every(name => PASS_THROUGH_STAGES.has(name))) collector.schemaFields = false;
+      });
+      break;
+  }
+  return collector.parameters;
+}
+
+function coerceValue(parameter: QueryParameter, value: any): any {
+  const fail = () => new ParameterError(`Parameter "${parameter.name}" must be ${parameter.list ? 'a list of ' : 'a '}${parameter.type}`);
+  switch (parameter.type) {
+    case 'string':
+      if (typeof value !== 'string') throw fail();
+      return value;
+    case 'number': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) throw fail();
+      return number;
+    }
+    case 'decimal':
+      if ((typeof value !== 'string' && typeof value !== 'number') || !Number.isFinite(Number(value))) throw fail();
+      return Decimal128.fromString(String(value));
+    case 'date': {
+      const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+      if (!date || isNaN(date.getTime())) throw fail();
+      return date;
+    }
+    case 'objectId':
+      if (typeof value !== 'string' || !ObjectId.isValid(value) || value.length !== 24) throw fail();
+      return new ObjectId(value);
+    case 'boolean':
+      if (value === true || value === 'true') return true;
+      if (value === false || value === 'false') return false;
+      throw fail();
+  }
+}
+
+export function coerceParameter(parameter: QueryParameter, value: any): any {
+  if (!parameter.list) return coerceValue(parameter, value);
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new ParameterError(`Parameter "${parameter.name}" must be a non-empty list of ${parameter.type}`);
+  }
+  return value.map(item => coerceValue(parameter, item));
+}
+
+// Deep copy that keeps ObjectIds, dates and decimals
+function cloneQuery(query: ParsedQuery): ParsedQuery {
+  return BSON.EJSON.deserialize(BSON.EJSON.serialize(query, { relaxed: false })) as ParsedQuery;
+}
+
+function setAtPath(target: any, path: (string | number)[], value: any) {
+  let node = target;
+  for (const segment of path.slice(0, -1)) {
+    node = node?.[segment];
+    if (!node || typeof node !== 'object') throw new ParameterError(`Parameter path ${path.join('.')} does not exist`);
+  }
+  node[path[path.length - 1]] = value;
+}
+
+/**
+ * Places parameter values into a copy of the parsed query. Values are set on
+ * the structure itself, never spliced into query text, so they can't change
+ * its shape.
+ */
+export function bindParameters(
+  query: ParsedQuery,
+  parameters: QueryParameter[],
+  values: { [name: string]: any } = {}
+): { query: ParsedQuery; bound: { [name: string]: any } } {
+  const known = new Set(parameters.map(parameter => parameter.name));
+  const unknown = Object.keys(values).filter(name => !known.has(name));
+  if (unknown.length) throw new ParameterError(`Unknown parameters: ${unknown.join(', ')}`);
+
+  const bound = cloneQuery(query);
+  const used: { [name: string]: any } = {};
+  for (const parameter of parameters) {
+    if (values[parameter.name] === undefined) {
+      used[parameter.name] = parameter.defaultValue;
+      continue;
+    }
+    const value = coerceParameter(parameter, values[parameter.name]);
+    setAtPath(bound, parameter.path, value);
+    used[parameter.name] = value;
+  }
+  return { query: bound, bound: used };
+}
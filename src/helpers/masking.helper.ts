@@ -0,0 +1,358 @@
+import crypto from 'crypto';
+import { Document } from 'mongodb';
+import { isOperatorObject, isPlainObject } from './query.helper';
+import { ParsedQuery } from '../types/query.types';
+import { LineageEntry, MaskStrategy, OutputLineage } from '../types/masking.types';
+
+export const REDACTED = '[REDACTED]';
+
+// Stages that filter or reorder documents without changing their fields
+const PASS_THROUGH_STAGES = new Set([
+  '$match', '$sort', '$skip', '$limit', '$sample', '$unwind', '$geoNear', '$search', '$vectorSearch', '$redact'
+]);
+// Accumulators that return one of their input values unchanged
+const COPYING_OPERATORS = new Set(['$first', '$last', '$max', '$min', '$push', '$addToSet', '$mergeObjects', '$ifNull']);
+
+// `let` variables of the enclosing $lookup stages, by name without the `$$`
+type Variables = Map<string, LineageEntry>;
+
+function join(prefix: string, path: string): string {
+  return prefix && path ? `${prefix}.${path}` : prefix || path;
+}
+
+function merge(entries: LineageEntry[], nested: boolean): LineageEntry {
+  return { sources: entries.flatMap(entry => entry.sources), nested: nested && entries.every(entry => entry.nested) };
+}
+
+function cloneLineage(lineage: OutputLineage): OutputLineage {
+  return { fields: { ...lineage.fields }, passthrough: [...lineage.passthrough], shared: [...lineage.shared] };
+}
+
+// The entry for `remainder` inside a value traced to `entry`
+function descend(entry: LineageEntry, remainder: string): LineageEntry {
+  return entry.nested && remainder
+    ? { sources: entry.sources.map(source => ({ ...source, path: join(source.path, remainder) })), nested: true }
+    : entry;
+}
+
+function removeField(lineage: OutputLineage, path: string) {
+  for (const key of Object.keys(lineage.fields)) {
+    if (key === path || key.startsWith(`${path}.`)) delete lineage.fields[key];
+  }
+}
+
+/**
+ * The stored fields an output path is read from: the longest renamed or
+ * computed field covering it, otherwise the same path of every collection
+ * still passed through, plus whatever all fields may derive from.
+ */
+export function resolveSources(lineage: OutputLineage, path: string): LineageEntry {
+  const entries: LineageEntry[] = [];
+  const segments = path ? path.split('.') : [];
+  let covered = false;
+  for (let length = segments.length; length > 0 && !covered; length--) {
+    const key = segments.slice(0, length).join('.');
+    const entry = lineage.fields[key];
+    if (!entry) continue;
+    covered = true;
+    entries.push(descend(entry, segments.slice(length).join('.')));
+  }
+  if (!covered) {
+    if (!path) {
+      // The whole document: every field it has
+      entries.push(...Object.values(lineage.fields));
+    }
+    entries.push({ sources: lineage.passthrough.map(collection => ({ collection, path })), nested: true });
+  }
+  for (const shared of lineage.shared) entries.push(descend(shared, path));
+  return merge(entries, true);
+}
+
+// What an aggregation expression reads. A bare field or variable reference
+// copies the value; anything else computes a new one from its inputs.
+function expressionSources(expression: any, lineage: OutputLineage, variables: Variables): LineageEntry {
+  if (typeof expression === 'string' && expression.startsWith('$$')) {
+    const [variable, ...rest] = expression.slice(2).split('.');
+    if (variable === 'ROOT' || variable === 'CURRENT') return resolveSources(lineage, rest.join('.'));
+    const bound = variables.get(variable);
+    if (bound) return descend(bound, rest.join('.'));
+    return { sources: [], nested: false };
+  }
+  if (typeof expression === 'string' && expression.startsWith('$')) {
+    return resolveSources(lineage, expression.slice(1));
+  }
+  if (Array.isArray(expression)) {
+    return merge(expression.map(item => expressionSources(item, lineage, variables)), false);
+  }
+  if (isPlainObject(expression)) {
+    if ('$literal' in expression) return { sources: [], nested: false };
+    const operator = Object.keys(expression)[0];
+    const copies = isOperatorObject(expression) && COPYING_OPERATORS.has(operator);
+    const args = Object.values(expression).flatMap(value => Array.isArray(value) && copies ? value : [value]);
+    return merge(args.map(arg => expressionSources(arg, lineage, variables)), copies);
+  }
+  return { sources: [], nested: false };
+}
+
+// Output fields of $addFields/$set and of computed $project fields; nested
+// objects of plain keys define sub-fields
+function assignFields(target: OutputLineage, spec: Document, from: OutputLineage, prefix: string, variables: Variables) {
+  for (const [key, value] of Object.entries(spec)) {
+    const path = join(prefix, key);
+    removeField(target, path);
+    if (isPlainObject(value) && !isOperatorObject(value)) {
+      assignFields(target, value, from, path, variables);
+    } else {
+      target.fields[path] = expressionSources(value, from, variables);
+    }
+  }
+}
+
+function isExclusion(value: any): boolean {
+  return value === 0 || value === false;
+}
+
+function isInclusion(value: any): boolean {
+  return value === 1 || value === true;
+}
+
+// A find projection operator that narrows an array field instead of computing
+// a new value: `{ $elemMatch: {...} }`, `{ $slice: 1 }` or `{ $slice: [5, 10] }`
+function isArrayProjection(value: any): boolean {
+  if (!isOperatorObject(value) || Object.keys(value).length !== 1) return false;
+  if ('$elemMatch' in value) return true;
+  const slice = value.$slice;
+  return typeof slice === 'number' || (Array.isArray(slice) && slice.every(item => typeof item === 'number'));
+}
+
+function applyProjection(lineage: OutputLineage, spec: Document, variables: Variables): OutputLineage {
+  const entries = Object.entries(spec);
+  // $slice alone keeps every other field, like an exclusion
+  const excludesOnly = entries.every(([key, value]) => isExclusion(value) || (key === '_id' && isInclusion(value))
+    || (isArrayProjection(value) && '$slice' in value));
+  if (excludesOnly) {
+    const projected = cloneLineage(lineage);
+    entries.filter(([, value]) => isExclusion(value)).forEach(([key]) => removeField(projected, key));
+    return projected;
+  }
+
+  const projected: OutputLineage = { fields: {}, passthrough: [], shared: [...lineage.shared] };
+  if (!('_id' in spec)) projected.fields._id = resolveSources(lineage, '_id');
+  const include = (value: Document, prefix: string) => {
+    for (const [key, inner] of Object.entries(value)) {
+      // `'phones.$': 1` returns the matched element of `phones`
+      const path = join(prefix, key.replace(/\.\$$/, ''));
+      if (isExclusion(inner)) continue;
+      if (isInclusion(inner) || isArrayProjection(inner)) projected.fields[path] = resolveSources(lineage, path);
+      else if (isPlainObject(inner) && !isOperatorObject(inner)) include(inner, path);
+      else projected.fields[path] = expressionSources(inner, lineage, variables);
+    }
+  };
+  include(spec, '');
+  return projected;
+}
+
+function applyGroup(lineage: OutputLineage, spec: Document, variables: Variables): OutputLineage {
+  const grouped: OutputLineage = { fields: {}, passthrough: [], shared: [...lineage.shared] };
+  const { _id: key, ...accumulators } = spec;
+  if (isPlainObject(key) && !isOperatorObject(key)) {
+    for (const [name, expression] of Object.entries(key)) grouped.fields[`_id.${name}`] = expressionSources(expression, lineage, variables);
+  } else {
+    grouped.fields._id = expressionSources(key, lineage, variables);
+  }
+  for (const [name, accumulator] of Object.entries(accumulators)) {
+    grouped.fields[name] = expressionSources(accumulator, lineage, variables);
+  }
+  return grouped;
+}
+
+// Documents joined from `collection` through `pipeline` and nested under `as`.
+// The pipeline sees `bindings` (the `let` of a $lookup) as variables read
+// from the outer document.
+function joinedLineage(
+  lineage: OutputLineage,
+  as: string,
+  collection: string,
+  variables: Variables,
+  pipeline?: Document[],
+  bindings?: Document
+) {
+  const inner = new Map(variables);
+  for (const [name, expression] of Object.entries(bindings || {})) {
+    inner.set(name, expressionSources(expression, lineage, variables));
+  }
+  const joined = pipelineLineage(pipeline || [], collection, inner);
+  removeField(lineage, as);
+  if (joined.passthrough.length) {
+    lineage.fields[as] = { sources: joined.passthrough.map(name => ({ collection: name, path: '' })), nested: true };
+  }
+  for (const [path, entry] of Object.entries(joined.fields)) lineage.fields[join(as, path)] = entry;
+  lineage.shared.push(...joined.shared);
+}
+
+function applyStage(lineage: OutputLineage, stage: Document, variables: Variables): OutputLineage {
+  const name = Object.keys(stage)[0];
+  const spec = stage[name];
+  if (PASS_THROUGH_STAGES.has(name)) return lineage;
+
+  switch (name) {
+    case '$project':
+      return applyProjection(lineage, spec, variables);
+    case '$addFields':
+    case '$set': {
+      const next = cloneLineage(lineage);
+      assignFields(next, spec, lineage, '', variables);
+      return next;
+    }
+    case '$unset': {
+      const next = cloneLineage(lineage);
+      (Array.isArray(spec) ? spec : [spec]).forEach((path: string) => removeField(next, path));
+      return next;
+    }
+    case '$group':
+      return applyGroup(lineage, spec, variables);
+    case '$bucket':
+    case '$bucketAuto':
+      return applyGroup(lineage, { _id: spec.groupBy, ...(spec.output || {}) }, variables);
+    case '$sortByCount':
+      return applyGroup(lineage, { _id: spec }, variables);
+    case '$count':
+      return { fields: {}, passthrough: [], shared: [...lineage.shared] };
+    case '$lookup': {
+      const next = cloneLineage(lineage);
+      if (typeof spec.from === 'string') joinedLineage(next, spec.as, spec.from, variables, spec.pipeline, spec.let);
+      else next.fields[spec.as] = { sources: [], nested: false };
+      return next;
+    }
+    case '$graphLookup': {
+      const next = cloneLineage(lineage);
+      joinedLineage(next, spec.as, spec.from, variables);
+      return next;
+    }
+    case '$unionWith': {
+      const union = typeof spec === 'string' ? { coll: spec } : spec;
+      if (union.coll === undefined) return lineage;
+      // Documents of either collection come out under the same paths
+      const other = pipelineLineage(union.pipeline || [], union.coll, variables);
+      const next = cloneLineage(lineage);
+      for (const [path, entry] of Object.entries(other.fields)) {
+        next.fields[path] = next.fields[path] ? merge([next.fields[path], entry], true) : entry;
+      }
+      next.passthrough.push(...other.passthrough);
+      next.shared.push(...other.shared);
+      return next;
+    }
+    case '$facet': {
+      const next: OutputLineage = { fields: {}, passthrough: [], shared: [...lineage.shared] };
+      for (const [facet, facetPipeline] of Object.entries(spec as Document)) {
+        const inner = stagesLineage(facetPipeline, cloneLineage(lineage), variables);
+        if (inner.passthrough.length) {
+          next.fields[facet] = { sources: inner.passthrough.map((collection: string) => ({ collection, path: '' })), nested: true };
+        }
+        for (const [path, entry] of Object.entries(inner.fields)) next.fields[join(facet, path)] = entry;
+        next.shared.push(...inner.shared.filter((entry: LineageEntry) => !lineage.shared.includes(entry)));
+      }
+      return next;
+    }
+    case '$replaceRoot':
+    case '$replaceWith': {
+      const root = name === '$replaceRoot' ? spec.newRoot : spec;
+      return { fields: {}, passthrough: [], shared: [...lineage.shared, expressionSources(root, lineage, variables)] };
+    }
+    default: {
+      // A stage this walk doesn't know: whatever it reads may end up anywhere
+      const next = cloneLineage(lineage);
+      next.shared.push({ ...expressionSources(spec, lineage, variables), nested: false });
+      return next;
+    }
+  }
+}
+
+function stagesLineage(pipeline: Document[], lineage: OutputLineage, variables: Variables): OutputLineage {
+  return pipeline.reduce<OutputLineage>((current, stage) => applyStage(current, stage, variables), lineage);
+}
+
+function pipelineLineage(pipeline: Document[], collection: string, variables: Variables = new Map()): OutputLineage {
+  return stagesLineage(pipeline, { fields: {}, passthrough: [collection], shared: [] }, variables);
+}
+
+// Traces every field a query returns back to the collection fields it was read or computed from
+export function outputLineage(query: ParsedQuery): OutputLineage {
+  let lineage: OutputLineage = { fields: {}, passthrough: [query.collectionName], shared: [] };
+  switch (query.operation) {
+    case 'aggregate':
+      return pipelineLineage(query.pipeline, query.collectionName);
+    case 'find':
+    case 'findOne': {
+      const projections = [query.projection, query.options.projection,
+        ...query.modifiers.filter(modifier => modifier.name === 'project').map(modifier => modifier.value)];
+      for (const projection of projections) {
+        if (isPlainObject(projection) && Object.keys(projection).length) lineage = applyProjection(lineage, projection, new Map());
+      }
+      return lineage;
+    }
+    case 'distinct':
+      // Each value is the field itself; maskDocument is called with the field as prefix
+      return lineage;
+    default:
+      return { fields: {}, passthrough: [], shared: [] };
+  }
+}
+
+function leafText(value: any): string {
+  if (value instanceof Date) return value.toISOString();
+  if (value?._bsontype && typeof value.toString === 'function') return value.toString();
+  return String(value);
+}
+
+// Keeps the last four characters, or the first letter and domain of an email
+export function partialMask(text: string): string {
+  const email = /^([^@\s])[^@\s]*(@[^@\s]+)$/.exec(text);
+  if (email) return `${email[1]}***${email[2]}`;
+  if (text.length <= 4) return '*'.repeat(text.length);
+  return '*'.repeat(text.length - 4) + text.slice(-4);
+}
+
+// Same input, same output, so masked values can still be grouped and compared
+export function hashValue(text: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(text).digest('hex').slice(0, 16);
+}
+
+export function maskLeaf(value: any, strategy: MaskStrategy, secret: string): any {
+  if (value === null || value === undefined || strategy === 'none') return value;
+  if (strategy === 'redact' || typeof value === 'boolean') return REDACTED;
+  const text = leafText(value);
+  return strategy === 'hash' ? hashValue(text, secret) : partialMask(text);
+}
+
+/**
+ * Masks every value of a result document whose path, or a parent of it, has
+ * a rule. Values inside an object or array take the strongest of their own
+ * rule and their parents'.
+ */
+export function maskDocument(
+  value: any,
+  strategyAt: (path: string) => MaskStrategy,
+  secret: string,
+  path = '',
+  inherited: MaskStrategy = 'none'
+): any {
+  if (Array.isArray(value)) {
+    return value.map(item => maskDocument(item, strategyAt, secret, path, inherited));
+  }
+  if (isPlainObject(value)) {
+    const masked: Document = {};
+    for (const [key, inner] of Object.entries(value)) {
+      const innerPath = join(path, key);
+      masked[key] = maskDocument(inner, strategyAt, secret, innerPath, strongest(inherited, strategyAt(innerPath)));
+    }
+    return masked;
+  }
+  return maskLeaf(value, inherited, secret);
+}
+
+const STRENGTH: { [strategy in MaskStrategy]: number } = { none: 0, partial: 1, hash: 2, redact: 3 };
+
+export function strongest(a: MaskStrategy, b: MaskStrategy): MaskStrategy {
+  return STRENGTH[b] > STRENGTH[a] ? b : a;
+}
@@ -1,25 +1,307 @@
-import { MongoClient } from 'mongodb';
+import { AbstractCursor, Collection, Document, FindCursor } from 'mongodb';
+import mongoService from '../services/mongo.service';
+import { AuthenticatedUser } from '../types/auth.types';
+import { Connection } from '../types/connection.types';
+import {
+  CursorModifier,
+  CursorModifierName,
+  FindQuery,
+  ParsedQuery,
+  QueryExecution,
+  ResultWindow
+} from '../types/query.types';
 
-export async function executeMongoQuery(collectionName: string, operation: string, params: any): Promise<any[]> {
-  const client = new MongoClient(process.env.MONGODB_URI || '');
-  try {
-    await client.connect();
-    const collection = client.db().collection(collectionName);
-
-    let results: any[] = [];
-    if (operation === 'aggregate') {
-      results = await collection.aggregate(params).toArray();
-    } else if (operation === 'find') {
-      results = await collection.find(params).toArray();
-    } else if (operation === 'findOne') {
-      const result = await collection.findOne(params);
-      results = result ? [result] : [];
-    } else {
-      throw new Error('Unsupported query operation');
+export class QueryCancelledError extends Error {
+  constructor() {
+    super('Query cancelled because the client disconnected');
+    this.name = 'QueryCancelledError';
+  }
+}
+
+const FIND_OPTIONS = ['sort', 'limit', 'skip', 'hint', 'collation', 'comment', 'batchSize', 'projection'];
+const FIND_ONE_OPTIONS = ['sort', 'skip', 'hint', 'collation', 'comment', 'projection'];
+const COUNT_OPTIONS = ['limit', 'skip', 'hint', 'collation', 'comment'];
+const DISTINCT_OPTIONS = ['collation', 'comment'];
+
+// Keeps the options the driver call understands; the model sometimes adds others.
+function pickOptions(options: Document, allowed: string[]): Document {
+  const picked: Document = {};
+  for (const key of allowed) {
+    if (options[key] !== undefined) picked[key] = options[key];
+  }
+  return picked;
+}
+
+// A query may ask for less time than MONGO_MAX_TIME_MS, never more.
+function boundedMaxTime(requested: any): number {
+  const limit = mongoService.maxTimeMS;
+  return typeof requested === 'number' && requested > 0 ? Math.min(requested, limit) : limit;
+}
+
+function applyModifiers(cursor: FindCursor, modifiers: CursorModifier[]): FindCursor {
+  for (const { name, value } of modifiers) {
+    switch (name) {
+      case 'sort': cursor = cursor.sort(value); break;
+      case 'limit': cursor = cursor.limit(value); break;
+      case 'skip': cursor = cursor.skip(value); break;
+      case 'project': cursor = cursor.project(value); break;
+      case 'hint': cursor = cursor.hint(value); break;
+      case 'collation': cursor = cursor.collation(value); break;
+      case 'maxTimeMS': cursor = cursor.maxTimeMS(boundedMaxTime(value)); break;
+      case 'comment': cursor = cursor.comment(value); break;
+      case 'batchSize': cursor = cursor.batchSize(value); break;
     }
+  }
+  return cursor;
+}
+
+// Commands without a cursor can't be stopped from here; maxTimeMS bounds them
+// on the server while the caller moves on.
+function withSignal<T>(operation: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return operation;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new QueryCancelledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    operation.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+function isSortDocument(sort: any): sort is Document {
+  return !!sort && typeof sort === 'object' && !Array.isArray(sort);
+}
 
-    return results;
+// Pages must come back in the same order on every run, so ties are broken on _id.
+function stableSort(sort: any): Document | undefined {
+  if (sort === undefined) return { _id: 1 };
+  if (!isSortDocument(sort)) return undefined;
+  return '_id' in sort ? sort : { ...sort, _id: 1 };
+}
+
+// The value a chained modifier (`.sort()`, `.limit()`, ...) or the options argument gives `name`
+export function lastModifier(query: FindQuery, name: CursorModifierName): any {
+  const modifier = [...query.modifiers].reverse().find(m => m.name === name);
+  return modifier ? modifier.value : query.options[name];
+}
+
+// Applies the page window on top of the query's own skip and limit. Asks for
+// one extra document so the reader can tell whether another page exists.
+function applyWindow(cursor: FindCursor, query: FindQuery, window: ResultWindow): FindCursor | null {
+  const skip = Number(lastModifier(query, 'skip')) || 0;
+  const limit = Number(lastModifier(query, 'limit')) || 0;
+  const remaining = limit > 0 ? limit - window.offset : Infinity;
+  if (remaining <= 0) return null;
+
+  const sort = stableSort(lastModifier(query, 'sort'));
+  if (sort) cursor = cursor.sort(sort);
+  return cursor.skip(skip + window.offset).limit(Math.min(remaining, window.limit + 1));
+}
+
+function openCursor(collection: Collection, query: ParsedQuery, window: ResultWindow): AbstractCursor | null {
+  if (query.operation === 'aggregate') {
+    return collection.aggregate([
+      ...query.pipeline,
+      ...(window.offset > 0 ? [{ $skip: window.offset }] : []),
+      { $limit: window.limit + 1 }
+    ], {
+      ...pickOptions(query.options, ['allowDiskUse', 'collation', 'comment', 'hint', 'let']),
+      maxTimeMS: boundedMaxTime(query.options.maxTimeMS)
+    });
+  }
+  if (query.operation === 'find') {
+    const cursor = collection.find(query.filter, {
+      ...pickOptions(query.options, FIND_OPTIONS),
+      ...(query.projection && { projection: query.projection }),
+      maxTimeMS: boundedMaxTime(query.options.maxTimeMS)
+    });
+    return applyWindow(applyModifiers(cursor, query.modifiers), query, window);
+  }
+  if (query.operation === 'findOne') {
+    return collection.find(query.filter, {
+      ...pickOptions(query.options, FIND_ONE_OPTIONS),
+      ...(query.projection && { projection: query.projection }),
+      maxTimeMS: boundedMaxTime(query.options.maxTimeMS),
+      limit: 1
+    });
+  }
+  throw new Error(`${query.operation === 'unsupported' ? query.method : query.operation}() does not return a cursor`);
+}
+
+// Reads at most `limit` documents, handing each to `onDocument` when given
+// instead of collecting it. Stops early and closes the cursor when `signal` aborts.
+async function readCursor(
+  cursor: AbstractCursor | null,
+  limit: number,
+  signal?: AbortSignal,
+  onDocument?: (document: any) => Promise<void> | void
+): Promise<QueryExecution> {
+  const documents: any[] = [];
+  if (!cursor) return { resultType: 'documents', documents, truncated: false };
+
+  const onAbort = () => { cursor.close().catch(() => undefined); };
+  signal?.addEventListener('abort', onAbort);
+  try {
+    let count = 0;
+    while (true) {
+      if (signal?.aborted) throw new QueryCancelledError();
+      const document = await cursor.next();
+      if (signal?.aborted) throw new QueryCancelledError();
+      if (document === null) return { resultType: 'documents', documents, truncated: false };
+      if (count === limit) return { resultType: 'documents', documents, truncated: true };
+      count++;
+      if (onDocument) {
+        await onDocument(document);
+      } else {
+        documents.push(document);
+      }
+    }
   } finally {
-    await client.close();
+    signal?.removeEventListener('abort', onAbort);
+    await cursor.close().catch(() => undefined);
+  }
+}
+
+interface ExecuteOptions {
+  signal?: AbortSignal;
+  // Defaults to the first QUERY_MAX_RESULTS documents
+  window?: ResultWindow;
+  // Who the query runs for; see withUserComment
+  user?: AuthenticatedUser;
+}
+
+// Labels the operation with the user it runs for, so it can be traced in
+// currentOp, the profiler and slow query logs. A comment the query sets
+// itself is kept.
+function withUserComment(query: ParsedQuery, user?: AuthenticatedUser): ParsedQuery {
+  if (!user || query.operation === 'unsupported' || query.options.comment !== undefined) return query;
+  return { ...query, options: { ...query.options, comment: `user:${user.id}` } };
+}
+
+// `truncated` means more documents exist past the window.
+export async function executeMongoQuery(
+  query: ParsedQuery,
+  connection: Connection,
+  options: ExecuteOptions = {}
+): Promise<QueryExecution> {
+  if (options.signal?.aborted) throw new QueryCancelledError();
+
+  const db = await mongoService.getDb(connection);
+  const collection = db.collection(query.collectionName);
+  const window = options.window || { offset: 0, limit: mongoService.maxResults };
+  const { signal } = options;
+  query = withUserComment(query, options.user);
+
+  switch (query.operation) {
+    case 'aggregate':
+    case 'find':
+      return readCursor(openCursor(collection, query, window), window.limit, signal);
+    case 'findOne':
+      return readCursor(openCursor(collection, query, window), 1, signal);
+    case 'countDocuments': {
+      const count = await withSignal(collection.countDocuments(query.filter, {
+        ...pickOptions(query.options, COUNT_OPTIONS),
+        maxTimeMS: boundedMaxTime(query.options.maxTimeMS)
+      }), signal);
+      return { resultType: 'count', documents: [{ count }], truncated: false };
+    }
+    case 'estimatedDocumentCount': {
+      const count = await withSignal(collection.estimatedDocumentCount({
+        ...pickOptions(query.options, ['comment']),
+        maxTimeMS: boundedMaxTime(query.options.maxTimeMS)
+      }), signal);
+      return { resultType: 'count', documents: [{ count }], truncated: false };
+    }
+    case 'distinct': {
+      const values = await withSignal(collection.distinct(query.field, query.filter, {
+        ...pickOptions(query.options, DISTINCT_OPTIONS),
+        maxTimeMS: boundedMaxTime(query.options.maxTimeMS)
+      }), signal);
+      const end = window.offset + window.limit;
+      return { resultType: 'values', documents: values.slice(window.offset, end), truncated: values.length > end };
+    }
+    default:
+      throw new Error(`Unsupported query operation: ${query.method}`);
+  }
+}
+
+// Hands documents to `onDocument` as they come off the cursor instead of
+// buffering them. Counts and distinct values arrive as one batch.
+export async function streamMongoQuery(
+  query: ParsedQuery,
+  connection: Connection,
+  window: ResultWindow,
+  onDocument: (document: any) => Promise<void> | void,
+  options: { signal?: AbortSignal; user?: AuthenticatedUser } = {}
+): Promise<QueryExecution> {
+  if (options.signal?.aborted) throw new QueryCancelledError();
+
+  if (query.operation === 'find' || query.operation === 'aggregate') {
+    const db = await mongoService.getDb(connection);
+    const cursor = openCursor(db.collection(query.collectionName), withUserComment(query, options.user), window);
+    return readCursor(cursor, window.limit, options.signal, onDocument);
+  }
+
+  const execution = await executeMongoQuery(query, connection, { ...options, window });
+  for (const document of execution.documents) await onDocument(document);
+  return { ...execution, documents: [] };
+}
+
+// Runs explain("executionStats") for the query as the model wrote it, without
+// the page window. Returns null for operations that never touch an index.
+export async function explainMongoQuery(
+  query: ParsedQuery,
+  connection: Connection,
+  options: { signal?: AbortSignal } = {}
+): Promise<Document | null> {
+  if (options.signal?.aborted) throw new QueryCancelledError();
+
+  const db = await mongoService.getDb(connection);
+  const collection = db.collection(query.collectionName);
+
+  switch (query.operation) {
+    case 'find': {
+      const cursor = collection.find(query.filter, {
+        ...pickOptions(query.options, FIND_OPTIONS),
+        ...(query.projection && { projection: query.projection }),
+        maxTimeMS: boundedMaxTime(query.options.maxTimeMS)
+      });
+      return withSignal(applyModifiers(cursor, query.modifiers).explain('executionStats'), options.signal);
+    }
+    case 'findOne':
+      return withSignal(collection.find(query.filter, {
+        ...pickOptions(query.options, FIND_ONE_OPTIONS),
+        ...(query.projection && { projection: query.projection }),
+        maxTimeMS: boundedMaxTime(query.options.maxTimeMS),
+        limit: 1
+      }).explain('executionStats'), options.signal);
+    case 'aggregate':
+      return withSignal(collection.aggregate(query.pipeline, {
+        ...pickOptions(query.options, ['allowDiskUse', 'collation', 'comment', 'hint', 'let']),
+        maxTimeMS: boundedMaxTime(query.options.maxTimeMS)
+      }).explain('executionStats'), options.signal);
+    case 'countDocuments': {
+      // The pipeline countDocuments() runs on the server
+      const { skip, limit } = query.options;
+      return withSignal(collection.aggregate([
+        { $match: query.filter },
+        ...(typeof skip === 'number' && skip > 0 ? [{ $skip: skip }] : []),
+        ...(typeof limit === 'number' && limit > 0 ? [{ $limit: limit }] : []),
+        { $group: { _id: 1, n: { $sum: 1 } } }
+      ], { ...pickOptions(query.options, ['collation', 'comment', 'hint']), maxTimeMS: boundedMaxTime(query.options.maxTimeMS) }).explain('executionStats'), options.signal);
+    }
+    case 'distinct':
+      return withSignal(db.command({
+        explain: {
+          distinct: query.collectionName,
+          key: query.field,
+          query: query.filter,
+          ...pickOptions(query.options, DISTINCT_OPTIONS)
+        },
+        verbosity: 'executionStats',
+        maxTimeMS: boundedMaxTime(query.options.maxTimeMS)
+      }), options.signal);
+    case 'estimatedDocumentCount':
+      return null;
+    default:
+      throw new Error(`Unsupported query operation: ${query.method}`);
   }
-} 
\ No newline at end of file
+}
@@ -1,31 +1,758 @@
-interface ParsedQuery {
-  collectionName: string;
-  operation: string;
-  params: any;
+import {
+  Binary,
+  Decimal128,
+  Document,
+  Double,
+  Int32,
+  Long,
+  MaxKey,
+  MinKey,
+  ObjectId,
+  Timestamp,
+  UUID
+} from 'mongodb';
+import { CountQuery, CursorModifier, CursorModifierName, FindQuery, ParsedQuery } from '../types/query.types';
+
+export class QueryParseError extends Error {
+  position: number;
+  line: number;
+  column: number;
+  snippet: string;
+
+  constructor(message: string, source: string, position: number) {
+    const before = source.slice(0, position);
+    const line = before.split('\n').length;
+    const lineStart = before.lastIndexOf('\n') + 1;
+    const column = position - lineStart + 1;
+    const lineEnd = source.indexOf('\n', position);
+    const lineText = source.slice(lineStart, lineEnd === -1 ? undefined : lineEnd);
+
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = 'QueryParseError';
+    this.position = position;
+    this.line = line;
+    this.column = column;
+    this.snippet = `${lineText}\n${' '.repeat(column - 1)}^`;
+  }
 }
 
-export function parseMongoQuery(queryStr: string): ParsedQuery {
-  const collectionMatch = queryStr.match(/db\.(['"]?)([^.'"\s]+)\1\.(aggregate|find|findOne|update|delete)/);
-  if (!collectionMatch) {
-    throw new Error('Invalid query format');
+const CURSOR_MODIFIERS: { [name: string]: CursorModifierName } = {
+  sort: 'sort',
+  limit: 'limit',
+  skip: 'skip',
+  project: 'project',
+  projection: 'project',
+  hint: 'hint',
+  collation: 'collation',
+  maxTimeMS: 'maxTimeMS',
+  comment: 'comment',
+  batchSize: 'batchSize'
+};
+
+// Calls that only change how mongosh prints a cursor.
+const NO_OP_MODIFIERS = new Set(['toArray', 'pretty']);
+
+// Modifiers that still apply when `find().count()` becomes a countDocuments call;
+// skip and limit only count with `count(true)`, as in mongosh.
+const COUNT_OPTIONS: CursorModifierName[] = ['hint', 'collation', 'maxTimeMS', 'comment'];
+
+const IDENTIFIER_START = /[A-Za-z_$]/;
+const IDENTIFIER_PART = /[A-Za-z0-9_$]/;
+const COLLECTION_NAME_PART = /[A-Za-z0-9_$-]/;
+
+/**
+ * Recursive-descent parser for the subset of mongosh syntax the query
+ * generator emits. Values are built directly from the source text; nothing is
+ * ever handed to the JavaScript engine.
+ */
+class ShellQueryParser {
+  private pos = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): ParsedQuery {
+    this.skipTrivia();
+    this.expectWord('db');
+    const { collectionName, method, methodPos } = this.parseTarget();
+    const args = this.parseArguments();
+    const modifiers: CursorModifier[] = [];
+    let cursorCount: { applySkipLimit: boolean } | null = null;
+
+    this.skipTrivia();
+    while (this.peek() === '.') {
+      this.pos++;
+      this.skipTrivia();
+      const namePos = this.pos;
+      const name = this.parseIdentifier();
+      const modifierArgs = this.parseArguments();
+
+      if (cursorCount) {
+        throw this.error(`Unexpected '${name}()' after count()`, namePos);
+      }
+      if (NO_OP_MODIFIERS.has(name)) {
+        this.skipTrivia();
+        continue;
+      }
+      if (name === 'count' && method === 'find') {
+        if (modifierArgs.length > 1) throw this.error('count() takes at most 1 argument', namePos);
+        cursorCount = { applySkipLimit: modifierArgs[0] === true };
+        this.skipTrivia();
+        continue;
+      }
+      const modifier = CURSOR_MODIFIERS[name];
+      if (!modifier || method !== 'find') {
+        throw this.error(`Unsupported cursor method '${name}' after ${method}()`, namePos);
+      }
+      if (modifierArgs.length !== 1) {
+        throw this.error(`${name}() expects exactly one argument`, namePos);
+      }
+      modifiers.push({ name: modifier, value: modifierArgs[0] });
+      this.skipTrivia();
+    }
+
+    if (this.peek() === ';') {
+      this.pos++;
+      this.skipTrivia();
+    }
+    if (this.pos < this.source.length) {
+      throw this.error(`Unexpected '${this.peek()}' after end of query`);
+    }
+
+    const query = this.buildQuery(collectionName, method, methodPos, args, modifiers);
+    return cursorCount ? this.toCountQuery(query as FindQuery, cursorCount.applySkipLimit) : query;
+  }
+
+  private toCountQuery(query: FindQuery, applySkipLimit: boolean): CountQuery {
+    const kept: string[] = applySkipLimit ? [...COUNT_OPTIONS, 'skip', 'limit'] : COUNT_OPTIONS;
+    const options: Document = {};
+    for (const key of kept) {
+      if (query.options[key] !== undefined) options[key] = query.options[key];
+    }
+    for (const { name, value } of query.modifiers) {
+      if (kept.includes(name)) options[name] = value;
+    }
+    return {
+      collectionName: query.collectionName,
+      operation: 'countDocuments',
+      filter: query.filter,
+      options,
+      modifiers: []
+    };
+  }
+
+  private buildQuery(
+    collectionName: string,
+    method: string,
+    methodPos: number,
+    args: any[],
+    modifiers: CursorModifier[]
+  ): ParsedQuery {
+    switch (method) {
+      case 'find':
+      case 'findOne': {
+        if (args.length > 3) {
+          throw this.error(`${method}() takes at most 3 arguments`, methodPos);
+        }
+        const [filter = {}, projection, options = {}] = args;
+        this.assertDocument(filter, `${method}() filter`, methodPos);
+        if (projection !== undefined) this.assertDocument(projection, `${method}() projection`, methodPos);
+        this.assertDocument(options, `${method}() options`, methodPos);
+        return { collectionName, operation: method, filter, projection, options, modifiers };
+      }
+      case 'aggregate': {
+        if (args.length > 2) {
+          throw this.error('aggregate() takes at most 2 arguments', methodPos);
+        }
+        const [pipeline = [], options = {}] = args;
+        if (!Array.isArray(pipeline)) {
+          throw this.error('aggregate() expects a pipeline array', methodPos);
+        }
+        pipeline.forEach((stage, index) => this.assertDocument(stage, `Pipeline stage ${index}`, methodPos));
+        this.assertDocument(options, 'aggregate() options', methodPos);
+        return { collectionName, operation: 'aggregate', pipeline, options, modifiers };
+      }
+      case 'count':
+      case 'countDocuments': {
+        if (args.length > 2) {
+          throw this.error(`${method}() takes at most 2 arguments`, methodPos);
+        }
+        const [filter = {}, options = {}] = args;
+        this.assertDocument(filter, `${method}() filter`, methodPos);
+        this.assertDocument(options, `${method}() options`, methodPos);
+        return { collectionName, operation: 'countDocuments', filter, options, modifiers };
+      }
+      case 'estimatedDocumentCount': {
+        if (args.length > 1) {
+          throw this.error('estimatedDocumentCount() takes at most 1 argument', methodPos);
+        }
+        const [options = {}] = args;
+        this.assertDocument(options, 'estimatedDocumentCount() options', methodPos);
+        return { collectionName, operation: 'estimatedDocumentCount', options, modifiers };
+      }
+      case 'distinct': {
+        if (args.length < 1 || args.length > 3) {
+          throw this.error('distinct() takes a field name, an optional filter and options', methodPos);
+        }
+        const [field, filter = {}, options = {}] = args;
+        if (typeof field !== 'string' || field === '') {
+          throw this.error('distinct() expects a field name string', methodPos);
+        }
+        this.assertDocument(filter, 'distinct() filter', methodPos);
+        this.assertDocument(options, 'distinct() options', methodPos);
+        return { collectionName, operation: 'distinct', field, filter, options, modifiers };
+      }
+      default:
+        return { collectionName, operation: 'unsupported', method, args, modifiers };
+    }
+  }
+
+  private assertDocument(value: any, what: string, position: number) {
+    if (!isPlainObject(value)) {
+      throw this.error(`${what} must be an object`, position);
+    }
+  }
+
+  // Reads `.coll.method`, `.getCollection("coll").method` or `["coll"].method`.
+  private parseTarget(): { collectionName: string; method: string; methodPos: number } {
+    this.skipTrivia();
+    let collectionName: string;
+
+    if (this.peek() === '[') {
+      this.pos++;
+      this.skipTrivia();
+      collectionName = this.parseString();
+      this.skipTrivia();
+      this.expect(']');
+    } else {
+      this.expect('.');
+      this.skipTrivia();
+      const segmentPos = this.pos;
+      const segment = this.readWhile(COLLECTION_NAME_PART);
+      if (!segment) throw this.error('Expected a collection name');
+
+      this.skipTrivia();
+      if (segment === 'getCollection' && this.peek() === '(') {
+        const args = this.parseArguments();
+        if (args.length !== 1 || typeof args[0] !== 'string') {
+          throw this.error('getCollection() expects a collection name string', segmentPos);
+        }
+        collectionName = args[0];
+      } else {
+        // mongosh treats `db.a.b.find()` as collection "a.b": keep consuming
+        // segments until one is followed by an argument list.
+        const segments = [segment];
+        while (this.peek() === '.') {
+          const save = this.pos;
+          this.pos++;
+          this.skipTrivia();
+          const nextPos = this.pos;
+          const next = this.readWhile(COLLECTION_NAME_PART);
+          if (!next) throw this.error('Expected a collection or method name');
+          this.skipTrivia();
+          if (this.peek() === '(') {
+            this.pos = save;
+            break;
+          }
+          if (nextPos !== save + 1) throw this.error('Unexpected whitespace in collection name', nextPos);
+          segments.push(next);
+        }
+        collectionName = segments.join('.');
+      }
+    }
+
+    if (!collectionName) throw this.error('Collection name must not be empty');
+
+    this.skipTrivia();
+    this.expect('.');
+    this.skipTrivia();
+    const methodPos = this.pos;
+    const method = this.parseIdentifier();
+    this.skipTrivia();
+    if (this.peek() !== '(') throw this.error(`Expected '(' after ${method}`);
+    return { collectionName, method, methodPos };
+  }
+
+  private parseArguments(): any[] {
+    this.skipTrivia();
+    this.expect('(');
+    const args: any[] = [];
+    this.skipTrivia();
+    while (this.peek() !== ')') {
+      args.push(this.parseValue());
+      this.skipTrivia();
+      if (this.peek() === ',') {
+        this.pos++;
+        this.skipTrivia();
+      } else if (this.peek() !== ')') {
+        throw this.error(`Expected ',' or ')' but found ${this.describeCurrent()}`);
+      }
+    }
+    this.pos++;
+    return args;
+  }
+
+  private parseValue(): any {
+    this.skipTrivia();
+    const ch = this.peek();
+
+    if (ch === '{') return this.parseObject();
+    if (ch === '[') return this.parseArray();
+    if (ch === '"' || ch === "'") return this.parseString();
+    if (ch === '/') return this.parseRegex();
+    if (ch === '-' || ch === '+' || ch === '(' || /[0-9.]/.test(ch)) return this.parseNumericExpression();
+    if (IDENTIFIER_START.test(ch)) {
+      const value = this.parseIdentifierValue();
+      return typeof value === 'number' ? this.continueArithmetic(value) : value;
+    }
+
+    throw this.error(`Unexpected ${this.describeCurrent()}`);
+  }
+
+  private parseObject(): Document {
+    this.expect('{');
+    const result: Document = {};
+    this.skipTrivia();
+    while (this.peek() !== '}') {
+      const keyPos = this.pos;
+      let key: string;
+      const ch = this.peek();
+      if (ch === '"' || ch === "'") {
+        key = this.parseString();
+      } else if (IDENTIFIER_START.test(ch) || /[0-9]/.test(ch)) {
+        key = this.readWhile(/[A-Za-z0-9_$.]/);
+      } else {
+        throw this.error(`Expected a property name but found ${this.describeCurrent()}`);
+      }
+      if (key === '__proto__') throw this.error("Property name '__proto__' is not allowed", keyPos);
+
+      this.skipTrivia();
+      this.expect(':');
+      result[key] = this.parseValue();
+      this.skipTrivia();
+      if (this.peek() === ',') {
+        this.pos++;
+        this.skipTrivia();
+      } else if (this.peek() !== '}') {
+        throw this.error(`Expected ',' or '}' but found ${this.describeCurrent()}`);
+      }
+    }
+    this.pos++;
+    return result;
+  }
+
+  private parseArray(): any[] {
+    this.expect('[');
+    const result: any[] = [];
+    this.skipTrivia();
+    while (this.peek() !== ']') {
+      result.push(this.parseValue());
+      this.skipTrivia();
+      if (this.peek() === ',') {
+        this.pos++;
+        this.skipTrivia();
+      } else if (this.peek() !== ']') {
+        throw this.error(`Expected ',' or ']' but found ${this.describeCurrent()}`);
+      }
+    }
+    this.pos++;
+    return result;
+  }
+
+  private parseString(): string {
+    const start = this.pos;
+    const quote = this.peek();
+    if (quote !== '"' && quote !== "'") throw this.error(`Expected a string but found ${this.describeCurrent()}`);
+    this.pos++;
+
+    let result = '';
+    while (this.pos < this.source.length) {
+      const ch = this.source[this.pos++];
+      if (ch === quote) return result;
+      if (ch === '\n') break;
+      if (ch !== '\\') {
+        result += ch;
+        continue;
+      }
+
+      const escaped = this.source[this.pos++];
+      switch (escaped) {
+        case 'n': result += '\n'; break;
+        case 't': result += '\t'; break;
+        case 'r': result += '\r'; break;
+        case 'b': result += '\b'; break;
+        case 'f': result += '\f'; break;
+        case 'v': result += '\v'; break;
+        case '0': result += '\0'; break;
+        case 'u': {
+          const hex = this.source.slice(this.pos, this.pos + 4);
+          if (!/^[0-9a-fA-F]{4}$/.test(hex)) throw this.error('Invalid unicode escape', this.pos - 2);
+          result += String.fromCharCode(parseInt(hex, 16));
+          this.pos += 4;
+          break;
+        }
+        case 'x': {
+          const hex = this.source.slice(this.pos, this.pos + 2);
+          if (!/^[0-9a-fA-F]{2}$/.test(hex)) throw this.error('Invalid hex escape', this.pos - 2);
+          result += String.fromCharCode(parseInt(hex, 16));
+          this.pos += 2;
+          break;
+        }
+        case undefined: break;
+        default: result += escaped;
+      }
+    }
+    throw this.error('Unterminated string literal', start);
+  }
+
+  private parseRegex(): RegExp {
+    const start = this.pos;
+    this.expect('/');
+    let pattern = '';
+    let inClass = false;
+    while (this.pos < this.source.length) {
+      const ch = this.source[this.pos++];
+      if (ch === '\n') break;
+      if (ch === '\\') {
+        pattern += ch + (this.source[this.pos++] ?? '');
+        continue;
+      }
+      if (ch === '[') inClass = true;
+      if (ch === ']') inClass = false;
+      if (ch === '/' && !inClass) {
+        const flags = this.readWhile(/[a-z]/);
+        try {
+          return new RegExp(pattern, flags);
+        } catch (error) {
+          throw this.error(`Invalid regular expression: ${(error as Error).message}`, start);
+        }
+      }
+      pattern += ch;
+    }
+    throw this.error('Unterminated regular expression literal', start);
+  }
+
+  // Numbers may be written as constant arithmetic, e.g. `30 * 24 * 60 * 60 * 1000`
+  // or `Date.now() - 86400000`. Only literals, Date.now() and getTime() are
+  // accepted as operands.
+  private parseNumericExpression(): number {
+    let value = this.parseTerm();
+    this.skipTrivia();
+    while (this.peek() === '+' || this.peek() === '-') {
+      const op = this.source[this.pos++];
+      const right = this.parseTerm();
+      value = op === '+' ? value + right : value - right;
+      this.skipTrivia();
+    }
+    return value;
+  }
+
+  private parseTerm(): number {
+    let value = this.parseFactor();
+    this.skipTrivia();
+    while (this.peek() === '*' || this.peek() === '/' || this.peek() === '%') {
+      const op = this.source[this.pos++];
+      const right = this.parseFactor();
+      value = op === '*' ? value * right : op === '/' ? value / right : value % right;
+      this.skipTrivia();
+    }
+    return value;
   }
 
-  const [, , collectionName, operation] = collectionMatch;
-  let params: any;
+  private parseFactor(): number {
+    this.skipTrivia();
+    const start = this.pos;
+    const ch = this.peek();
+
+    if (ch === '-' || ch === '+') {
+      this.pos++;
+      const value = this.parseFactor();
+      return ch === '-' ? -value : value;
+    }
+    if (ch === '(') {
+      this.pos++;
+      const value = this.parseNumericExpression();
+      this.skipTrivia();
+      this.expect(')');
+      return value;
+    }
+    if (/[0-9.]/.test(ch)) {
+      const text = this.readWhile(/[0-9a-fA-FxX._eE]/);
+      let literal = text.replace(/_/g, '');
+      // Exponent signs are not covered by readWhile above
+      if (/[eE]$/.test(literal) && (this.peek() === '-' || this.peek() === '+')) {
+        literal += this.source[this.pos++] + this.readWhile(/[0-9]/);
+      }
+      const value = /^0[xX]/.test(literal) ? parseInt(literal, 16) : Number(literal);
+      if (!/^(0[xX][0-9a-fA-F]+|(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?)$/.test(literal) || isNaN(value)) {
+        throw this.error(`Invalid number '${literal}'`, start);
+      }
+      return value;
+    }
+    if (IDENTIFIER_START.test(ch)) {
+      const value = this.parseIdentifierValue();
+      if (value instanceof Date) return value.getTime();
+      if (typeof value === 'number') return value;
+      if (value instanceof Long || value instanceof Int32 || value instanceof Double) return Number(value.valueOf());
+      throw this.error('Expected a numeric value', start);
+    }
+    throw this.error(`Expected a number but found ${this.describeCurrent()}`);
+  }
+
+  private parseIdentifierValue(): any {
+    const start = this.pos;
+    let name = this.parseIdentifier();
+
+    switch (name) {
+      case 'true': return true;
+      case 'false': return false;
+      case 'null': return null;
+      case 'undefined': return null;
+      case 'Infinity': return Infinity;
+      case 'NaN': return NaN;
+    }
+
+    let isNew = false;
+    if (name === 'new') {
+      isNew = true;
+      this.skipTrivia();
+      name = this.parseIdentifier();
+    }
+
+    this.skipTrivia();
+    if (name === 'Date' && !isNew && this.peek() === '.') {
+      this.pos++;
+      this.skipTrivia();
+      const member = this.parseIdentifier();
+      const args = this.parseArguments();
+      if (member !== 'now' || args.length) throw this.error(`Unsupported call Date.${member}()`, start);
+      return Date.now();
+    }
 
-  if (operation === 'aggregate') {
-    const pipelineMatch = queryStr.match(/aggregate\(([\s\S]*)\)/);
-    if (!pipelineMatch) {
-      throw new Error('Invalid aggregate query format');
+    if (this.peek() !== '(') {
+      // Bare MinKey/MaxKey are accepted by mongosh
+      if (name === 'MinKey') return new MinKey();
+      if (name === 'MaxKey') return new MaxKey();
+      throw this.error(`Unexpected identifier '${name}'`, start);
     }
-    params = eval(pipelineMatch[1]); // Pipeline array
-  } else if (operation === 'find' || operation === 'findOne') {
-    const queryMatch = queryStr.match(/find(?:One)?\((.*)\)/);
-    if (!queryMatch) {
-      throw new Error('Invalid find query format');
+
+    const argsPos = this.pos;
+    const args = this.parseArguments();
+    const value = this.callHelper(name, args, start, argsPos);
+
+    this.skipTrivia();
+    if (value instanceof Date && this.peek() === '.') {
+      const save = this.pos;
+      this.pos++;
+      this.skipTrivia();
+      const member = this.parseIdentifier();
+      if (member !== 'getTime' && member !== 'valueOf') {
+        this.pos = save;
+        throw this.error(`Unsupported call Date.${member}()`, save + 1);
+      }
+      const memberArgs = this.parseArguments();
+      if (memberArgs.length) throw this.error(`${member}() takes no arguments`, save + 1);
+      return value.getTime();
     }
-    params = queryMatch[1] ? JSON.parse(queryMatch[1]) : {};
+    return value;
   }
 
-  return { collectionName, operation, params };
-} 
\ No newline at end of file
+  // `Date.now() - 1000` keeps going as arithmetic when it appears as a value;
+  // `left` has already been read as a factor.
+  private continueArithmetic(left: number): number {
+    this.skipTrivia();
+    let result = left;
+    while (this.peek() === '*' || this.peek() === '/' || this.peek() === '%') {
+      const op = this.source[this.pos++];
+      const right = this.parseFactor();
+      result = op === '*' ? result * right : op === '/' ? result / right : result % right;
+      this.skipTrivia();
+    }
+    while (this.peek() === '+' || this.peek() === '-') {
+      const op = this.source[this.pos++];
+      const right = this.parseTerm();
+      result = op === '+' ? result + right : result - right;
+      this.skipTrivia();
+    }
+    return result;
+  }
+
+  private callHelper(name: string, args: any[], start: number, argsPos: number): any {
+    const argError = (message: string) => this.error(`${name}(): ${message}`, argsPos);
+
+    switch (name) {
+      case 'ObjectId':
+      case 'ObjectID': {
+        if (args.length === 0) return new ObjectId();
+        if (typeof args[0] !== 'string' || !/^[0-9a-fA-F]{24}$/.test(args[0])) {
+          throw argError('expects a 24 character hex string');
+        }
+        return new ObjectId(args[0]);
+      }
+      case 'ISODate':
+      case 'Date': {
+        let date: Date;
+        if (args.length === 0) {
+          date = new Date();
+        } else if (args.length === 1 && (typeof args[0] === 'string' || typeof args[0] === 'number')) {
+          date = new Date(args[0]);
+        } else if (args.length === 1 && args[0] instanceof Date) {
+          date = new Date(args[0].getTime());
+        } else if (name === 'Date' && args.length <= 7 && args.every(arg => typeof arg === 'number')) {
+          const [year, month, day = 1, hours = 0, minutes = 0, seconds = 0, ms = 0] = args;
+          date = new Date(year, month, day, hours, minutes, seconds, ms);
+        } else {
+          throw argError('expects a date string or timestamp');
+        }
+        if (isNaN(date.getTime())) throw argError(`invalid date ${JSON.stringify(args[0])}`);
+        return date;
+      }
+      case 'NumberInt':
+      case 'Int32': {
+        const value = Number(args[0] ?? 0);
+        if (!Number.isInteger(value)) throw argError('expects an integer');
+        return new Int32(value);
+      }
+      case 'NumberLong':
+      case 'Long': {
+        const raw = args[0] ?? 0;
+        if (typeof raw === 'string' && !/^-?\d+$/.test(raw)) throw argError('expects an integer');
+        if (typeof raw === 'number' && !Number.isInteger(raw)) throw argError('expects an integer');
+        return typeof raw === 'string' ? Long.fromString(raw) : Long.fromNumber(raw);
+      }
+      case 'NumberDecimal':
+      case 'Decimal128': {
+        const raw = args[0] ?? '0';
+        try {
+          return Decimal128.fromString(String(raw));
+        } catch (error) {
+          throw argError('expects a decimal string');
+        }
+      }
+      case 'Double':
+        if (typeof args[0] !== 'number') throw argError('expects a number');
+        return new Double(args[0]);
+      case 'UUID': {
+        if (args.length === 0) return new UUID();
+        try {
+          return new UUID(String(args[0]));
+        } catch (error) {
+          throw argError('expects a UUID string');
+        }
+      }
+      case 'BinData': {
+        if (typeof args[0] !== 'number' || typeof args[1] !== 'string') {
+          throw argError('expects a subtype number and a base64 string');
+        }
+        return new Binary(Buffer.from(args[1], 'base64'), args[0]);
+      }
+      case 'Timestamp': {
+        if (args.length === 0) return new Timestamp({ t: 0, i: 0 });
+        if (typeof args[0] !== 'number' || typeof args[1] !== 'number') {
+          throw argError('expects seconds and an increment');
+        }
+        return new Timestamp({ t: args[0], i: args[1] });
+      }
+      case 'RegExp': {
+        if (typeof args[0] !== 'string' || (args[1] !== undefined && typeof args[1] !== 'string')) {
+          throw argError('expects a pattern string and optional flags');
+        }
+        try {
+          return new RegExp(args[0], args[1]);
+        } catch (error) {
+          throw argError((error as Error).message);
+        }
+      }
+      case 'MinKey':
+        return new MinKey();
+      case 'MaxKey':
+        return new MaxKey();
+      default:
+        throw this.error(`Unknown function '${name}'`, start);
+    }
+  }
+
+  private parseIdentifier(): string {
+    if (!IDENTIFIER_START.test(this.peek())) {
+      throw this.error(`Expected an identifier but found ${this.describeCurrent()}`);
+    }
+    return this.readWhile(IDENTIFIER_PART);
+  }
+
+  private expectWord(word: string) {
+    const start = this.pos;
+    const found = this.readWhile(IDENTIFIER_PART);
+    if (found !== word) {
+      this.pos = start;
+      throw this.error(`Expected '${word}' but found ${found ? `'${found}'` : this.describeCurrent()}`);
+    }
+  }
+
+  private expect(ch: string) {
+    if (this.peek() !== ch) {
+      throw this.error(`Expected '${ch}' but found ${this.describeCurrent()}`);
+    }
+    this.pos++;
+  }
+
+  private readWhile(pattern: RegExp): string {
+    const start = this.pos;
+    while (this.pos < this.source.length && pattern.test(this.source[this.pos])) {
+      this.pos++;
+    }
+    return this.source.slice(start, this.pos);
+  }
+
+  private skipTrivia() {
+    while (this.pos < this.source.length) {
+      const ch = this.source[this.pos];
+      if (/\s/.test(ch)) {
+        this.pos++;
+      } else if (this.source.startsWith('//', this.pos)) {
+        const end = this.source.indexOf('\n', this.pos);
+        this.pos = end === -1 ? this.source.length : end;
+      } else if (this.source.startsWith('/*', this.pos)) {
+        const end = this.source.indexOf('*/', this.pos + 2);
+        if (end === -1) throw this.error('Unterminated comment');
+        this.pos = end + 2;
+      } else {
+        break;
+      }
+    }
+  }
+
+  private peek(): string {
+    return this.source[this.pos] ?? '';
+  }
+
+  private describeCurrent(): string {
+    return this.pos >= this.source.length ? 'end of input' : `'${this.peek()}'`;
+  }
+
+  private error(message: string, position = this.pos): QueryParseError {
+    return new QueryParseError(message, this.source, position);
+  }
+}
+
+export function isPlainObject(value: any): value is Document {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+// `{ $gt: 5 }` rather than an embedded document or a stage spec with plain keys
+export function isOperatorObject(value: any): boolean {
+  if (!isPlainObject(value)) return false;
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every(key => key.startsWith('$'));
+}
+
+// Models often wrap the query in a markdown code block.
+function stripCodeFence(queryStr: string): string {
+  const fenced = queryStr.trim().match(/^```[a-zA-Z]*\s*\n([\s\S]*?)\n?```$/);
+  return fenced ? fenced[1] : queryStr;
+}
+
+export function parseMongoQuery(queryStr: string): ParsedQuery {
+  if (typeof queryStr !== 'string' || !queryStr.trim()) {
+    throw new QueryParseError('Query is empty', '', 0);
+  }
+  return new ShellQueryParser(stripCodeFence(queryStr)).parse();
+}
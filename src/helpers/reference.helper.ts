@@ -0,0 +1,450 @@
+import { isOperatorObject, isPlainObject } from './query.helper';
+import {
+  FieldReferenceSource,
+  FieldResolution,
+  ParsedQuery,
+  QueryReferences
+} from '../types/query.types';
+
+interface Scope {
+  collection: string;
+  aliases: Map<string, string>;
+  computed: Set<string>;
+  // Top-level fields kept by an inclusion $project, null when not narrowed
+  included: Set<string> | null;
+  reshaped: boolean;
+  unknown: boolean;
+}
+
+const LOGICAL_OPERATORS = new Set(['$and', '$or', '$nor']);
+
+// Operators that read only the size or type of their argument, never its contents
+const SHAPE_OPERATORS = new Set(['$size', '$isArray', '$type']);
+
+function createScope(collection: string): Scope {
+  return {
+    collection,
+    aliases: new Map(),
+    computed: new Set(),
+    included: null,
+    reshaped: false,
+    unknown: false
+  };
+}
+
+function cloneScope(scope: Scope): Scope {
+  return {
+    ...scope,
+    aliases: new Map(scope.aliases),
+    computed: new Set(scope.computed),
+    included: scope.included ? new Set(scope.included) : null
+  };
+}
+
+// Stages like $group replace the document with fields only they define.
+function reshape(scope: Scope, fields: string[]) {
+  scope.aliases.clear();
+  scope.computed = new Set(fields.map(topSegment));
+  scope.included = null;
+  scope.reshaped = true;
+}
+
+function topSegment(path: string): string {
+  return path.split('.')[0];
+}
+
+/**
+ * Walks a parsed query and lists every collection, field path and operator it
+ * touches, resolving `$lookup` aliases to the collection they were joined from.
+ */
+class ReferenceCollector {
+  private result: QueryReferences;
+
+  constructor(private readonly query: ParsedQuery) {
+    this.result = {
+      collections: [],
+      fields: [],
+      operators: [],
+      output: { collection: query.collectionName, aliases: {}, reshaped: false }
+    };
+  }
+
+  collect(): QueryReferences {
+    const query = this.query;
+    const scope = createScope(query.collectionName);
+    this.result.collections.push({ collection: query.collectionName, location: 'collection' });
+
+    if (query.operation === 'find' || query.operation === 'findOne') {
+      this.walkFilter(query.filter, scope, 'filter');
+      if (query.projection) this.walkFindProjection(query.projection, scope, 'projection');
+      if (query.options.projection) this.walkFindProjection(query.options.projection, scope, 'options.projection');
+      if (query.options.sort) this.walkSort(query.options.sort, scope, 'options.sort');
+    } else if (query.operation === 'aggregate') {
+      this.walkPipeline(query.pipeline, scope, 'pipeline');
+    } else if (query.operation === 'countDocuments') {
+      this.walkFilter(query.filter, scope, 'filter');
+      scope.reshaped = true;
+    } else if (query.operation === 'distinct') {
+      this.recordField(query.field, scope, 'field', 'distinct');
+      this.walkFilter(query.filter, scope, 'filter');
+      scope.reshaped = true;
+    } else if (query.operation === 'estimatedDocumentCount') {
+      scope.reshaped = true;
+    }
+
+    query.modifiers.forEach((modifier, index) => {
+      const location = `modifiers[${index}].${modifier.name}`;
+      if (modifier.name === 'sort') this.walkSort(modifier.value, scope, location);
+      if (modifier.name === 'project') this.walkFindProjection(modifier.value, scope, location);
+    });
+
+    this.result.output = {
+      collection: scope.collection,
+      aliases: Object.fromEntries(scope.aliases),
+      reshaped: scope.reshaped || scope.unknown
+    };
+    return this.result;
+  }
+
+  // `shapeOnly` references can't copy the value into the output
+  private recordField(path: string, scope: Scope, location: string, source: FieldReferenceSource, shapeOnly = false) {
+    let collection = scope.collection;
+    let resolvedPath = path;
+    let resolution: FieldResolution = 'collection';
+    const top = topSegment(path);
+
+    if (scope.unknown) {
+      resolution = 'unknown';
+    } else if (path === '') {
+      resolution = scope.reshaped ? 'computed' : 'collection';
+    } else if (scope.computed.has(top)) {
+      resolution = 'computed';
+    } else if (scope.aliases.has(top)) {
+      const rest = path.slice(top.length + 1);
+      if (rest || (source === 'expression' && !shapeOnly)) {
+        // An expression copying the whole alias copies every field of the joined documents
+        collection = scope.aliases.get(top)!;
+        resolvedPath = rest;
+      } else {
+        resolution = 'computed';
+      }
+    } else if (scope.reshaped) {
+      resolution = 'missing';
+    } else if (scope.included && !scope.included.has(top) && top !== '_id') {
+      resolution = 'missing';
+    }
+
+    this.result.fields.push({ collection, path: resolvedPath, location, source, resolution });
+    if (path === '' && resolution === 'collection' && !shapeOnly) {
+      // $$ROOT includes the documents joined so far
+      for (const joined of new Set(scope.aliases.values())) {
+        this.result.fields.push({ collection: joined, path: '', location, source, resolution });
+      }
+    }
+  }
+
+  private recordOperator(operator: string, location: string) {
+    this.result.operators.push({ operator, location });
+  }
+
+  private recordCollection(collection: any, location: string) {
+    if (typeof collection === 'string') {
+      this.result.collections.push({ collection, location });
+    }
+  }
+
+  private walkFilter(filter: any, scope: Scope, location: string, prefix = '') {
+    if (!isPlainObject(filter)) return;
+
+    for (const [key, value] of Object.entries(filter)) {
+      const keyLocation = `${location}.${key}`;
+      if (key.startsWith('$')) {
+        this.recordOperator(key, keyLocation);
+        if (LOGICAL_OPERATORS.has(key) && Array.isArray(value)) {
+          value.forEach((item, index) => this.walkFilter(item, scope, `${keyLocation}[${index}]`, prefix));
+        } else if (key === '$expr') {
+          this.walkExpression(value, scope, keyLocation);
+        }
+        continue;
+      }
+
+      const path = prefix ? `${prefix}.${key}` : key;
+      this.recordField(path, scope, keyLocation, 'filter');
+      this.walkFilterValue(value, path, scope, keyLocation);
+    }
+  }
+
+  private walkFilterValue(value: any, path: string, scope: Scope, location: string) {
+    if (!isOperatorObject(value)) return;
+
+    for (const [operator, argument] of Object.entries(value)) {
+      const operatorLocation = `${location}.${operator}`;
+      this.recordOperator(operator, operatorLocation);
+      if (operator === '$not') {
+        this.walkFilterValue(argument, path, scope, operatorLocation);
+      } else if (operator === '$elemMatch' && isPlainObject(argument)) {
+        if (isOperatorObject(argument)) {
+          this.walkFilterValue(argument, path, scope, operatorLocation);
+        } else {
+          this.walkFilter(argument, scope, operatorLocation, path);
+        }
+      }
+    }
+  }
+
+  private walkExpression(expression: any, scope: Scope, location: string, shapeOnly = false) {
+    if (typeof expression === 'string') {
+      if (expression.startsWith('$$')) {
+        const [variable, ...rest] = expression.slice(2).split('.');
+        if (variable === 'ROOT' || variable === 'CURRENT') {
+          this.recordField(rest.join('.'), scope, location, 'expression', shapeOnly);
+        }
+      } else if (expression.startsWith('$')) {
+        this.recordField(expression.slice(1), scope, location, 'expression', shapeOnly);
+      }
+      return;
+    }
+
+    if (Array.isArray(expression)) {
+      expression.forEach((item, index) => this.walkExpression(item, scope, `${location}[${index}]`, shapeOnly));
+      return;
+    }
+
+    if (!isPlainObject(expression)) return;
+
+    for (const [key, value] of Object.entries(expression)) {
+      const keyLocation = `${location}.${key}`;
+      if (key.startsWith('$')) {
+        this.recordOperator(key, keyLocation);
+        if (key === '$literal') continue;
+      }
+      this.walkExpression(value, scope, keyLocation, shapeOnly || SHAPE_OPERATORS.has(key));
+    }
+  }
+
+  private walkSort(sort: any, scope: Scope, location: string) {
+    if (!isPlainObject(sort)) return;
+    for (const [key, value] of Object.entries(sort)) {
+      this.recordField(key, scope, `${location}.${key}`, 'sort');
+      if (isOperatorObject(value)) this.walkExpression(value, scope, `${location}.${key}`);
+    }
+  }
+
+  private walkFindProjection(projection: any, scope: Scope, location: string) {
+    if (!isPlainObject(projection)) return;
+    for (const [key, value] of Object.entries(projection)) {
+      const keyLocation = `${location}.${key}`;
+      this.recordField(key, scope, keyLocation, 'projection');
+      if (isOperatorObject(value)) {
+        for (const operator of Object.keys(value)) {
+          this.recordOperator(operator, `${keyLocation}.${operator}`);
+        }
+        if ('$elemMatch' in value) this.walkFilter(value.$elemMatch, scope, `${keyLocation}.$elemMatch`, key);
+      } else if (typeof value !== 'number' && typeof value !== 'boolean') {
+        this.walkExpression(value, scope, keyLocation);
+      }
+    }
+  }
+
+  // $project: returns the fields the stage keeps or computes.
+  private walkProjectStage(spec: any, scope: Scope, location: string, prefix = '') {
+    const included: string[] = [];
+    const computed: string[] = [];
+    if (!isPlainObject(spec)) return { included, computed };
+
+    for (const [key, value] of Object.entries(spec)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+      const keyLocation = `${location}.${key}`;
+
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        this.recordField(path, scope, keyLocation, 'projection');
+        if (value) included.push(path);
+      } else if (isPlainObject(value) && !isOperatorObject(value)) {
+        const nested = this.walkProjectStage(value, scope, keyLocation, path);
+        included.push(...nested.included);
+        computed.push(...nested.computed);
+      } else {
+        this.walkExpression(value, scope, keyLocation);
+        computed.push(path);
+      }
+    }
+    return { included, computed };
+  }
+
+  private walkPipeline(pipeline: any[], scope: Scope, location: string) {
+    pipeline.forEach((stage, index) => {
+      if (!isPlainObject(stage)) return;
+      const stageLocation = `${location}[${index}]`;
+
+      for (const [name, spec] of Object.entries(stage)) {
+        const specLocation = `${stageLocation}.${name}`;
+        this.recordOperator(name, specLocation);
+        this.walkStage(name, spec, scope, specLocation);
+      }
+    });
+  }
+
+  private walkStage(name: string, spec: any, scope: Scope, location: string) {
+    switch (name) {
+      case '$match':
+        this.walkFilter(spec, scope, location);
+        break;
+
+      case '$project': {
+        const { included, computed } = this.walkProjectStage(spec, scope, location);
+        computed.forEach(path => scope.computed.add(topSegment(path)));
+        const inclusive = included.some(path => path !== '_id') || computed.length > 0;
+        if (inclusive) {
+          scope.included = new Set(included.map(topSegment));
+          for (const alias of Array.from(scope.aliases.keys())) {
+            if (!scope.included.has(alias)) scope.aliases.delete(alias);
+          }
+        }
+        break;
+      }
+
+      case '$addFields':
+      case '$set':
+        if (!isPlainObject(spec)) break;
+        for (const [key, value] of Object.entries(spec)) {
+          this.walkExpression(value, scope, `${location}.${key}`);
+          scope.computed.add(topSegment(key));
+          scope.included?.add(topSegment(key));
+        }
+        break;
+
+      case '$unset':
+        (Array.isArray(spec) ? spec : [spec]).forEach((path, index) => {
+          if (typeof path === 'string') this.recordField(path, scope, `${location}[${index}]`, 'stage');
+        });
+        break;
+
+      case '$sort':
+        this.walkSort(spec, scope, location);
+        break;
+
+      case '$group': {
+        if (!isPlainObject(spec)) break;
+        for (const [key, value] of Object.entries(spec)) {
+          this.walkExpression(value, scope, `${location}.${key}`);
+        }
+        reshape(scope, Object.keys(spec));
+        break;
+      }
+
+      case '$bucket':
+      case '$bucketAuto': {
+        if (!isPlainObject(spec)) break;
+        this.walkExpression(spec.groupBy, scope, `${location}.groupBy`);
+        const output = isPlainObject(spec.output) ? spec.output : {};
+        this.walkExpression(output, scope, `${location}.output`);
+        reshape(scope, ['_id', 'count', ...Object.keys(output)]);
+        break;
+      }
+
+      case '$sortByCount':
+        this.walkExpression(spec, scope, location);
+        reshape(scope, ['_id', 'count']);
+        break;
+
+      case '$count':
+        reshape(scope, typeof spec === 'string' ? [spec] : []);
+        break;
+
+      case '$unwind': {
+        // Unwinding an alias keeps the joined documents where they are
+        const path = typeof spec === 'string' ? spec : spec?.path;
+        if (typeof path === 'string' && path.startsWith('$') && !path.startsWith('$$')) {
+          this.recordField(path.slice(1), scope, typeof spec === 'string' ? location : `${location}.path`, 'stage');
+        }
+        if (typeof spec?.includeArrayIndex === 'string') scope.computed.add(topSegment(spec.includeArrayIndex));
+        break;
+      }
+
+      case '$lookup': {
+        if (!isPlainObject(spec)) break;
+        const foreignScope = createScope(typeof spec.from === 'string' ? spec.from : scope.collection);
+        this.recordCollection(spec.from, `${location}.from`);
+        if (typeof spec.localField === 'string') {
+          this.recordField(spec.localField, scope, `${location}.localField`, 'lookup');
+        }
+        if (typeof spec.foreignField === 'string') {
+          this.recordField(spec.foreignField, foreignScope, `${location}.foreignField`, 'lookup');
+        }
+        if (isPlainObject(spec.let)) this.walkExpression(spec.let, scope, `${location}.let`);
+        if (Array.isArray(spec.pipeline)) this.walkPipeline(spec.pipeline, foreignScope, `${location}.pipeline`);
+        if (typeof spec.as === 'string') this.addAlias(scope, spec.as, foreignScope.collection);
+        break;
+      }
+
+      case '$graphLookup': {
+        if (!isPlainObject(spec)) break;
+        const foreignScope = createScope(typeof spec.from === 'string' ? spec.from : scope.collection);
+        this.recordCollection(spec.from, `${location}.from`);
+        this.walkExpression(spec.startWith, scope, `${location}.startWith`);
+        for (const key of ['connectFromField', 'connectToField']) {
+          if (typeof spec[key] === 'string') this.recordField(spec[key], foreignScope, `${location}.${key}`, 'lookup');
+        }
+        this.walkFilter(spec.restrictSearchWithMatch, foreignScope, `${location}.restrictSearchWithMatch`);
+        if (typeof spec.as === 'string') this.addAlias(scope, spec.as, foreignScope.collection);
+        break;
+      }
+
+      case '$unionWith': {
+        const coll = typeof spec === 'string' ? spec : spec?.coll;
+        this.recordCollection(coll, typeof spec === 'string' ? location : `${location}.coll`);
+        if (Array.isArray(spec?.pipeline) && typeof coll === 'string') {
+          this.walkPipeline(spec.pipeline, createScope(coll), `${location}.pipeline`);
+        }
+        break;
+      }
+
+      case '$facet': {
+        if (!isPlainObject(spec)) break;
+        for (const [facet, pipeline] of Object.entries(spec)) {
+          if (Array.isArray(pipeline)) this.walkPipeline(pipeline, cloneScope(scope), `${location}.${facet}`);
+        }
+        reshape(scope, Object.keys(spec));
+        break;
+      }
+
+      case '$replaceRoot':
+      case '$replaceWith':
+        this.walkExpression(name === '$replaceRoot' ? spec?.newRoot : spec, scope, location);
+        scope.unknown = true;
+        break;
+
+      case '$geoNear':
+        if (!isPlainObject(spec)) break;
+        this.walkFilter(spec.query, scope, `${location}.query`);
+        if (typeof spec.distanceField === 'string') scope.computed.add(topSegment(spec.distanceField));
+        break;
+
+      case '$out':
+      case '$merge': {
+        const target = typeof spec === 'string' ? spec : (spec?.into ?? spec?.coll);
+        this.recordCollection(typeof target === 'string' ? target : target?.coll, location);
+        break;
+      }
+
+      case '$limit':
+      case '$skip':
+      case '$sample':
+        break;
+
+      default:
+        this.walkExpression(spec, scope, location);
+    }
+  }
+
+  private addAlias(scope: Scope, alias: string, collection: string) {
+    const top = topSegment(alias);
+    scope.aliases.set(top, collection);
+    scope.computed.delete(top);
+    scope.included?.add(top);
+  }
+}
+
+export function collectQueryReferences(query: ParsedQuery): QueryReferences {
+  return new ReferenceCollector(query).collect();
+}
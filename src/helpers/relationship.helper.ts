@@ -0,0 +1,150 @@
+import { CollectionSchema, FieldInfo } from '../types/schema.types';
+import { Relationship, RelationshipCardinality, RelationshipEndpoint, RelationshipEvidence } from '../types/relationship.types';
+
+export interface RelationshipCandidate {
+  from: RelationshipEndpoint;
+  to: RelationshipEndpoint;
+  isArray: boolean;
+  evidence: RelationshipEvidence[];
+  // Target `_id` holds ObjectIds, so hex strings in the source can be compared as ObjectIds
+  targetIdType: string;
+}
+
+interface KeyField {
+  path: string;
+  types: string[];
+  isArray: boolean;
+}
+
+const EVIDENCE_WEIGHTS = { naming: 0.3, type: 0.2, values: 0.5 };
+
+// Foreign keys discovered only through their type need most sampled values to resolve
+const MIN_TYPE_ONLY_OVERLAP = 0.5;
+
+// `user_id`, `userId`, `user-ids`, `goalIDs`; requires a separator or camel case
+// so names like `paid` don't count.
+const KEY_NAME = /^(.+?)(?:[_-]ids?|I[dD]s?)$/;
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[_\-\s]/g, '');
+}
+
+// Singular forms a collection name may take in a key: `goal-investors` -> `goalinvestor`.
+function collectionKeyNames(collectionName: string): Set<string> {
+  const name = normalizeName(collectionName);
+  const names = new Set([name]);
+  if (name.endsWith('ies')) names.add(`${name.slice(0, -3)}y`);
+  if (name.endsWith('es')) names.add(name.slice(0, -2));
+  if (name.endsWith('s')) names.add(name.slice(0, -1));
+  return names;
+}
+
+function valueTypes(info: FieldInfo): string[] {
+  let current: FieldInfo | undefined = info;
+  while (current?.type === 'array' && current.items) current = current.items;
+  if (!current) return [];
+  return current.types?.length ? current.types : [current.type];
+}
+
+function keyFields(fields: { [key: string]: FieldInfo }, prefix = '', inArray = false): KeyField[] {
+  const result: KeyField[] = [];
+  for (const [key, info] of Object.entries(fields || {})) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const isArray = inArray || info.type === 'array' || !!info.types?.includes('array');
+
+    let container: FieldInfo | undefined = info;
+    while (container && !container.properties && container.items) container = container.items;
+    if (container?.properties) {
+      result.push(...keyFields(container.properties, path, isArray));
+    } else {
+      result.push({ path, types: valueTypes(info), isArray });
+    }
+  }
+  return result;
+}
+
+function idType(schema: CollectionSchema): string {
+  return schema.fields._id?.type || 'objectId';
+}
+
+// Proposes foreign keys from field names and types. Type-only candidates
+// (an ObjectId field with an unrelated name) are only worth keeping once
+// their values are confirmed against the target collection.
+export function findRelationshipCandidates(schemas: CollectionSchema[]): RelationshipCandidate[] {
+  const candidates: RelationshipCandidate[] = [];
+
+  for (const source of schemas) {
+    for (const field of keyFields(source.fields)) {
+      if (field.path === '_id') continue;
+
+      const lastSegment = field.path.split('.').pop()!;
+      const match = KEY_NAME.exec(lastSegment);
+      const keyName = match ? normalizeName(match[1]) : null;
+
+      for (const target of schemas) {
+        // `offers.offerId` is usually an external identifier, not a pointer to itself
+        if (target === source) continue;
+
+        const targetIdType = idType(target);
+        const named = !!keyName && collectionKeyNames(target.collectionName).has(keyName);
+        const typed = field.types.includes(targetIdType);
+        if (!named && !(typed && targetIdType === 'objectId')) continue;
+
+        const evidence: RelationshipEvidence[] = [];
+        if (named) evidence.push('naming');
+        if (typed) evidence.push('type');
+        candidates.push({
+          from: { collection: source.collectionName, field: field.path },
+          to: { collection: target.collectionName, field: '_id' },
+          isArray: field.isArray,
+          evidence,
+          targetIdType
+        });
+      }
+    }
+  }
+
+  return candidates;
+}
+
+// A sample can't tell a many-to-one key from a unique one: on a large
+// collection its values rarely repeat either way. `unique` is true only when
+// the whole collection was checked, or a unique index guarantees it.
+export function inferCardinality(isArray: boolean, unique: boolean): RelationshipCardinality {
+  if (isArray) return 'many-to-many';
+  return unique ? 'one-to-one' : 'many-to-one';
+}
+
+// Scores a candidate once its values have been looked up. `overlap` is null
+// when nothing could be sampled; the candidate then rests on naming and type.
+export function scoreRelationship(
+  candidate: RelationshipCandidate,
+  values: any[],
+  overlap: number | null,
+  unique = false
+): Relationship | null {
+  const evidence = [...candidate.evidence];
+  let confidence = evidence.reduce((sum, kind) => sum + EVIDENCE_WEIGHTS[kind], 0);
+
+  if (overlap !== null) {
+    if (overlap === 0) return null;
+    if (!evidence.includes('naming') && overlap < MIN_TYPE_ONLY_OVERLAP) return null;
+    evidence.push('values');
+    confidence += EVIDENCE_WEIGHTS.values * overlap;
+  } else if (!evidence.includes('naming')) {
+    return null;
+  }
+
+  return {
+    from: candidate.from,
+    to: candidate.to,
+    cardinality: inferCardinality(candidate.isArray, unique),
+    confidence: Math.round(confidence * 100) / 100,
+    isArray: candidate.isArray,
+    evidence,
+    ...(overlap !== null && {
+      overlap: Math.round(overlap * 100) / 100,
+      sampledValues: values.length
+    })
+  };
+}
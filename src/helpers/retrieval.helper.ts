@@ -0,0 +1,212 @@
+import { DatabaseContext } from '../types/ai.types';
+import { VectorMatch, SchemaDocument, SchemaSlice } from '../types/retrieval.types';
+import { CollectionSchema, DatabaseSchema, FieldInfo } from '../types/schema.types';
+import { isPlainObject } from './query.helper';
+import { flattenFields, pickFields } from './schema.helper';
+
+// Rough count for budgeting prompts: about four characters per token
+export function estimateTokens(value: any): number {
+  const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  return Math.ceil((text?.length || 0) / 4);
+}
+
+function unique<T>(values: T[]): T[] {
+  return [...new Set(values)];
+}
+
+function byImportance(a: { info: FieldInfo }, b: { info: FieldInfo }): number {
+  return (b.info.importance ?? 0) - (a.info.importance ?? 0) || (b.info.presence ?? 0) - (a.info.presence ?? 0);
+}
+
+function describedCollection(context: DatabaseContext, name: string) {
+  return Array.isArray(context?.collections) ? context.collections.find(collection => collection.name === name) : undefined;
+}
+
+/**
+ * What gets embedded: one document per collection (its purpose and main
+ * fields) and one per field path (type, semantic meaning, context
+ * description and tags).
+ */
+export function schemaDocuments(schema: DatabaseSchema, context: DatabaseContext): SchemaDocument[] {
+  const documents: SchemaDocument[] = [];
+  for (const collection of schema.collections) {
+    const name = collection.collectionName;
+    const described = describedCollection(context, name);
+    const descriptions = new Map((described?.fields || []).map(field => [field.name, field.description]));
+    const fields = flattenFields(collection.fields);
+
+    documents.push({
+      kind: 'collection',
+      collection: name,
+      text: [
+        `Collection ${name}`,
+        described?.description,
+        `Fields: ${[...fields].sort(byImportance).slice(0, 40).map(field => field.path).join(', ')}`
+      ].filter(Boolean).join('. ')
+    });
+    for (const { path, info } of fields) {
+      documents.push({
+        kind: 'field',
+        collection: name,
+        path,
+        text: [
+          `${name}.${path} (${info.type})`,
+          info.semanticMeaning,
+          descriptions.get(path),
+          info.tags?.length ? `Tags: ${info.tags.join(', ')}` : ''
+        ].filter(Boolean).join('. ')
+      });
+    }
+  }
+  return documents;
+}
+
+// Generated contexts vary in shape: lists of strings or objects, objects
+// keyed by collection name, `collections` with field descriptions. Entries
+// about collections outside the slice are dropped; entries about none are kept.
+function sliceContext(context: DatabaseContext, picked: Map<string, Set<string>>, names: string[]): DatabaseContext {
+  const text = (entry: any) => typeof entry === 'string' ? entry : JSON.stringify(entry) || '';
+  const keep = (entry: any) => {
+    const mentioned = names.filter(name => text(entry).includes(name));
+    return !mentioned.length || mentioned.some(name => picked.has(name));
+  };
+
+  const sliced: any = {};
+  for (const [key, value] of Object.entries(context || {})) {
+    if (key === 'collections' && Array.isArray(value)) {
+      sliced[key] = value
+        .filter(collection => picked.has(collection.name))
+        .map(collection => ({
+          ...collection,
+          fields: (collection.fields || []).filter((field: any) => picked.get(collection.name)!.has(field.name))
+        }));
+    } else if (Array.isArray(value)) {
+      sliced[key] = value.filter(keep);
+    } else if (isPlainObject(value)) {
+      sliced[key] = Object.fromEntries(Object.entries(value)
+        .filter(([entryKey, entry]) => names.includes(entryKey) ? picked.has(entryKey) : keep(entry)));
+    } else {
+      sliced[key] = value;
+    }
+  }
+  return sliced;
+}
+
+function sliceSchema(schema: DatabaseSchema, collections: Map<string, CollectionSchema>, picked: Map<string, Set<string>>): DatabaseSchema {
+  return {
+    ...schema,
+    collections: [...picked].map(([name, paths]) => {
+      const collection = collections.get(name)!;
+      return { ...collection, fields: pickFields(collection.fields, paths) };
+    }),
+    relationships: schema.relationships && {
+      ...schema.relationships,
+      relationships: schema.relationships.relationships
+        .filter(relationship => picked.has(relationship.from.collection) && picked.has(relationship.to.collection))
+    }
+  };
+}
+
+/**
+ * Picks the part of the schema a question needs: the `maxCollections`
+ * collections with the best matches (after the `pinned` ones), the
+ * collections related to them, and then fields in order of usefulness
+ * until the estimated tokens reach `budget`. Join keys come first, then the
+ * fields the question matched, then the most important remaining ones.
+ */
+export function selectSchemaSlice(
+  schema: DatabaseSchema,
+  context: DatabaseContext,
+  matches: VectorMatch<SchemaDocument>[],
+  options: { budget: number; maxCollections: number; pinned?: string[] }
+): SchemaSlice {
+  const collections = new Map(schema.collections.map(collection => [collection.collectionName, collection]));
+  const ranked = matches.filter(match => collections.has(match.metadata.collection));
+
+  const pinned = unique(options.pinned || []).filter(name => collections.has(name));
+  const primary = unique([...pinned, ...ranked.map(match => match.metadata.collection)])
+    .slice(0, Math.max(options.maxCollections, pinned.length));
+  const relationships = [...schema.relationships?.relationships || []].sort((a, b) => b.confidence - a.confidence);
+  const related = unique(relationships
+    .filter(relationship => primary.includes(relationship.from.collection) || primary.includes(relationship.to.collection))
+    .flatMap(relationship => [relationship.from.collection, relationship.to.collection]))
+    .filter(name => !primary.includes(name) && collections.has(name));
+
+  // Related collections are dropped, least related first, while even their
+  // bare entries don't fit
+  const picked = new Map<string, Set<string>>();
+  let included = [...primary, ...related];
+  const build = () => ({ schema: sliceSchema(schema, collections, picked), context: sliceContext(context, picked, [...collections.keys()]) });
+  let tokens = 0;
+  for (;;) {
+    picked.clear();
+    included.forEach(name => picked.set(name, new Set()));
+    const bare = build();
+    tokens = estimateTokens(bare.schema) + estimateTokens(bare.context);
+    if (tokens <= options.budget || included.length <= primary.length) break;
+    included = included.slice(0, -1);
+  }
+
+  const candidates: { collection: string; path: string }[] = [];
+  // Without the join keys the model can't write the $lookup
+  for (const relationship of relationships) {
+    if (picked.has(relationship.from.collection) && picked.has(relationship.to.collection)) {
+      candidates.push(
+        { collection: relationship.from.collection, path: relationship.from.field },
+        { collection: relationship.to.collection, path: relationship.to.field }
+      );
+    }
+  }
+  for (const name of included) {
+    if (collections.get(name)!.fields._id) candidates.push({ collection: name, path: '_id' });
+  }
+  for (const match of ranked) {
+    if (match.metadata.kind === 'field' && picked.has(match.metadata.collection)) {
+      candidates.push({ collection: match.metadata.collection, path: match.metadata.path! });
+    }
+  }
+  for (const name of included) {
+    const fields = flattenFields(collections.get(name)!.fields).sort(byImportance);
+    candidates.push(...fields.map(field => ({ collection: name, path: field.path })));
+  }
+
+  const added: { collection: string; path: string }[] = [];
+  const fieldInfo = new Map(included.map(name => [name, new Map(flattenFields(collections.get(name)!.fields).map(field => [field.path, field.info]))]));
+  for (const { collection, path } of candidates) {
+    const paths = picked.get(collection)!;
+    const info = fieldInfo.get(collection)!.get(path);
+    if (!info || paths.has(path)) continue;
+
+    const { properties, items, additionalProperties, ...shallow } = info;
+    const description = describedCollection(context, collection)?.fields?.find(field => field.name === path);
+    // Counted as it will be printed: nested in collections[].fields, with indentation
+    const segments = path.split('.');
+    const text = `"${segments[segments.length - 1]}": ${JSON.stringify(shallow, null, 2)},`;
+    const indent = 8 + 4 * (segments.length - 1);
+    const cost = Math.ceil((text.length + text.split('\n').length * indent) / 4) + (description ? estimateTokens(description) : 0);
+    if (tokens + cost > options.budget) continue;
+    paths.add(path);
+    added.push({ collection, path });
+    tokens += cost;
+  }
+
+  // The estimate leaves out the parents of nested fields; drop the least
+  // useful fields until the slice really fits
+  let slice = build();
+  tokens = estimateTokens(slice.schema) + estimateTokens(slice.context);
+  while (tokens > options.budget && added.length) {
+    const last = added.pop()!;
+    picked.get(last.collection)!.delete(last.path);
+    slice = build();
+    tokens = estimateTokens(slice.schema) + estimateTokens(slice.context);
+  }
+
+  return {
+    ...slice,
+    collections: primary,
+    related: included.filter(name => !primary.includes(name)),
+    fields: [...picked.values()].reduce((count, paths) => count + paths.size, 0),
+    tokens,
+    pruned: true
+  };
+}
@@ -0,0 +1,156 @@
+import { CollectionSchema, DatabaseSchema, EnrichedField, FieldInfo } from '../types/schema.types';
+
+export interface FlatField {
+  path: string;
+  info: FieldInfo;
+}
+
+// Types whose contents weren't sampled, so any sub-path may exist.
+const OPEN_TYPES = new Set(['mixed', 'unknown']);
+
+function isIndexSegment(segment: string): boolean {
+  return /^\d+$/.test(segment);
+}
+
+// Array items are addressed through the array's own path (`items.price`). A
+// sampled field can hold both shapes (`types: ['object', 'array']`), so embedded
+// properties win over array items when both are present.
+function childFields(info: FieldInfo): { [key: string]: FieldInfo } | undefined {
+  let current: FieldInfo | undefined = info;
+  while (current && !current.properties && current.items) current = current.items;
+  return current?.properties;
+}
+
+function isOpen(info: FieldInfo): boolean {
+  let current: FieldInfo | undefined = info;
+  while (current?.type === 'array') current = current.items;
+  if (!current) return true;
+  if (OPEN_TYPES.has(current.type) || current.additionalProperties) return true;
+  return current.type === 'object' && (!current.properties || Object.keys(current.properties).length === 0);
+}
+
+function ensurePath(fields: { [key: string]: FieldInfo }, segments: string[]): FieldInfo {
+  let level = fields;
+  let node: FieldInfo | undefined;
+  segments.forEach((segment, index) => {
+    node = level[segment];
+    if (!node) {
+      node = { type: index < segments.length - 1 ? 'object' : 'unknown' };
+      level[segment] = node;
+    }
+    if (index < segments.length - 1) {
+      let target: FieldInfo = node;
+      while (target.type === 'array' && target.items) target = target.items;
+      if (target.type !== 'object') target.type = 'object';
+      target.properties = target.properties || {};
+      level = target.properties;
+    }
+  });
+  return node!;
+}
+
+function fieldsFromEnrichment(enriched: EnrichedField[]): { [key: string]: FieldInfo } {
+  const fields: { [key: string]: FieldInfo } = {};
+  for (const entry of enriched) {
+    if (!entry?.field) continue;
+    const node = ensurePath(fields, entry.field.split('.'));
+    node.semanticMeaning = entry.semanticMeaning;
+    node.importance = entry.importance;
+    node.tags = entry.tags;
+  }
+  return fields;
+}
+
+/**
+ * Brings saved analyses into the FieldInfo tree shape. Analyses written before
+ * enrichment was merged into the tree hold a flat array of enriched fields.
+ */
+export function normalizeDatabaseSchema(schema: DatabaseSchema): DatabaseSchema {
+  return {
+    ...schema,
+    collections: (schema.collections || []).map(collection => normalizeCollectionSchema(collection))
+  };
+}
+
+export function normalizeCollectionSchema(collection: CollectionSchema): CollectionSchema {
+  const fields: any = collection.fields;
+  if (!Array.isArray(fields)) return collection;
+  return { ...collection, fields: fieldsFromEnrichment(fields) };
+}
+
+export function flattenFields(fields: { [key: string]: FieldInfo }, prefix = ''): FlatField[] {
+  const result: FlatField[] = [];
+  for (const [key, info] of Object.entries(fields || {})) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    result.push({ path, info });
+    const children = childFields(info);
+    if (children) result.push(...flattenFields(children, path));
+  }
+  return result;
+}
+
+// Copies `info` with `children` in place of its (or its array items') properties
+function withChildren(info: FieldInfo, children: { [key: string]: FieldInfo }): FieldInfo {
+  const { properties, items, ...rest } = info;
+  if (properties) return Object.keys(children).length ? { ...rest, items, properties: children } : { ...rest, items };
+  if (items && childFields(items)) return { ...rest, items: withChildren(items, children) };
+  return info;
+}
+
+// The part of the tree holding `paths` (as flattenFields spells them) and the
+// objects on the way to them. Objects that are kept for themselves lose the
+// children that weren't asked for.
+export function pickFields(fields: { [key: string]: FieldInfo }, paths: Set<string>, prefix = ''): { [key: string]: FieldInfo } {
+  const picked: { [key: string]: FieldInfo } = {};
+  for (const [key, info] of Object.entries(fields || {})) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const children = childFields(info);
+    const descendants = children ? pickFields(children, paths, path) : {};
+    if (!paths.has(path) && !Object.keys(descendants).length) continue;
+    picked[key] = children ? withChildren(info, descendants) : info;
+  }
+  return picked;
+}
+
+// Resolves a dotted path; `found` is also true when the path runs into a
+// field whose contents weren't sampled (mixed types, maps, empty objects).
+export function resolveFieldPath(
+  fields: { [key: string]: FieldInfo },
+  fieldPath: string
+): { found: boolean; field?: FieldInfo } {
+  const segments = fieldPath.split('.');
+  if (segments[0] === '_id') return { found: true, field: fields._id };
+
+  let level: { [key: string]: FieldInfo } | undefined = fields;
+  let node: FieldInfo | undefined;
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    if (node && isIndexSegment(segment) && node.type === 'array') continue;
+
+    node = level?.[segment];
+    if (!node) {
+      // Sampling without enrichment also stores nested paths under dotted keys
+      const dotted = level?.[segments.slice(i).join('.')];
+      return dotted ? { found: true, field: dotted } : { found: false };
+    }
+    if (i < segments.length - 1 && isOpen(node)) return { found: true, field: node };
+    level = childFields(node);
+  }
+  return { found: true, field: node };
+}
+
+// Copies enrichment results onto the matching nodes of the FieldInfo tree.
+export function applyEnrichment(
+  fields: { [key: string]: FieldInfo },
+  enriched: EnrichedField[]
+): { [key: string]: FieldInfo } {
+  for (const entry of enriched || []) {
+    if (!entry?.field) continue;
+    const node = fields[entry.field] || resolveFieldPath(fields, entry.field).field;
+    if (!node) continue;
+    node.semanticMeaning = entry.semanticMeaning;
+    node.importance = entry.importance;
+    node.tags = entry.tags;
+  }
+  return fields;
+}
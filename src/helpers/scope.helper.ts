@@ -0,0 +1,122 @@
+import { Document } from 'mongodb';
+import { ParsedQuery } from '../types/query.types';
+
+export class ScopeError extends Error {
+  constructor(message: string, public status = 403) {
+    super(message);
+    this.name = 'ScopeError';
+  }
+}
+
+// Mandatory filter for a collection, or null when the user may read all of it
+export type ScopeLookup = (collection: string) => Document | null;
+
+// Stages that read collection statistics or search metadata rather than
+// documents, so no filter can narrow them
+const UNSCOPABLE_STAGES = new Set(['$collStats', '$indexStats', '$planCacheStats', '$searchMeta', '$listSearchIndexes']);
+
+// Search stages that must come first; the scope filter goes right after them
+const LEADING_SEARCH_STAGES = new Set(['$search', '$vectorSearch']);
+
+// The scope is and-ed with the query's own filter, so nothing in the filter
+// (an $or, an $expr, a negation) can widen it
+function scopeFilter(filter: Document | undefined, scope: Document): Document {
+  return filter && Object.keys(filter).length ? { $and: [scope, filter] } : { ...scope };
+}
+
+function stageName(stage: Document): string {
+  return Object.keys(stage)[0];
+}
+
+// Scopes the collections that sub-pipelines of $lookup, $graphLookup,
+// $unionWith and $facet read, however deeply nested
+function scopeStages(pipeline: Document[], scopeFor: ScopeLookup): Document[] {
+  return pipeline.map(stage => {
+    const name = stageName(stage);
+    const spec = stage[name];
+
+    if (name === '$lookup') {
+      if (spec.from !== undefined && typeof spec.from !== 'string') {
+        throw new ScopeError('$lookup into another database cannot be scoped');
+      }
+      if (spec.from === undefined) {
+        return spec.pipeline ? { $lookup: { ...spec, pipeline: scopeStages(spec.pipeline, scopeFor) } } : stage;
+      }
+      // localField/foreignField lookups take a pipeline too since MongoDB 5.0
+      const pipeline = scopePipeline(spec.pipeline || [], spec.from, scopeFor);
+      return pipeline.length ? { $lookup: { ...spec, pipeline } } : stage;
+    }
+
+    if (name === '$unionWith') {
+      const union = typeof spec === 'string' ? { coll: spec } : spec;
+      const pipeline = union.coll === undefined
+        ? scopeStages(union.pipeline || [], scopeFor)
+        : scopePipeline(union.pipeline || [], union.coll, scopeFor);
+      return { $unionWith: { ...union, ...(pipeline.length && { pipeline }) } };
+    }
+
+    if (name === '$graphLookup') {
+      const scope = scopeFor(spec.from);
+      return scope
+        ? { $graphLookup: { ...spec, restrictSearchWithMatch: scopeFilter(spec.restrictSearchWithMatch, scope) } }
+        : stage;
+    }
+
+    if (name === '$facet') {
+      const facets: Document = {};
+      for (const [facet, facetPipeline] of Object.entries(spec as Document)) {
+        facets[facet] = scopeStages(facetPipeline, scopeFor);
+      }
+      return { $facet: facets };
+    }
+
+    return stage;
+  });
+}
+
+// Makes a pipeline over `collection` start from the user's slice of it: the
+// scope is merged into a leading $match or $geoNear, placed after a leading
+// search stage, or added as a new first stage.
+function scopePipeline(pipeline: Document[], collection: string, scopeFor: ScopeLookup): Document[] {
+  const stages = scopeStages(pipeline, scopeFor);
+  const scope = scopeFor(collection);
+  if (!scope) return stages;
+
+  const unscopable = stages.map(stageName).find(name => UNSCOPABLE_STAGES.has(name));
+  if (unscopable) throw new ScopeError(`${unscopable} cannot be restricted to the documents of "${collection}" you may read`);
+
+  const [first, ...rest] = stages;
+  if (!first) return [{ $match: scope }];
+  const name = stageName(first);
+  if (name === '$match') return [{ $match: scopeFilter(first.$match, scope) }, ...rest];
+  if (name === '$geoNear') return [{ $geoNear: { ...first.$geoNear, query: scopeFilter(first.$geoNear.query, scope) } }, ...rest];
+  if (LEADING_SEARCH_STAGES.has(name)) return [first, { $match: scope }, ...rest];
+  return [{ $match: scope }, ...stages];
+}
+
+/**
+ * Returns a copy of the query restricted to the documents the user may read:
+ * scope filters go into find, count and distinct filters, at the start of an
+ * aggregate pipeline and into every collection a $lookup, $graphLookup or
+ * $unionWith reads. The query's own filters only narrow the result further.
+ */
+export function applyScopes(query: ParsedQuery, scopeFor: ScopeLookup): ParsedQuery {
+  switch (query.operation) {
+    case 'find':
+    case 'findOne':
+    case 'countDocuments':
+    case 'distinct': {
+      const scope = scopeFor(query.collectionName);
+      return scope ? { ...query, filter: scopeFilter(query.filter, scope) } : query;
+    }
+    case 'estimatedDocumentCount': {
+      // Collection metadata can't be filtered; count the slice instead
+      const scope = scopeFor(query.collectionName);
+      return scope ? { ...query, operation: 'countDocuments', filter: { ...scope } } : query;
+    }
+    case 'aggregate':
+      return { ...query, pipeline: scopePipeline(query.pipeline, query.collectionName, scopeFor) };
+    default:
+      return query;
+  }
+}
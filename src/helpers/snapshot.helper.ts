@@ -0,0 +1,93 @@
+import { flattenFields } from './schema.helper';
+import { CollectionSchema, DatabaseSchema, FieldInfo } from '../types/schema.types';
+import { FieldChange, SchemaDiff } from '../types/snapshot.types';
+
+// Legacy analyses and unsampled fields carry no usable type
+const UNTYPED = 'unknown';
+
+export function describeType(info: FieldInfo): string {
+  if (info.type === 'array') {
+    return `array<${info.items ? describeType(info.items) : UNTYPED}>`;
+  }
+  const types = info.types?.length ? info.types : [info.type];
+  return [...types].sort().join('|');
+}
+
+function isTypeChange(before: string, after: string): boolean {
+  return before !== after && before !== UNTYPED && after !== UNTYPED;
+}
+
+function fieldTypes(collection: CollectionSchema): Map<string, { info: FieldInfo; type: string }> {
+  return new Map(flattenFields(collection.fields).map(({ path, info }) => [path, { info, type: describeType(info) }]));
+}
+
+export function diffCollections(before: CollectionSchema, after: CollectionSchema): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const collection = after.collectionName;
+  const beforeFields = fieldTypes(before);
+  const afterFields = fieldTypes(after);
+
+  for (const [path, { type }] of afterFields) {
+    const previous = beforeFields.get(path);
+    if (!previous) {
+      changes.push({ kind: 'added', collection, path, after: type });
+    } else if (isTypeChange(previous.type, type)) {
+      changes.push({ kind: 'type_changed', collection, path, before: previous.type, after: type });
+    }
+  }
+  for (const [path, { type }] of beforeFields) {
+    if (!afterFields.has(path)) changes.push({ kind: 'removed', collection, path, before: type });
+  }
+  return changes;
+}
+
+export function diffSchemas(
+  before: DatabaseSchema | null,
+  after: DatabaseSchema,
+  fromVersion: number | null,
+  toVersion: number
+): SchemaDiff {
+  const beforeCollections = new Map((before?.collections || []).map(c => [c.collectionName, c]));
+  const afterCollections = new Map(after.collections.map(c => [c.collectionName, c]));
+  const diff: SchemaDiff = { fromVersion, toVersion, addedCollections: [], removedCollections: [], fields: [] };
+
+  for (const [name, collection] of afterCollections) {
+    const previous = beforeCollections.get(name);
+    if (previous) {
+      diff.fields.push(...diffCollections(previous, collection));
+    } else {
+      diff.addedCollections.push(name);
+    }
+  }
+  for (const name of beforeCollections.keys()) {
+    if (!afterCollections.has(name)) diff.removedCollections.push(name);
+  }
+  return diff;
+}
+
+export function countChanges(diff: SchemaDiff | null): number {
+  if (!diff) return 0;
+  return diff.addedCollections.length + diff.removedCollections.length + diff.fields.length;
+}
+
+/**
+ * Copies semantic meaning, importance and tags from the previous analysis onto
+ * fields whose type didn't change, and returns the paths that still need
+ * enrichment (new, retyped or never enriched fields).
+ */
+export function carryOverEnrichment(previous: CollectionSchema | undefined, current: CollectionSchema): string[] {
+  const previousFields = previous ? fieldTypes(previous) : new Map();
+  const pending: string[] = [];
+
+  for (const { path, info } of flattenFields(current.fields)) {
+    const match = previousFields.get(path);
+    if (match && match.info.semanticMeaning && !isTypeChange(match.type, describeType(info))) {
+      info.semanticMeaning = match.info.semanticMeaning;
+      info.importance = match.info.importance;
+      info.tags = match.info.tags;
+    } else {
+      pending.push(path);
+    }
+  }
+  return pending;
+}
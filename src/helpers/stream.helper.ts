@@ -0,0 +1,32 @@
+import { Writable } from 'stream';
+import { QueryCancelledError } from './mongo.helper';
+
+/**
+ * Writes `chunk` to `output` and, when its buffer is full, waits for the
+ * client to catch up instead of buffering the whole result. A client that
+ * disconnects never drains the stream, so the wait also ends when `output`
+ * closes or `signal` aborts (with QueryCancelledError) or `output` errors.
+ */
+export async function writeChunk(output: Writable, chunk: string, signal?: AbortSignal): Promise<void> {
+  if (output.write(chunk)) return;
+
+  await new Promise<void>((resolve, reject) => {
+    const settle = (error?: Error) => {
+      output.off('drain', onDrain);
+      output.off('close', onClose);
+      output.off('error', onError);
+      signal?.removeEventListener('abort', onClose);
+      if (error) reject(error);
+      else resolve();
+    };
+    const onDrain = () => settle();
+    const onClose = () => settle(new QueryCancelledError());
+    const onError = (error: Error) => settle(error);
+
+    if (signal?.aborted || output.destroyed) return onClose();
+    output.once('drain', onDrain);
+    output.once('close', onClose);
+    output.once('error', onError);
+    signal?.addEventListener('abort', onClose);
+  });
+}
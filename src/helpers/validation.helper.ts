@@ -0,0 +1,108 @@
+import { collectQueryReferences } from './reference.helper';
+import { flattenFields, resolveFieldPath } from './schema.helper';
+import { DatabaseSchema } from '../types/schema.types';
+import { ParsedQuery } from '../types/query.types';
+import { ValidationIssue, ValidationReport } from '../types/validation.types';
+
+const MAX_SUGGESTIONS = 3;
+
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// `userId`, `user_id` and `UserID` should count as the same name.
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[_\-\s]/g, '');
+}
+
+export function suggest(target: string, candidates: string[]): string[] {
+  const lastSegment = target.split('.').pop()!;
+  // Typos usually sit in a single segment, so the allowance follows its length
+  const threshold = Math.max(2, Math.floor(lastSegment.length * 0.5));
+
+  return candidates
+    .map(candidate => {
+      const candidateLast = candidate.split('.').pop()!;
+      const distance = Math.min(
+        editDistance(target, candidate),
+        editDistance(normalizeName(target), normalizeName(candidate)),
+        // A right field name under the wrong parent is still a useful hint
+        editDistance(normalizeName(lastSegment), normalizeName(candidateLast)) + 1
+      );
+      return { candidate, distance };
+    })
+    .filter(({ distance }) => distance <= threshold)
+    .sort((a, b) => a.distance - b.distance || a.candidate.length - b.candidate.length)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Checks every collection and field path a query touches against the analyzed
+ * schema. Paths are resolved through embedded documents, arrays and `$lookup`
+ * aliases; fields computed inside the pipeline are not checked.
+ */
+export function validateQueryFields(query: ParsedQuery, schema: DatabaseSchema): ValidationReport {
+  const references = collectQueryReferences(query);
+  const collections = new Map(schema.collections.map(collection => [collection.collectionName, collection]));
+  const collectionNames = Array.from(collections.keys());
+  const issues: ValidationIssue[] = [];
+  const reportedCollections = new Set<string>();
+
+  for (const { collection, location } of references.collections) {
+    if (collections.has(collection) || reportedCollections.has(collection)) continue;
+    reportedCollections.add(collection);
+    const suggestions = suggest(collection, collectionNames);
+    issues.push({
+      kind: 'unknown_collection',
+      message: `Collection "${collection}" does not exist` +
+        (suggestions.length ? `. Did you mean ${suggestions.map(s => `"${s}"`).join(', ')}?` : ''),
+      collection,
+      location,
+      suggestions
+    });
+  }
+
+  for (const reference of references.fields) {
+    if (reference.resolution === 'missing') {
+      issues.push({
+        kind: 'missing_field',
+        message: `Field "${reference.path}" no longer exists at this point of the pipeline; ` +
+          'an earlier $group, $project or similar stage removed it',
+        collection: reference.collection,
+        path: reference.path,
+        location: reference.location,
+        suggestions: []
+      });
+      continue;
+    }
+    if (reference.resolution !== 'collection' || !reference.path) continue;
+
+    const collection = collections.get(reference.collection);
+    if (!collection) continue;
+    if (resolveFieldPath(collection.fields, reference.path).found) continue;
+
+    const suggestions = suggest(reference.path, flattenFields(collection.fields).map(field => field.path));
+    issues.push({
+      kind: 'unknown_field',
+      message: `Field "${reference.path}" does not exist in "${reference.collection}"` +
+        (suggestions.length ? `. Did you mean ${suggestions.map(s => `"${s}"`).join(', ')}?` : ''),
+      collection: reference.collection,
+      path: reference.path,
+      location: reference.location,
+      suggestions
+    });
+  }
+
+  return { valid: issues.length === 0, issues };
+}
@@ -1,32 +1,76 @@
-// import dotenv from 'dotenv';
-// import express from 'express';
-// import userRoutes from './routes/user.routes';
-// import schemaRoutes from './routes/schema.routes';
-// import aiRoutes from './routes/ai.routes';
-// import scrapeRoutes from './routes/scrape.routes';
-
-// // Load environment variables
-// dotenv.config();
-
-// const app = express();
-// const port = process.env.PORT || 3000;
-
-// // Middleware
-// app.use(express.json());
-
-// // Routes
-// app.use('/api/scrape', scrapeRoutes);
-// app.use('/api/users', userRoutes);
-// app.use('/api/schema', schemaRoutes);
-// app.use('/api/ai', aiRoutes);
-
-// // Health check route
-// app.get('/health', (req, res) => {
-//   res.json({ status: 'ok' });
-// });
-
-// app.listen(port, () => {
-//   console.log(`Server is running on port ${port}`);
-// }); 
+import dotenv from 'dotenv';
+import express from 'express';
+import userRoutes from './routes/user.routes';
+import authRoutes from './routes/auth.routes';
+import schemaRoutes from './routes/schema.routes';
+import aiRoutes from './routes/ai.routes';
+import sessionRoutes from './routes/session.routes';
+import scrapeRoutes from './routes/scrape.routes';
+import connectionRoutes from './routes/connection.routes';
+import libraryRoutes from './routes/library.routes';
+import auditRoutes from './routes/audit.routes';
+import exampleRoutes from './routes/example.routes';
+import { authenticate } from './middleware/auth.middleware';
+import connectionService from './services/connection.service';
+import authService from './services/auth.service';
+import mongoService from './services/mongo.service';
+
+// Load environment variables
+dotenv.config();
+
+const app = express();
+const port = process.env.PORT || 3000;
+
+// Middleware
+app.use(express.json());
+
+// Routes; everything but login and the health check needs a token or API key,
+// and each route checks the caller's role
+app.use('/api/auth', authRoutes);
+app.use('/api/scrape', scrapeRoutes);
+app.use('/api/users', authenticate, userRoutes);
+app.use('/api/connections', authenticate, connectionRoutes);
+app.use('/api/schema', authenticate, schemaRoutes);
+app.use('/api/ai/sessions', authenticate, sessionRoutes);
+app.use('/api/ai', authenticate, aiRoutes);
+app.use('/api/library', authenticate, libraryRoutes);
+app.use('/api/audit', authenticate, auditRoutes);
+app.use('/api/examples', authenticate, exampleRoutes);
+
+// Health check; an unreachable database degrades the status but the server keeps serving
+async function checkHealth() {
+  try {
+    const connections = await connectionService.getAllConnections();
+    const mongo = await Promise.all(connections.map(connection => mongoService.ping(connection)));
+    return { status: mongo.every(check => check.status === 'ok') ? 'ok' : 'degraded', mongo };
+  } catch (error: any) {
+    // e.g. an unreadable data/connections.json
+    console.error('Health check error:', error);
+    return { status: 'degraded', mongo: [], error: error.message };
+  }
+}
+
+// Anyone may see whether the server is healthy; which connections exist and
+// why they fail is only for signed-in users
+app.get('/health', async (req, res) => {
+  const { status } = await checkHealth();
+  res.json({ status });
+});
+app.get('/health/details', authenticate, async (req, res) => {
+  res.json(await checkHealth());
+});
+
+const server = app.listen(port, () => {
+  console.log(`Server is running on port ${port}`);
+  if (!authService.enabled) console.warn('AUTH_ENABLED=false: every request is treated as an admin');
+});
+
+// Close pooled Mongo clients so in-flight operations end cleanly
+['SIGINT', 'SIGTERM'].forEach(signal => {
+  process.on(signal, () => {
+    server.close();
+    mongoService.closeAll().finally(() => process.exit(0));
+  });
+}); 
 
 
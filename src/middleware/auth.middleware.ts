@@ -0,0 +1,47 @@
+import { NextFunction, Request, Response } from 'express';
+import authService, { AuthError } from '../services/auth.service';
+import { USER_ROLES, UserRole } from '../types/user.types';
+
+// `Authorization: Bearer <token or API key>` or `X-API-Key: <API key>`
+function requestCredential(req: Request): string | undefined {
+  const authorization = req.get('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) return authorization.slice(7).trim();
+  return req.get('x-api-key') || undefined;
+}
+
+// Sets req.user or answers 401
+export async function authenticate(req: Request, res: Response, next: NextFunction) {
+  try {
+    req.user = await authService.authenticate(requestCredential(req));
+    next();
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Authentication error:', error);
+    res.status(500).json({
+      error: 'Failed to authenticate',
+      details: error.message
+    });
+  }
+}
+
+// Lets through users with `role` or a role above it
+export function requireRole(role: UserRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return res.status(401).json({ error: 'Authentication required' });
+    if (USER_ROLES.indexOf(req.user.role) < USER_ROLES.indexOf(role)) {
+      return res.status(403).json({ error: `Requires the ${role} role` });
+    }
+    next();
+  };
+}
+
+// For routes on /users/:id that users may call for themselves
+export function requireSelfOrAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) return res.status(401).json({ error: 'Authentication required' });
+  if (req.user.role !== 'admin' && req.user.id !== req.params.id) {
+    return res.status(403).json({ error: 'Requires the admin role' });
+  }
+  next();
+}
@@ -0,0 +1,117 @@
+import { OpenAI } from 'openai';
+import { EmbeddingProvider, EmbeddingProviderName } from '../types/retrieval.types';
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'get', 'give', 'has', 'have', 'how',
+  'in', 'is', 'it', 'list', 'me', 'of', 'on', 'or', 'show', 'that', 'the', 'their', 'there', 'this', 'to', 'was',
+  'were', 'what', 'when', 'where', 'which', 'who', 'with'
+]);
+
+// Good enough to match "users" with "user" and "categories" with "category"
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+// Splits prose, camelCase, snake_case and dotted paths into lowercase words
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+// FNV-1a
+function hash(feature: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    value ^= feature.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+/**
+ * Embeds text in process by hashing its words and their character trigrams
+ * into a fixed number of dimensions. It only matches words that share
+ * spelling, not meaning, but needs no model and no network.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashing';
+  readonly model: string;
+
+  constructor(private readonly dimensions = 512) {
+    this.model = `hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.vector(text));
+  }
+
+  private vector(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const value = hash(feature);
+      // One bit picks the sign so colliding features tend to cancel out
+      vector[value % this.dimensions] += value & 0x80000000 ? -weight : weight;
+    };
+    for (const word of tokenize(text)) {
+      add(word, 1);
+      const padded = `_${word}_`;
+      for (let i = 0; i + 3 <= padded.length; i++) add(`#${padded.slice(i, i + 3)}`, 0.25);
+    }
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm ? vector.map(value => value / norm) : vector;
+  }
+}
+
+export interface OpenAIEmbeddingOptions {
+  name?: 'openai' | 'local';
+  model: string;
+  apiKey?: string;
+  baseURL?: string;
+  dimensions?: number;
+}
+
+/**
+ * The OpenAI embeddings API, or any server exposing it (Ollama, vLLM, LM
+ * Studio) when `name` is 'local' and `baseURL` points at it.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  private client: OpenAI | null = null;
+
+  constructor(private readonly options: OpenAIEmbeddingOptions) {
+    this.name = options.name || 'openai';
+    this.model = options.dimensions ? `${options.model}-${options.dimensions}` : options.model;
+  }
+
+  // Created on first use so the server can start without an API key.
+  private getClient(): OpenAI {
+    if (!this.client) {
+      const apiKey = this.options.apiKey ?? process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error('OPENAI_API_KEY is not set in environment variables');
+      }
+      this.client = new OpenAI({ apiKey, baseURL: this.options.baseURL });
+    }
+    return this.client;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += 256) {
+      const response = await this.getClient().embeddings.create({
+        model: this.options.model,
+        input: texts.slice(start, start + 256),
+        ...(this.options.dimensions && { dimensions: this.options.dimensions })
+      });
+      vectors.push(...[...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding));
+    }
+    return vectors;
+  }
+}
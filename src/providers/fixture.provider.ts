@@ -0,0 +1,114 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import path from 'path';
+import {
+  ChatMessage,
+  ChatRequest,
+  FunctionCallRequest,
+  LLMProvider,
+  LLMResponse
+} from '../types/llm.types';
+
+type RequestKind = 'chat' | 'json' | 'function';
+
+interface Fixture {
+  kind: RequestKind;
+  functionName?: string;
+  messages: ChatMessage[];
+  response: LLMResponse<any>;
+}
+
+export const DEFAULT_FIXTURES_DIR = path.join(__dirname, '../../data/fixtures/llm');
+
+// The model and temperature are left out so a recording stays valid when the
+// configured model changes.
+export function fixtureKey(kind: RequestKind, messages: ChatMessage[], functionName?: string): string {
+  const normalized = messages.map(({ role, content }) => ({ role, content: content.replace(/\s+/g, ' ').trim() }));
+  return createHash('sha256')
+    .update(JSON.stringify({ kind, functionName, messages: normalized }))
+    .digest('hex')
+    .slice(0, 32);
+}
+
+/**
+ * Replays responses recorded by RecordingProvider. Lookups are keyed by the
+ * exact prompt, so the same request always gets the same answer and a missing
+ * recording fails loudly instead of reaching the network.
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture';
+
+  constructor(private readonly fixturesDir = process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR) {}
+
+  async chat(request: ChatRequest): Promise<LLMResponse<string>> {
+    return this.replay('chat', request.messages);
+  }
+
+  async json<T = any>(request: ChatRequest): Promise<LLMResponse<T>> {
+    return this.replay('json', request.messages);
+  }
+
+  async callFunction<T = any>(request: FunctionCallRequest): Promise<LLMResponse<T>> {
+    return this.replay('function', request.messages, request.function.name);
+  }
+
+  private async replay(kind: RequestKind, messages: ChatMessage[], functionName?: string) {
+    const key = fixtureKey(kind, messages, functionName);
+    const fixturePath = path.join(this.fixturesDir, `${key}.json`);
+
+    let fixture: Fixture;
+    try {
+      fixture = JSON.parse(await fs.readFile(fixturePath, 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`No recorded LLM response for ${kind} request ${key} in ${this.fixturesDir}`);
+      }
+      throw error;
+    }
+    return { ...fixture.response, provider: this.name };
+  }
+}
+
+/**
+ * Forwards requests to another provider and stores every response as a
+ * fixture FixtureProvider can replay.
+ */
+export class RecordingProvider implements LLMProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly inner: LLMProvider,
+    private readonly fixturesDir = process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR
+  ) {
+    this.name = inner.name;
+  }
+
+  async chat(request: ChatRequest): Promise<LLMResponse<string>> {
+    const response = await this.inner.chat(request);
+    await this.record({ kind: 'chat', messages: request.messages, response });
+    return response;
+  }
+
+  async json<T = any>(request: ChatRequest): Promise<LLMResponse<T>> {
+    const response = await this.inner.json<T>(request);
+    await this.record({ kind: 'json', messages: request.messages, response });
+    return response;
+  }
+
+  async callFunction<T = any>(request: FunctionCallRequest): Promise<LLMResponse<T>> {
+    const response = await this.inner.callFunction<T>(request);
+    await this.record({
+      kind: 'function',
+      functionName: request.function.name,
+      messages: request.messages,
+      response
+    });
+    return response;
+  }
+
+  private async record(fixture: Fixture) {
+    const key = fixtureKey(fixture.kind, fixture.messages, fixture.functionName);
+    await fs.mkdir(this.fixturesDir, { recursive: true });
+    await fs.writeFile(path.join(this.fixturesDir, `${key}.json`), JSON.stringify(fixture, null, 2));
+  }
+}
@@ -0,0 +1,41 @@
+import { OpenAIProvider, parseJsonContent } from './openai.provider';
+import { ChatRequest, FunctionCallRequest, LLMResponse } from '../types/llm.types';
+
+/**
+ * Any server exposing the OpenAI chat completions API (Ollama, vLLM, LM Studio,
+ * llama.cpp). Many of them ignore `response_format` and tool calls, so JSON and
+ * function calls are requested through the prompt instead.
+ */
+export class LocalProvider extends OpenAIProvider {
+  readonly name = 'local';
+
+  constructor(baseURL = process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1') {
+    super({ baseURL, apiKey: process.env.LOCAL_LLM_API_KEY || 'local' });
+  }
+
+  async json<T = any>(request: ChatRequest): Promise<LLMResponse<T>> {
+    const response = await this.chat({
+      ...request,
+      messages: [
+        ...request.messages,
+        { role: 'system', content: 'Respond with a single valid JSON object and nothing else.' }
+      ]
+    });
+    return { ...response, content: parseJsonContent(response.content) };
+  }
+
+  async callFunction<T = any>(request: FunctionCallRequest): Promise<LLMResponse<T>> {
+    const response = await this.chat({
+      ...request,
+      messages: [
+        ...request.messages,
+        {
+          role: 'system',
+          content: `Respond only with a JSON object of arguments for the function "${request.function.name}"` +
+            ` matching this JSON schema:\n${JSON.stringify(request.function.parameters)}`
+        }
+      ]
+    });
+    return { ...response, content: parseJsonContent(response.content) };
+  }
+}
@@ -0,0 +1,92 @@
+import { OpenAI } from 'openai';
+import {
+  ChatRequest,
+  FunctionCallRequest,
+  LLMProvider,
+  LLMResponse,
+  LLMUsage
+} from '../types/llm.types';
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  baseURL?: string;
+}
+
+// Models sometimes wrap JSON in a code block or leave unquoted keys and
+// trailing commas behind.
+export function parseJsonContent(content: string): any {
+  const trimmed = content.trim().replace(/^```(?:json)?\s*\n?([\s\S]*?)\n?```$/, '$1');
+  try {
+    return JSON.parse(trimmed);
+  } catch (error) {
+    const fixedContent = trimmed
+      .replace(/([{,]\s*)([A-Za-z_$][\w$]*)\s*:/g, '$1"$2":')
+      .replace(/,\s*}/g, '}')
+      .replace(/,\s*]/g, ']');
+    return JSON.parse(fixedContent);
+  }
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string = 'openai';
+  private client: OpenAI | null = null;
+
+  constructor(private readonly options: OpenAIProviderOptions = {}) {}
+
+  // Created on first use so the server can start without an API key.
+  protected getClient(): OpenAI {
+    if (!this.client) {
+      const apiKey = this.options.apiKey ?? process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error('OPENAI_API_KEY is not set in environment variables');
+      }
+      this.client = new OpenAI({ apiKey, baseURL: this.options.baseURL });
+    }
+    return this.client;
+  }
+
+  async chat(request: ChatRequest): Promise<LLMResponse<string>> {
+    const completion = await this.getClient().chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature
+    });
+    return this.toResponse(completion, completion.choices[0]?.message?.content || '');
+  }
+
+  async json<T = any>(request: ChatRequest): Promise<LLMResponse<T>> {
+    const completion = await this.getClient().chat.completions.create({
+      model: request.model,
+      response_format: { type: 'json_object' },
+      messages: request.messages,
+      temperature: request.temperature
+    });
+    return this.toResponse(completion, parseJsonContent(completion.choices[0]?.message?.content || '{}'));
+  }
+
+  async callFunction<T = any>(request: FunctionCallRequest): Promise<LLMResponse<T>> {
+    const completion = await this.getClient().chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      tools: [{ type: 'function', function: request.function }],
+      tool_choice: { type: 'function', function: { name: request.function.name } }
+    });
+
+    const message = completion.choices[0]?.message;
+    const args = message?.tool_calls?.[0]?.function?.arguments ?? message?.content;
+    if (!args) {
+      throw new Error(`Model did not call ${request.function.name}`);
+    }
+    return this.toResponse(completion, parseJsonContent(args));
+  }
+
+  protected toResponse<T>(completion: OpenAI.Chat.Completions.ChatCompletion, content: T): LLMResponse<T> {
+    const usage: LLMUsage | undefined = completion.usage && {
+      promptTokens: completion.usage.prompt_tokens,
+      completionTokens: completion.usage.completion_tokens,
+      totalTokens: completion.usage.total_tokens
+    };
+    return { content, model: completion.model, provider: this.name, usage };
+  }
+}
@@ -1,15 +1,26 @@
 import { Router } from 'express';
 import aiController from '../controllers/ai.controller';
+import { requireRole } from '../middleware/auth.middleware';
 
 const router = Router();
 
-// POST /api/ai/context - Generate and save database context
-router.post('/context', aiController.generateContext);
+// POST /api/ai/context - Generate and save the context of { connectionId }
+router.post('/context', requireRole('admin'), aiController.generateContext);
 
-// POST /api/ai/query - Execute natural language query
-router.post('/query', aiController.executeQuery);
+// POST /api/ai/query - Execute natural language query against { connectionId }, or answer a clarification
+// question with { clarificationId, choice } / { clarificationId, answer }; { explain: true } adds the query plan
+router.post('/query', requireRole('analyst'), aiController.executeQuery);
 
-// GET /api/ai/test - Test OpenAI API functionality
-router.get('/test', aiController.testOpenAI);
+// GET /api/ai/results?cursor= - Next page of a query's results, rerun without the LLM
+router.get('/results', requireRole('viewer'), aiController.getResultsPage);
+
+// GET /api/ai/results/stream?runId=|cursor= - Stream a query's results as NDJSON
+router.get('/results/stream', requireRole('viewer'), aiController.streamResults);
+
+// GET /api/ai/results/export?runId=&format=csv|xlsx|ndjson - Download all of a query's results
+router.get('/results/export', requireRole('viewer'), aiController.exportResults);
+
+// GET /api/ai/test - Test the configured LLM provider
+router.get('/test', requireRole('admin'), aiController.testOpenAI);
 
 export default router; 
\ No newline at end of file
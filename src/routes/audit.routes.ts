@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import auditController from '../controllers/audit.controller';
+import { requireRole } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// GET /api/audit?userId=&connectionId=&type=&outcome=&from=&to=&q=&limit=&offset= - Query history, newest first
+router.get('/', requireRole('admin'), auditController.getHistory);
+
+export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import authController from '../controllers/auth.controller';
+import { authenticate } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// POST /api/auth/login - Exchange { email, password } for a signed token
+router.post('/login', authController.login);
+
+// GET /api/auth/me - The user the token or API key belongs to
+router.get('/me', authenticate, authController.me);
+
+export default router;
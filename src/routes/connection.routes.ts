@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import connectionController from '../controllers/connection.controller';
+import { requireRole } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// GET /api/connections - List registered databases (credentials masked)
+router.get('/', requireRole('viewer'), connectionController.getAllConnections);
+
+// POST /api/connections - Register a database: { id?, name?, uri, databaseName? }
+router.post('/', requireRole('admin'), connectionController.createConnection);
+
+// GET /api/connections/:id - Get a connection with its schema version and context status
+router.get('/:id', requireRole('viewer'), connectionController.getConnectionById);
+
+// DELETE /api/connections/:id - Remove a connection and its stored analysis
+router.delete('/:id', requireRole('admin'), connectionController.deleteConnection);
+
+export default router;
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import exampleController from '../controllers/example.controller';
+import { requireRole } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// GET /api/examples?connectionId= - List query examples, in the shape /import takes
+router.get('/', requireRole('analyst'), exampleController.getAll);
+
+// POST /api/examples - Promote { runId } or { sessionId, turnId } from history, or add { connectionId, question, mongoQuery }
+router.post('/', requireRole('analyst'), exampleController.create);
+
+// POST /api/examples/import - Import { connectionId, examples: [{ question, mongoQuery, explanation }] }
+router.post('/import', requireRole('analyst'), exampleController.import);
+
+// POST /api/examples/seed - Replace { connectionId }'s examples from its context's sample queries
+router.post('/seed', requireRole('analyst'), exampleController.seed);
+
+// DELETE /api/examples/:id - Delete a query example
+router.delete('/:id', requireRole('analyst'), exampleController.delete);
+
+export default router;
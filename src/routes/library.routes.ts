@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import libraryController from '../controllers/library.controller';
+import { requireRole } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// GET /api/library?connectionId= - List saved queries
+router.get('/', requireRole('viewer'), libraryController.getAll);
+
+// POST /api/library - Save { runId } of a query that ran, or { question, mongoQuery, connectionId }
+router.post('/', requireRole('analyst'), libraryController.create);
+
+// GET /api/library/:id - Get a saved query with its parameters
+router.get('/:id', requireRole('viewer'), libraryController.getById);
+
+// PATCH /api/library/:id - Update { name, question, description, parameterNames: { old: new } }
+router.patch('/:id', requireRole('analyst'), libraryController.update);
+
+// POST /api/library/:id/run - Run with { parameters: { name: value }, pageSize }, without the LLM
+router.post('/:id/run', requireRole('viewer'), libraryController.run);
+
+// DELETE /api/library/:id - Delete a saved query
+router.delete('/:id', requireRole('analyst'), libraryController.delete);
+
+export default router;
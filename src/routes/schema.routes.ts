@@ -1,9 +1,22 @@
 import { Router } from 'express';
 import schemaController from '../controllers/schema.controller';
+import { requireRole } from '../middleware/auth.middleware';
 
 const router = Router();
 
-// POST /api/schema/analyze - Analyze database schema
-router.post('/analyze', (req, res) => schemaController.analyzeDatabase(req, res));
+// POST /api/schema/analyze - Analyze the schema of { connectionId } (default: MONGODB_URI)
+router.post('/analyze', requireRole('admin'), (req, res) => schemaController.analyzeDatabase(req, res));
+
+// GET /api/schema/versions - List saved schema snapshots, newest first
+router.get('/versions', requireRole('analyst'), (req, res) => schemaController.listVersions(req, res));
+
+// GET /api/schema/versions/:version - Get one schema snapshot
+router.get('/versions/:version', requireRole('analyst'), (req, res) => schemaController.getVersion(req, res));
+
+// GET /api/schema/diff?from=1&to=2 - Added, removed and retyped fields between two versions
+router.get('/diff', requireRole('analyst'), (req, res) => schemaController.diffVersions(req, res));
+
+// GET /api/schema/indexes/report - Index recommendations across the connection's query history
+router.get('/indexes/report', requireRole('analyst'), (req, res) => schemaController.getIndexReport(req, res));
 
 export default router; 
\ No newline at end of file
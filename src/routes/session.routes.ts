@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import sessionController from '../controllers/session.controller';
+import aiController from '../controllers/ai.controller';
+import { requireRole } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// GET /api/ai/sessions - List conversations
+router.get('/', requireRole('analyst'), sessionController.getAllSessions);
+
+// POST /api/ai/sessions - Start a new conversation
+router.post('/', requireRole('analyst'), sessionController.createSession);
+
+// GET /api/ai/sessions/:id - Get a conversation with all its turns
+router.get('/:id', requireRole('analyst'), sessionController.getSessionById);
+
+// POST /api/ai/sessions/:id/query - Ask a follow-up question in a conversation
+router.post('/:id/query', requireRole('analyst'), aiController.executeQuery);
+
+// DELETE /api/ai/sessions/:id - Delete a conversation
+router.delete('/:id', requireRole('analyst'), sessionController.deleteSession);
+
+export default router;
@@ -1,21 +1,28 @@
 import { Router } from 'express';
 import userController from '../controllers/user.controller';
+import { requireRole, requireSelfOrAdmin } from '../middleware/auth.middleware';
 
 const router = Router();
 
 // GET /api/users - Get all users
-router.get('/', userController.getAllUsers);
+router.get('/', requireRole('admin'), userController.getAllUsers);
 
 // GET /api/users/:id - Get user by ID
-router.get('/:id', userController.getUserById);
+router.get('/:id', requireSelfOrAdmin, userController.getUserById);
 
-// POST /api/users - Create new user
-router.post('/', userController.createUser);
+// POST /api/users - Create new user: { name, email, role, password }
+router.post('/', requireRole('admin'), userController.createUser);
 
-// PUT /api/users/:id - Update user
-router.put('/:id', userController.updateUser);
+// PUT /api/users/:id - Update user; only admins can change roles
+router.put('/:id', requireSelfOrAdmin, userController.updateUser);
 
 // DELETE /api/users/:id - Delete user
-router.delete('/:id', userController.deleteUser);
+router.delete('/:id', requireRole('admin'), userController.deleteUser);
 
-export default router; 
\ No newline at end of file
+// POST /api/users/:id/api-keys - Create an API key: { name }; the key is only returned here
+router.post('/:id/api-keys', requireSelfOrAdmin, userController.createApiKey);
+
+// DELETE /api/users/:id/api-keys/:keyId - Revoke an API key
+router.delete('/:id/api-keys/:keyId', requireSelfOrAdmin, userController.revokeApiKey);
+
+export default router;
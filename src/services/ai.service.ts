@@ -1,55 +1,87 @@
-import { OpenAI } from 'openai';
-import { DatabaseSchema } from '../types/schema.types';
-import { DatabaseContext, QueryResult, QueryIntent } from '../types/ai.types';
+import { DatabaseSchema, EnrichedField } from '../types/schema.types';
+import { DatabaseContext, QueryResult, QueryIntent, QueryAttempt, QueryAttemptOutcome } from '../types/ai.types';
+import { PolicyReport } from '../types/policy.types';
+import { ValidationReport } from '../types/validation.types';
+import { ConversationTurn } from '../types/session.types';
+import { RelationshipGraph } from '../types/relationship.types';
+import { ParsedQuery, QueryOperation, QueryResultType, ResultWindow } from '../types/query.types';
+import { Connection, ConnectionArtifacts } from '../types/connection.types';
+import { QueryExplain } from '../types/explain.types';
+import { CacheOutcome, CacheStatus } from '../types/cache.types';
+import { AuthenticatedUser } from '../types/auth.types';
 import * as fs from 'fs/promises';
 import path from 'path';
 import dotenv from 'dotenv';
 import { executeMongoQuery } from '../helpers/mongo.helper';
-import { generateAIResponse, generateIntentBasedQuery } from '../helpers/ai.helper';
-import { parseMongoQuery } from '../helpers/query.helper';
+import { generateAIResponse, generateIntentBasedQuery, repairMongoQuery } from '../helpers/ai.helper';
+import { parseMongoQuery, QueryParseError } from '../helpers/query.helper';
+import { normalizeDatabaseSchema } from '../helpers/schema.helper';
+import { hashKey } from '../helpers/cache.helper';
+import { validateQueryFields } from '../helpers/validation.helper';
+import { ScopeError } from '../helpers/scope.helper';
+import policyService from './policy.service';
+import clarificationService from './clarification.service';
+import llmService from './llm.service';
+import connectionService from './connection.service';
+import mongoService from './mongo.service';
+import explainService from './explain.service';
+import cacheService from './cache.service';
+import scopeService from './scope.service';
+import maskingService from './masking.service';
+import retrievalService from './retrieval.service';
+import exampleService from './example.service';
 import { analyzeQueryRequirements } from '../helpers/ai.helper';
 
 // Ensure environment variables are loaded
 dotenv.config();
 
+interface CandidateRun {
+  mongoQuery: string;
+  explanation?: string;
+  outcome: QueryAttemptOutcome;
+  error?: string;
+  policy?: PolicyReport;
+  validation?: ValidationReport;
+  // Set whenever the query executed, even if nothing matched
+  results?: any[];
+  operation?: QueryOperation;
+  resultType?: QueryResultType;
+  truncated?: boolean;
+  resultsCache?: { outcome: CacheOutcome; executedAt?: Date };
+  // Connection problems can't be fixed by rewriting the query
+  repairable?: boolean;
+}
+
 class AIService {
-  private openai: OpenAI;
-  private contextPath: string;
-  private schemaPath: string;
-  private analysisPath: string;
-
-  constructor() {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY is not set in environment variables');
+  private async loadSchemaAnalysis(artifacts: ConnectionArtifacts): Promise<DatabaseSchema | null> {
+    try {
+      const data = await fs.readFile(artifacts.analysisPath, 'utf-8');
+      return normalizeDatabaseSchema(JSON.parse(data));
+    } catch (error) {
+      return null;
     }
-
-    this.openai = new OpenAI({
-      apiKey
-    });
-
-    this.contextPath = path.join(__dirname, '../../data/context.json');
-    this.schemaPath = path.join(__dirname, '../../data/schema.json');
-    this.analysisPath = path.join(__dirname, '../../data/schema_analysis.json');
   }
 
-  private async loadSchemaAnalysis(): Promise<DatabaseSchema | null> {
+  private async loadRelationships(artifacts: ConnectionArtifacts): Promise<RelationshipGraph | undefined> {
     try {
-      const data = await fs.readFile(this.analysisPath, 'utf-8');
-      return JSON.parse(data);
+      return JSON.parse(await fs.readFile(artifacts.relationshipsPath, 'utf-8'));
     } catch (error) {
-      return null;
+      return undefined;
     }
   }
 
-  async saveSchema(schema: DatabaseSchema): Promise<void> {
-    await fs.mkdir(path.dirname(this.schemaPath), { recursive: true });
-    await fs.writeFile(this.schemaPath, JSON.stringify(schema, null, 2));
+  async saveSchema(connection: Connection, schema: DatabaseSchema): Promise<void> {
+    const { schemaPath } = connectionService.getArtifacts(connection);
+    await fs.mkdir(path.dirname(schemaPath), { recursive: true });
+    await fs.writeFile(schemaPath, JSON.stringify(schema, null, 2));
   }
 
-  async generateContext(schema: DatabaseSchema): Promise<DatabaseContext> {
-    const savedAnalysis = await this.loadSchemaAnalysis();
-    const schemaToUse = savedAnalysis || schema;
+  async generateContext(connection: Connection, schema?: DatabaseSchema): Promise<DatabaseContext> {
+    const artifacts = connectionService.getArtifacts(connection);
+    const schemaToUse = await this.loadSchemaAnalysis(artifacts) || schema;
+    if (!schemaToUse) {
+      throw new Error(`No schema analysis for connection "${connection.id}"; run /api/schema/analyze first`);
+    }
 
     const systemPrompt = `
     You are an expert MongoDB schema analyst and AI assistant specialized in understanding complex database structures.
@@ -74,57 +106,187 @@ class AIService {
     Format the response as a JSON object matching the DatabaseContext interface.
     `;
 
-    const completion = await this.openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      response_format: { type: "json_object" },
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ],
-      temperature: 0.5,
-    }).catch(error => {
+    const completion = await llmService.json<DatabaseContext>('contextGeneration', [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt }
+    ]).catch(error => {
       console.error('Error generating context:', error);
       throw error;
     });
 
-    const context: DatabaseContext = JSON.parse(completion.choices[0].message.content || '{}');
-    await fs.mkdir(path.dirname(this.contextPath), { recursive: true });
-    await fs.writeFile(this.contextPath, JSON.stringify(context, null, 2));
-    
+    const context = completion.content;
+    await fs.mkdir(path.dirname(artifacts.contextPath), { recursive: true });
+    await fs.writeFile(artifacts.contextPath, JSON.stringify(context, null, 2));
+    // Queries generated from the old context may no longer be the best answer
+    await cacheService.invalidate(connection.id);
+    await exampleService.seedFromContext(connection, context).catch(error => {
+      console.error('Failed to seed query examples from the context:', error);
+    });
+
     return context;
   }
 
-  async generateMongoQuery(query: string): Promise<QueryResult> {
+  // `intent` carries the user's answer to an earlier clarification question;
+  // when it is set the ambiguity check is skipped. `history` holds the earlier
+  // turns of a conversation so follow-up questions can refine them. The query
+  // is generated from, and runs against, the given connection only. Only the
+  // first `pageSize` documents are returned; later pages come from the run service.
+  // With `explain` the final query's plan and index suggestions are attached.
+  // `cache: false` skips both the generation and the result cache. `user` is
+  // who the query runs for.
+  async generateMongoQuery(
+    query: string,
+    connection: Connection,
+    options: {
+      intent?: QueryIntent;
+      history?: ConversationTurn[];
+      signal?: AbortSignal;
+      pageSize?: number;
+      explain?: boolean;
+      cache?: boolean;
+      user?: AuthenticatedUser;
+    } = {}
+  ): Promise<QueryResult> {
+    const { intent, history, signal, user } = options;
+    const window = { offset: 0, limit: options.pageSize || mongoService.maxResults };
+    const useCache = options.cache !== false && cacheService.enabled;
     try {
-      const context = JSON.parse(await fs.readFile(this.contextPath, 'utf-8'));
-      const savedAnalysis = await this.loadSchemaAnalysis();
-      const schema = savedAnalysis || JSON.parse(await fs.readFile(this.schemaPath, 'utf-8'));
+      const artifacts = connectionService.getArtifacts(connection);
+      const context = JSON.parse(await fs.readFile(artifacts.contextPath, 'utf-8'));
+      const savedAnalysis = await this.loadSchemaAnalysis(artifacts);
+      const schema: DatabaseSchema = savedAnalysis
+        || normalizeDatabaseSchema(JSON.parse(await fs.readFile(artifacts.schemaPath, 'utf-8')));
+      schema.relationships = schema.relationships || await this.loadRelationships(artifacts);
+
+      // A question asked before against the same schema and context reuses its query
+      const generationKey = cacheService.generationKey(query, hashKey(context, schema), intent, history);
+      const cached = useCache ? await cacheService.getGeneration(connection.id, generationKey) : null;
+      if (cached) {
+        const run = {
+          ...await this.runCandidate(cached.value.mongoQuery, connection, schema, true, window, useCache, signal, user),
+          explanation: cached.value.explanation
+        };
+        if (run.outcome === 'success') {
+          const attempts: QueryAttempt[] = [{
+            attempt: 1,
+            mongoQuery: run.mongoQuery,
+            explanation: run.explanation,
+            outcome: run.outcome,
+            resultCount: run.results?.length
+          }];
+          return this.successResult(run, attempts, connection, options, { generation: 'hit', generatedAt: cached.createdAt });
+        }
+        // The data, schema or policy moved on since it was cached; generate a fresh query
+        await cacheService.deleteGeneration(connection.id, generationKey);
+      }
+
+      // Prompts get the part of the schema the question needs; queries are
+      // still validated against all of it
+      const slice = await retrievalService.sliceSchema(connection, query, schema, context, { intent, history });
 
       // First, analyze if we can proceed with the query
-      // const analysis = await analyzeQueryRequirements(query, context, schema);
-      
-      // if (!analysis.canProceed) {
-      //   return {
-      //     mongoQuery: '',
-      //     explanation: analysis.reasoning,
-      //     results: [],
-      //     needsClarification: true,
-      //     clarificationMessage: analysis.suggestedClarification
-      //   };
-      // }
+      if (!intent && process.env.QUERY_CLARIFICATION !== 'false') {
+        const analysis = await analyzeQueryRequirements(query, slice.context, slice.schema, history);
+
+        if (analysis.canProceed === false) {
+          const clarification = clarificationService.create(query, analysis, connection.id, user?.id);
+          return {
+            mongoQuery: '',
+            explanation: analysis.reasoning,
+            results: [],
+            needsClarification: true,
+            clarificationMessage: clarification.question,
+            clarification
+          };
+        }
+      }
 
       // If we can proceed, generate the query
-      const response = await generateIntentBasedQuery(query, context, schema);
+      const examples = await exampleService.similar(connection.id, query);
+      const response = await generateIntentBasedQuery(query, slice.context, slice.schema, intent, history, examples);
       console.log('generateIntentBasedQuery()->:', response);
-      const { collectionName, operation, params } = parseMongoQuery(response.mongoQuery);
-      const results = await executeMongoQuery(collectionName, operation, params);
 
-      return {
-        mongoQuery: response.mongoQuery,
-        explanation: response.explanation,
-        results,
-        needsClarification: false
-      };
+      // Failed attempts go back to the model with the error until a query
+      // runs or the attempt budget is used up
+      const maxAttempts = Math.max(1, Number(process.env.QUERY_MAX_ATTEMPTS) || 3);
+      const retryOnEmpty = process.env.QUERY_RETRY_ON_EMPTY !== 'false';
+      const attempts: QueryAttempt[] = [];
+      let candidate: { mongoQuery: string; explanation?: string; fix?: string } = response;
+      let success: CandidateRun | null = null;
+      let lastRun: CandidateRun | null = null;
+
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        // Unknown fields are only fatal while there are attempts left to fix them:
+        // the analyzed schema comes from a sample and may miss rare fields
+        const enforceValidation = attempt < maxAttempts;
+        const run = {
+          ...await this.runCandidate(candidate.mongoQuery, connection, schema, enforceValidation, window, useCache, signal, user),
+          explanation: candidate.explanation
+        };
+        lastRun = run;
+        attempts.push({
+          attempt,
+          mongoQuery: candidate.mongoQuery,
+          explanation: candidate.explanation,
+          fix: candidate.fix,
+          outcome: run.outcome,
+          error: run.error,
+          resultCount: run.results?.length
+        });
+
+        if (run.results) {
+          success = run;
+          if (run.outcome === 'success' || !retryOnEmpty) break;
+        }
+        if (attempt === maxAttempts || run.repairable === false || signal?.aborted) break;
+
+        try {
+          candidate = await repairMongoQuery(query, slice.context, slice.schema, attempts, intent);
+          console.log('repairMongoQuery()->:', candidate);
+        } catch (repairError) {
+          break;
+        }
+      }
+
+      const final = success || lastRun!;
+
+      if (final.outcome === 'policy_violation') {
+        return {
+          mongoQuery: final.mongoQuery,
+          explanation: 'Query rejected by the read-only query policy',
+          results: [],
+          needsClarification: false,
+          policy: final.policy,
+          attempts
+        };
+      }
+
+      if (!final.results) {
+        return {
+          mongoQuery: final.mongoQuery,
+          explanation: 'Query execution failed: ' + final.error,
+          results: [],
+          needsClarification: false,
+          policy: final.policy,
+          validation: final.validation,
+          attempts
+        };
+      }
+
+      // Empty results aren't cached: the repair loop may not have been done with them
+      if (useCache && final.outcome === 'success') {
+        await cacheService.setGeneration(connection.id, generationKey, {
+          mongoQuery: final.mongoQuery,
+          explanation: final.explanation || response.explanation
+        });
+      }
+      return this.successResult(
+        { ...final, explanation: final.explanation || response.explanation },
+        attempts,
+        connection,
+        options,
+        { generation: useCache ? 'miss' : 'bypass' }
+      );
     } catch (error) {
       console.error('Query execution error:', error);
       return {
@@ -136,7 +298,142 @@ class AIService {
     }
   }
 
-  
+  private async successResult(
+    run: CandidateRun,
+    attempts: QueryAttempt[],
+    connection: Connection,
+    options: { intent?: QueryIntent; signal?: AbortSignal; explain?: boolean; user?: AuthenticatedUser },
+    cache: Omit<CacheStatus, 'results'>
+  ): Promise<QueryResult> {
+    return {
+      mongoQuery: run.mongoQuery,
+      explanation: run.explanation || '',
+      results: run.results || [],
+      operation: run.operation,
+      resultType: run.resultType,
+      truncated: run.truncated,
+      needsClarification: false,
+      intent: options.intent,
+      policy: run.policy,
+      validation: run.validation,
+      attempts,
+      explain: options.explain ? await this.explainQuery(run.mongoQuery, connection, options.signal, options.user) : undefined,
+      cache: {
+        ...cache,
+        results: run.resultsCache?.outcome || 'bypass',
+        executedAt: run.resultsCache?.executedAt
+      }
+    };
+  }
+
+  // A failed explain shouldn't cost the user the results it describes. The
+  // plan is for the query as it ran, with the user's scope applied.
+  private async explainQuery(
+    mongoQuery: string,
+    connection: Connection,
+    signal?: AbortSignal,
+    user?: AuthenticatedUser
+  ): Promise<QueryExplain | undefined> {
+    try {
+      const query = await scopeService.apply(parseMongoQuery(mongoQuery), connection.id, user);
+      return await explainService.explain(query, connection, signal);
+    } catch (error) {
+      console.error('Explain error:', error);
+      return undefined;
+    }
+  }
+
+  private async runCandidate(
+    mongoQuery: string,
+    connection: Connection,
+    schema: DatabaseSchema,
+    enforceValidation: boolean,
+    window: ResultWindow,
+    useCache: boolean,
+    signal?: AbortSignal,
+    user?: AuthenticatedUser
+  ): Promise<CandidateRun> {
+    let parsedQuery;
+    try {
+      parsedQuery = parseMongoQuery(mongoQuery);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const snippet = error instanceof QueryParseError ? `\n${error.snippet}` : '';
+      return { mongoQuery, outcome: 'parse_error', error: message + snippet };
+    }
+
+    const policy = await policyService.evaluate(parsedQuery);
+    if (!policy.allowed) {
+      return {
+        mongoQuery,
+        outcome: 'policy_violation',
+        error: policy.violations.map(v => `${v.message}${v.location ? ` (at ${v.location})` : ''}`).join('; '),
+        policy
+      };
+    }
+
+    const validation = validateQueryFields(parsedQuery, schema);
+    if (!validation.valid && enforceValidation) {
+      return {
+        mongoQuery,
+        outcome: 'validation_error',
+        error: validation.issues.map(issue => `${issue.message} (at ${issue.location})`).join('; '),
+        policy,
+        validation
+      };
+    }
+
+    // The user's row-level scope is added here, after the model is done with
+    // the query, so nothing it writes can leave it out
+    let scopedQuery: ParsedQuery;
+    try {
+      scopedQuery = await scopeService.apply(parsedQuery, connection.id, user);
+    } catch (error) {
+      if (!(error instanceof ScopeError)) throw error;
+      const scopePolicy: PolicyReport = {
+        allowed: false,
+        violations: [{ code: 'SCOPE_NOT_ENFORCEABLE', message: error.message, collection: parsedQuery.collectionName }]
+      };
+      return { mongoQuery, outcome: 'policy_violation', error: error.message, policy: scopePolicy, validation };
+    }
+
+    try {
+      const { execution, outcome: cacheOutcome, executedAt } = await cacheService.execute(
+        connection.id,
+        scopedQuery,
+        window,
+        () => executeMongoQuery(scopedQuery, connection, { signal, window, user }),
+        useCache
+      );
+      const { resultType, documents, truncated } = execution;
+      const sanitized = await policyService.sanitizeResults(parsedQuery, documents);
+      const results = await maskingService.maskResults(parsedQuery, sanitized, connection, user);
+      // A zero count is as suspicious as an empty list: the filter may not match the data
+      const empty = resultType === 'count' ? results[0]?.count === 0 : results.length === 0;
+      return {
+        mongoQuery,
+        outcome: empty ? 'empty_result' : 'success',
+        error: empty ? 'The query ran successfully but matched no documents' : undefined,
+        policy,
+        validation,
+        results,
+        operation: parsedQuery.operation as QueryOperation,
+        resultType,
+        truncated,
+        resultsCache: { outcome: cacheOutcome, executedAt }
+      };
+    } catch (error) {
+      const name = error instanceof Error ? error.name : '';
+      return {
+        mongoQuery,
+        outcome: 'execution_error',
+        error: error instanceof Error ? error.message : String(error),
+        policy,
+        validation,
+        repairable: !/MongoServerSelectionError|MongoNetworkError|MongoNetworkTimeoutError|QueryCancelledError/.test(name)
+      };
+    }
+  }
 
   async testOpenAI(): Promise<any> {
     const systemPrompt = `The user will provide some exam text. Please parse the "question" and "answer" and output them in JSON format. 
@@ -153,37 +450,27 @@ EXAMPLE JSON OUTPUT:
     const userPrompt = "Which is the longest river in the world? The Nile River.";
 
     try {
-      console.log('Making test API call to OpenAI...');
-      const completion = await this.openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt }
-        ],
-        response_format: { type: "json_object" }
-      });
-
-      console.log('Raw API Response:', completion);
-      
-      if (!completion.choices[0]?.message?.content) {
-        throw new Error('Empty response from OpenAI API');
-      }
+      const { provider, model } = llmService.getStepConfig('test');
+      console.log(`Making test API call to ${provider} (${model})...`);
+      const completion = await llmService.json('test', [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt }
+      ]);
 
-      const content = completion.choices[0].message.content;
-      console.log('Response content:', content);
+      console.log('Response content:', completion.content);
       
-      return JSON.parse(content);
+      return completion.content;
     } catch (error: any) {
-      console.error('OpenAI Test Error:', {
+      console.error('LLM Test Error:', {
         message: error.message,
         response: error.response?.data,
         status: error.response?.status
       });
-      throw new Error(`OpenAI test failed: ${error.message}`);
+      throw new Error(`LLM test failed: ${error.message}`);
     }
   }
 
-  async  enrichFieldsWithOpenAI(fields: any, collectionName: string) {
+  async  enrichFieldsWithOpenAI(fields: any, collectionName: string): Promise<EnrichedField[]> {
     const systemPrompt = `
       You are a MongoDB schema analysis expert. Your task is to analyze database fields and provide:
       1. Semantic Meaning: A concise, database-agnostic description of what each field represents, based on its name, data type, and structure.
@@ -220,83 +507,44 @@ EXAMPLE JSON OUTPUT:
       ]
     `;
   
-    const functions = [
-      {
-        name: "enrichField",
-        description: "Enriches fields with semantic meaning, importance, and tags.",
-        parameters: {
-          type: "object",
-          properties: {
-            enrichedFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  field: { type: "string" },
-                  semanticMeaning: { type: "string" },
-                  importance: { type: "integer", minimum: 1, maximum: 10 },
-                  tags: { type: "array", items: { type: "string" } }
-                },
-                required: ["field", "semanticMeaning", "importance", "tags"]
-              }
+    const enrichFunction = {
+      name: "enrichField",
+      description: "Enriches fields with semantic meaning, importance, and tags.",
+      parameters: {
+        type: "object",
+        properties: {
+          enrichedFields: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                field: { type: "string" },
+                semanticMeaning: { type: "string" },
+                importance: { type: "integer", minimum: 1, maximum: 10 },
+                tags: { type: "array", items: { type: "string" } }
+              },
+              required: ["field", "semanticMeaning", "importance", "tags"]
             }
-          },
-          required: ["enrichedFields"]
-        }
+          }
+        },
+        required: ["enrichedFields"]
       }
-    ];
+    };
   
     try {
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        functions,
-        function_call: { name: "enrichField" },
-        temperature: 0.3
-      });
+      const completion = await llmService.callFunction<{ enrichedFields?: EnrichedField[] }>('fieldEnrichment', [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ], enrichFunction);
   
-      return completion.choices[0]?.message?.function_call?.arguments
-        ? JSON.parse(completion.choices[0].message.function_call.arguments).enrichedFields
-        : [];
+      return completion.content.enrichedFields || [];
   
     } catch (error: unknown) {
       console.error('Error enriching fields:', error);
-  
-      // Type checking to handle errors safely
-      if (error instanceof Error) {
-        try {
-          const fallbackResponse = (error as any).response?.data?.choices?.[0]?.message?.content;
-  
-          if (fallbackResponse) {
-            const fixedContent = fallbackResponse
-              .replace(/(\w+):/g, '"$1":')    // Add quotes around property names
-              .replace(/,\s*}/g, '}')         // Remove trailing commas
-              .replace(/,\s*]/g, ']');        // Fix arrays
-  
-            return JSON.parse(fixedContent);
-          }
-        } catch (fallbackError) {
-          console.error('Failed to fix JSON:', fallbackError);
-          throw fallbackError;
-        }
-      }
-  
-      throw error; // Re-throw if not an instance of Error
+      throw error;
     }
   }  
   
 }
 
-// Create instance only if environment variables are properly loaded
-let aiService: AIService;
-try {
-  aiService = new AIService();
-} catch (error) {
-  console.error('Failed to initialize AIService:', error);
-  throw error;
-}
-
-export default aiService; 
\ No newline at end of file
+export default new AIService(); 
\ No newline at end of file
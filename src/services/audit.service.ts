@@ -0,0 +1,43 @@
+import { v4 as uuidv4 } from 'uuid';
+import { JsonlAuditStore } from '../stores/jsonl.store';
+import { MongoAuditStore } from '../stores/mongo.store';
+import { AuditEntry, AuditFilter, AuditStore, AuditStoreName } from '../types/audit.types';
+
+const STORE_NAMES: AuditStoreName[] = ['jsonl', 'mongo'];
+
+function createStore(name = process.env.AUDIT_STORE || 'jsonl'): AuditStore {
+  if (!STORE_NAMES.includes(name as AuditStoreName)) {
+    throw new Error(`AUDIT_STORE must be one of ${STORE_NAMES.join(', ')}, got "${name}"`);
+  }
+  return name === 'mongo' ? new MongoAuditStore() : new JsonlAuditStore();
+}
+
+class AuditService {
+  private store: AuditStore | null = null;
+
+  get enabled(): boolean {
+    return process.env.AUDIT_ENABLED !== 'false';
+  }
+
+  private getStore(): AuditStore {
+    if (!this.store) this.store = createStore();
+    return this.store;
+  }
+
+  // A failing audit store is logged loudly but doesn't fail the request it describes
+  async record(entry: Omit<AuditEntry, 'id' | 'timestamp'>): Promise<void> {
+    if (!this.enabled) return;
+    const full: AuditEntry = { id: uuidv4(), timestamp: new Date(), ...entry };
+    try {
+      await this.getStore().append(full);
+    } catch (error) {
+      console.error('Audit write failed:', error, JSON.stringify(full));
+    }
+  }
+
+  async find(filter: AuditFilter): Promise<AuditEntry[]> {
+    return this.getStore().find(filter);
+  }
+}
+
+export default new AuditService();
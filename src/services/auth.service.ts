@@ -0,0 +1,86 @@
+import crypto from 'crypto';
+import { isApiKey, signToken, verifyToken } from '../helpers/auth.helper';
+import { envNumber } from '../helpers/config.helper';
+import { AuthenticatedUser, AuthMethod, LoginResult } from '../types/auth.types';
+import { User } from '../types/user.types';
+import userService from './user.service';
+
+export class AuthError extends Error {
+  constructor(message: string, public status = 401) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+function authenticated(user: User, method: AuthMethod): AuthenticatedUser {
+  return { id: user.id, name: user.name, email: user.email, role: user.role, method };
+}
+
+// Stands in for every caller while AUTH_ENABLED=false
+const ANONYMOUS_ADMIN: AuthenticatedUser = {
+  id: 'anonymous',
+  name: 'Anonymous',
+  email: '',
+  role: 'admin',
+  method: 'disabled'
+};
+
+class AuthService {
+  private generatedSecret: string | null = null;
+
+  get enabled(): boolean {
+    return process.env.AUTH_ENABLED !== 'false';
+  }
+
+  get tokenTtlSeconds(): number {
+    return envNumber('AUTH_TOKEN_TTL_SECONDS', 8 * 60 * 60);
+  }
+
+  // Without AUTH_SECRET tokens are signed with a per-process key and stop working on restart
+  private get secret(): string {
+    if (process.env.AUTH_SECRET) return process.env.AUTH_SECRET;
+    if (!this.generatedSecret) {
+      console.warn('AUTH_SECRET is not set; issued tokens will not survive a restart');
+      this.generatedSecret = crypto.randomBytes(32).toString('hex');
+    }
+    return this.generatedSecret;
+  }
+
+  async login(email: unknown, password: unknown): Promise<LoginResult> {
+    if (typeof email !== 'string' || typeof password !== 'string') {
+      throw new AuthError('email and password are required', 400);
+    }
+    const user = await userService.verifyCredentials(email, password);
+    if (!user) throw new AuthError('Invalid email or password');
+
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const expiresAt = issuedAt + this.tokenTtlSeconds;
+    return {
+      token: signToken({ sub: user.id, role: user.role, iat: issuedAt, exp: expiresAt }, this.secret),
+      expiresAt: new Date(expiresAt * 1000),
+      user: authenticated(user, 'token')
+    };
+  }
+
+  // Resolves a bearer token or API key to the user it belongs to. The user is
+  // looked up on every request, so role changes and deletions apply to
+  // tokens that are already out.
+  async authenticate(credential: string | undefined): Promise<AuthenticatedUser> {
+    if (!this.enabled) return ANONYMOUS_ADMIN;
+    if (!credential) throw new AuthError('Authentication required');
+
+    if (isApiKey(credential)) {
+      const user = await userService.findByApiKey(credential);
+      if (!user) throw new AuthError('Invalid API key');
+      return authenticated(user, 'api_key');
+    }
+
+    const payload = verifyToken(credential, this.secret);
+    if (!payload) throw new AuthError('Invalid or expired token');
+    const user = await userService.getUserById(payload.sub);
+    if (!user) throw new AuthError('Invalid or expired token');
+    return authenticated(user, 'token');
+  }
+}
+
+export default new AuthService();
@@ -0,0 +1,111 @@
+import { hashKey, normalizeQuestion, queryCacheKey } from '../helpers/cache.helper';
+import { envNumber } from '../helpers/config.helper';
+import { MemoryCacheStore } from '../stores/memory.store';
+import { FileCacheStore } from '../stores/file.store';
+import { QueryIntent } from '../types/ai.types';
+import { CachedGeneration, CacheEntry, CacheOutcome, CacheStore, CacheStoreName } from '../types/cache.types';
+import { ParsedQuery, QueryExecution, ResultWindow } from '../types/query.types';
+import { ConversationTurn } from '../types/session.types';
+
+const STORE_NAMES: CacheStoreName[] = ['memory', 'file'];
+
+function createStore(name = process.env.CACHE_STORE || 'memory'): CacheStore {
+  if (!STORE_NAMES.includes(name as CacheStoreName)) {
+    throw new Error(`CACHE_STORE must be one of ${STORE_NAMES.join(', ')}, got "${name}"`);
+  }
+  return name === 'file' ? new FileCacheStore() : new MemoryCacheStore(envNumber('CACHE_MAX_ENTRIES', 500));
+}
+
+/**
+ * Two levels: queries the LLM generated for a question, and the documents a
+ * parsed query returned. A broken store never fails a request; it only misses.
+ */
+class CacheService {
+  private store: CacheStore | null = null;
+
+  get enabled(): boolean {
+    return process.env.CACHE_ENABLED !== 'false';
+  }
+
+  private getStore(): CacheStore {
+    if (!this.store) this.store = createStore();
+    return this.store;
+  }
+
+  // `fingerprint` identifies the schema and context the query was generated from
+  generationKey(question: string, fingerprint: string, intent?: QueryIntent, history?: ConversationTurn[]): string {
+    return hashKey(
+      normalizeQuestion(question),
+      fingerprint,
+      intent || null,
+      (history || []).map(turn => turn.mongoQuery)
+    );
+  }
+
+  async getGeneration(connectionId: string, key: string): Promise<CacheEntry<CachedGeneration> | null> {
+    return this.read(`generations/${connectionId}`, key);
+  }
+
+  async setGeneration(connectionId: string, key: string, generation: CachedGeneration): Promise<void> {
+    await this.write(`generations/${connectionId}`, key, generation, envNumber('LLM_CACHE_TTL_MS', 24 * 60 * 60 * 1000));
+  }
+
+  async deleteGeneration(connectionId: string, key: string): Promise<void> {
+    try {
+      await this.getStore().delete(`generations/${connectionId}`, key);
+    } catch (error) {
+      console.error('Cache delete error:', error);
+    }
+  }
+
+  // Runs `execute` unless the same query and window ran within QUERY_RESULT_CACHE_TTL_MS
+  async execute(
+    connectionId: string,
+    query: ParsedQuery,
+    window: ResultWindow,
+    execute: () => Promise<QueryExecution>,
+    useCache = this.enabled
+  ): Promise<{ execution: QueryExecution; outcome: CacheOutcome; executedAt?: Date }> {
+    if (!useCache) return { execution: await execute(), outcome: 'bypass' };
+
+    const namespace = `results/${connectionId}`;
+    const key = queryCacheKey(query, window);
+    const cached = await this.read<QueryExecution>(namespace, key);
+    if (cached) return { execution: cached.value, outcome: 'hit', executedAt: cached.createdAt };
+
+    const execution = await execute();
+    await this.write(namespace, key, execution, envNumber('QUERY_RESULT_CACHE_TTL_MS', 60 * 1000));
+    return { execution, outcome: 'miss' };
+  }
+
+  // Called when the connection's schema or context is regenerated
+  async invalidate(connectionId: string): Promise<void> {
+    try {
+      await Promise.all([
+        this.getStore().clear(`generations/${connectionId}`),
+        this.getStore().clear(`results/${connectionId}`)
+      ]);
+    } catch (error) {
+      console.error('Cache invalidation error:', error);
+    }
+  }
+
+  private async read<T>(namespace: string, key: string): Promise<CacheEntry<T> | null> {
+    try {
+      return await this.getStore().get<T>(namespace, key);
+    } catch (error) {
+      console.error('Cache read error:', error);
+      return null;
+    }
+  }
+
+  private async write<T>(namespace: string, key: string, value: T, ttlMs: number): Promise<void> {
+    try {
+      await this.getStore().set(namespace, key, value, ttlMs);
+    } catch (error) {
+      console.error('Cache write error:', error);
+    }
+  }
+}
+
+export default new CacheService();
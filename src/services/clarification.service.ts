@@ -0,0 +1,114 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ClarificationOption,
+  ClarificationResponse,
+  QueryIntent,
+  RequirementsAnalysis
+} from '../types/ai.types';
+
+interface PendingClarification {
+  id: string;
+  // Only the user who asked can answer, and only against the same connection
+  connectionId: string;
+  userId?: string;
+  query: string;
+  question: string;
+  options: ClarificationOption[];
+  createdAt: Date;
+}
+
+export class ClarificationError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'ClarificationError';
+  }
+}
+
+const CLARIFICATION_TTL_MS = 30 * 60 * 1000;
+
+class ClarificationService {
+  private pending = new Map<string, PendingClarification>();
+
+  create(query: string, analysis: RequirementsAnalysis, connectionId: string, userId?: string): ClarificationResponse {
+    this.removeExpired();
+
+    const options = (analysis.options || [])
+      .filter(option => option && option.label)
+      .map((option, index) => ({ ...option, id: option.id || `option-${index + 1}` }));
+    const pending: PendingClarification = {
+      id: uuidv4(),
+      connectionId,
+      userId,
+      query,
+      question: analysis.suggestedClarification || analysis.reasoning || 'Could you clarify your request?',
+      options,
+      createdAt: new Date()
+    };
+    this.pending.set(pending.id, pending);
+
+    return {
+      needsClarification: true,
+      clarificationId: pending.id,
+      question: pending.question,
+      options
+    };
+  }
+
+  // Accepts either one of the offered option ids or a free-text answer. Another
+  // user's clarification looks like it doesn't exist; one asked on another
+  // connection can't be answered on this one.
+  resolve(
+    clarificationId: string,
+    choice: string | undefined,
+    answer: string | undefined,
+    connectionId: string,
+    userId?: string
+  ): QueryIntent {
+    this.removeExpired();
+
+    const pending = this.pending.get(clarificationId);
+    if (!pending || (pending.userId && pending.userId !== userId)) {
+      throw new ClarificationError('Clarification not found or expired', 404);
+    }
+    if (pending.connectionId !== connectionId) {
+      throw new ClarificationError(`Clarification belongs to connection "${pending.connectionId}"`);
+    }
+
+    let intent: QueryIntent;
+    if (choice) {
+      const option = pending.options.find(o => o.id === choice);
+      if (!option) {
+        throw new ClarificationError(
+          `Unknown choice "${choice}". Expected one of: ${pending.options.map(o => o.id).join(', ')}`
+        );
+      }
+      intent = {
+        isAmbiguous: false,
+        type: option.intentType,
+        originalQuery: pending.query,
+        interpretation: option.description ? `${option.label}: ${option.description}` : option.label,
+        collections: option.collections
+      };
+    } else if (answer && answer.trim()) {
+      intent = {
+        isAmbiguous: false,
+        originalQuery: pending.query,
+        interpretation: answer.trim()
+      };
+    } else {
+      throw new ClarificationError('Either choice or answer is required to resolve a clarification');
+    }
+
+    this.pending.delete(clarificationId);
+    return intent;
+  }
+
+  private removeExpired() {
+    const cutoff = Date.now() - CLARIFICATION_TTL_MS;
+    for (const [id, pending] of this.pending) {
+      if (pending.createdAt.getTime() < cutoff) this.pending.delete(id);
+    }
+  }
+}
+
+export default new ClarificationService();
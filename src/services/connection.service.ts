@@ -0,0 +1,146 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Connection, ConnectionArtifacts, CreateConnectionDto } from '../types/connection.types';
+import mongoService from './mongo.service';
+import cacheService from './cache.service';
+
+export const DEFAULT_CONNECTION_ID = 'default';
+
+const CONNECTION_ID = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+export class ConnectionError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'ConnectionError';
+  }
+}
+
+class ConnectionService {
+  private dataDir: string;
+  private registryPath: string;
+  private connections = new Map<string, Connection>();
+  private loaded = false;
+  private startedAt = new Date();
+
+  constructor() {
+    this.dataDir = path.join(__dirname, '../../data');
+    this.registryPath = path.join(this.dataDir, 'connections.json');
+  }
+
+  private async loadConnections(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    try {
+      const connections: Connection[] = JSON.parse(await fs.readFile(this.registryPath, 'utf-8'));
+      connections.forEach(connection => this.connections.set(connection.id, connection));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return;
+      // Retried on the next call rather than served, or saved over, as an empty registry
+      this.loaded = false;
+      throw error;
+    }
+  }
+
+  private async saveConnections(): Promise<void> {
+    await fs.mkdir(this.dataDir, { recursive: true });
+    await fs.writeFile(this.registryPath, JSON.stringify(Array.from(this.connections.values()), null, 2));
+  }
+
+  // The default connection comes from MONGODB_URI and is not stored in the registry
+  private defaultConnection(): Connection | null {
+    if (!process.env.MONGODB_URI) return null;
+    return {
+      id: DEFAULT_CONNECTION_ID,
+      name: 'Default (MONGODB_URI)',
+      uri: process.env.MONGODB_URI,
+      createdAt: this.startedAt,
+      updatedAt: this.startedAt
+    };
+  }
+
+  async getAllConnections(): Promise<Connection[]> {
+    await this.loadConnections();
+    const fallback = this.defaultConnection();
+    return [...(fallback ? [fallback] : []), ...this.connections.values()];
+  }
+
+  // Resolves the connection a request targets; requests without an id use the default one.
+  async getConnection(id: string = DEFAULT_CONNECTION_ID): Promise<Connection> {
+    await this.loadConnections();
+    if (id === DEFAULT_CONNECTION_ID) {
+      const fallback = this.defaultConnection();
+      if (!fallback) {
+        throw new ConnectionError('No default connection: set MONGODB_URI or pass a connectionId', 404);
+      }
+      return fallback;
+    }
+
+    const connection = this.connections.get(id);
+    if (!connection) throw new ConnectionError(`Connection "${id}" not found`, 404);
+    return connection;
+  }
+
+  async createConnection(data: CreateConnectionDto): Promise<Connection> {
+    await this.loadConnections();
+    if (!data.uri) throw new ConnectionError('MongoDB URI is required');
+
+    const id = data.id || uuidv4();
+    if (!CONNECTION_ID.test(id)) {
+      throw new ConnectionError('Connection ids may only contain letters, digits, "-" and "_"');
+    }
+    if (id === DEFAULT_CONNECTION_ID || this.connections.has(id)) {
+      throw new ConnectionError(`Connection "${id}" already exists`, 409);
+    }
+
+    const now = new Date();
+    const connection: Connection = {
+      id,
+      name: data.name || data.databaseName || id,
+      uri: data.uri,
+      databaseName: data.databaseName,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.connections.set(id, connection);
+    await this.saveConnections();
+    return connection;
+  }
+
+  // Removes the connection and everything analyzed for it
+  async deleteConnection(id: string): Promise<boolean> {
+    await this.loadConnections();
+    if (id === DEFAULT_CONNECTION_ID) {
+      throw new ConnectionError('The default connection is configured through MONGODB_URI');
+    }
+    const connection = this.connections.get(id);
+    if (!connection) return false;
+
+    this.connections.delete(id);
+    await this.saveConnections();
+    // The pooled client may still serve another connection to the same URI
+    const shared = (await this.getAllConnections()).some(other => other.uri === connection.uri);
+    if (!shared) await mongoService.close(connection.uri);
+    await fs.rm(this.getArtifacts(connection).dir, { recursive: true, force: true });
+    await cacheService.invalidate(id);
+    return true;
+  }
+
+  // The default connection keeps the original top-level files in data/
+  getArtifacts(connection: Connection): ConnectionArtifacts {
+    const dir = connection.id === DEFAULT_CONNECTION_ID
+      ? this.dataDir
+      : path.join(this.dataDir, 'connections', connection.id);
+    return {
+      dir,
+      analysisPath: path.join(dir, 'schema_analysis.json'),
+      relationshipsPath: path.join(dir, 'relationships.json'),
+      contextPath: path.join(dir, 'context.json'),
+      schemaPath: path.join(dir, 'schema.json'),
+      snapshotsDir: path.join(dir, 'schema_snapshots')
+    };
+  }
+}
+
+export default new ConnectionService();
@@ -0,0 +1,331 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import { BSON } from 'mongodb';
+import {
+  fieldPathValidity,
+  parseExpected,
+  queryShapeIssues,
+  resultsMatch,
+  summarize,
+  summarizeByTag
+} from '../helpers/eval.helper';
+import { parseMongoQuery } from '../helpers/query.helper';
+import { normalizeDatabaseSchema } from '../helpers/schema.helper';
+import { QueryResult } from '../types/ai.types';
+import { AuthenticatedUser } from '../types/auth.types';
+import { Connection } from '../types/connection.types';
+import {
+  EvalCase,
+  EvalCaseResult,
+  EvalConfig,
+  EvalDataset,
+  EvalOutcome,
+  EvalReport
+} from '../types/eval.types';
+import { ExampleEntry } from '../types/example.types';
+import { ParsedQuery } from '../types/query.types';
+import { DatabaseSchema } from '../types/schema.types';
+import aiService from './ai.service';
+import connectionService from './connection.service';
+import exampleService from './example.service';
+import llmService from './llm.service';
+import mongoService from './mongo.service';
+import schemaService from './schema.service';
+
+export class EvalError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'EvalError';
+  }
+}
+
+// Cases run as an admin so masking rules don't hide the values being compared
+const EVAL_USER: AuthenticatedUser = {
+  id: 'eval',
+  name: 'Evaluation',
+  email: '',
+  role: 'admin',
+  method: 'disabled'
+};
+
+const SECRET_NAME = /KEY|SECRET|TOKEN|PASSWORD/i;
+
+// Databases fixtures may replace collections in without --allow-drop
+const EVAL_DATABASE = /^eval[_-]/;
+
+function slug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'dataset';
+}
+
+interface LoadedDataset {
+  dataset: EvalDataset;
+  // Directory the dataset's relative paths resolve against
+  dir: string;
+}
+
+// A started mongodb-memory-server, when no MongoDB was given
+interface MemoryServer {
+  getUri(): string;
+  stop(): Promise<unknown>;
+}
+
+/**
+ * Offline evaluation: loads a golden dataset's fixture documents into an
+ * evaluation database, asks every question through the same
+ * generate → parse → execute pipeline the API uses, and scores the answers
+ * against the expected results and query shape. Each run uses one
+ * configuration, applied through the environment, so two prompt or model
+ * setups can be compared on the same dataset.
+ */
+class EvalService {
+  async loadDataset(file: string): Promise<LoadedDataset> {
+    let dataset: EvalDataset;
+    try {
+      dataset = JSON.parse(await fs.readFile(file, 'utf-8'));
+    } catch (error: any) {
+      throw new EvalError(`Could not read dataset ${file}: ${error.message}`);
+    }
+    if (!dataset?.name || typeof dataset.name !== 'string') throw new EvalError('The dataset needs a name');
+    if (!dataset.fixtures || typeof dataset.fixtures !== 'object') throw new EvalError('The dataset needs fixtures');
+    if (!Array.isArray(dataset.cases) || !dataset.cases.length) throw new EvalError('The dataset has no cases');
+
+    const ids = new Set<string>();
+    for (const [index, testCase] of dataset.cases.entries()) {
+      if (!testCase?.id || !testCase.question) throw new EvalError(`Case ${index} needs an id and a question`);
+      if (ids.has(testCase.id)) throw new EvalError(`Case id "${testCase.id}" is used twice`);
+      if (!testCase.expected?.results && !testCase.expected?.query) {
+        throw new EvalError(`Case "${testCase.id}" expects neither results nor a query shape`);
+      }
+      ids.add(testCase.id);
+    }
+    return { dataset, dir: path.dirname(path.resolve(file)) };
+  }
+
+  async loadConfig(file: string): Promise<EvalConfig> {
+    let config: EvalConfig;
+    try {
+      config = JSON.parse(await fs.readFile(file, 'utf-8'));
+    } catch (error: any) {
+      throw new EvalError(`Could not read config ${file}: ${error.message}`);
+    }
+    if (!config?.name) config = { ...config, name: path.basename(file, path.extname(file)) };
+    if (config.env && Object.values(config.env).some(value => typeof value !== 'string')) {
+      throw new EvalError(`Config "${config.name}" may only set string environment variables`);
+    }
+    return config;
+  }
+
+  // Runs every case of the dataset with `config`. The run's connection,
+  // artifacts and examples are removed afterwards; the fixture collections
+  // stay in the database until the next run replaces them. Fixtures only go
+  // into an eval_ database or the run's own memory server unless `allowDrop`.
+  async run(
+    file: string,
+    config: EvalConfig = { name: 'default' },
+    mongoUri?: string,
+    options: { allowDrop?: boolean } = {}
+  ): Promise<EvalReport> {
+    const { dataset, dir } = await this.loadDataset(file);
+    const uri = mongoUri || process.env.EVAL_MONGODB_URI;
+    const databaseName = this.databaseName(dataset);
+    if (uri && !options.allowDrop && !EVAL_DATABASE.test(databaseName)) {
+      throw new EvalError(`Loading fixtures would replace collections in "${databaseName}": `
+        + 'use a database named eval_* or pass --allow-drop');
+    }
+
+    return this.withEnv(config.env || {}, async () => {
+      const startedAt = new Date();
+      const server = uri ? null : await this.startMemoryServer();
+      const connection = await this.openConnection(dataset, uri || server!.getUri());
+      try {
+        await this.loadFixtures(connection, dataset, dir);
+        const schema = await this.prepareArtifacts(connection, dataset, dir);
+
+        const cases: EvalCaseResult[] = [];
+        for (const testCase of dataset.cases) {
+          console.log(`[${config.name}] ${testCase.id}: ${testCase.question}`);
+          cases.push(await this.runCase(testCase, connection, schema));
+        }
+
+        return {
+          dataset: dataset.name,
+          config: { name: config.name, env: config.env && this.maskEnv(config.env) },
+          llm: llmService.getConfig(),
+          startedAt,
+          finishedAt: new Date(),
+          metrics: summarize(cases),
+          byTag: summarizeByTag(cases),
+          cases
+        };
+      } finally {
+        await this.closeConnection(connection.id);
+        await server?.stop();
+      }
+    });
+  }
+
+  private async runCase(testCase: EvalCase, connection: Connection, schema: DatabaseSchema): Promise<EvalCaseResult> {
+    const startedAt = Date.now();
+    const { result, calls } = await llmService.trackUsage(() => aiService.generateMongoQuery(testCase.question, connection, {
+      intent: testCase.intent,
+      cache: false,
+      pageSize: mongoService.maxResults,
+      user: EVAL_USER
+    }));
+    const durationMs = Date.now() - startedAt;
+    const outcome = this.outcome(result);
+    const executed = outcome === 'success' || outcome === 'empty_result';
+
+    let query: ParsedQuery | null = null;
+    try {
+      query = result.mongoQuery ? parseMongoQuery(result.mongoQuery) : null;
+    } catch (error) {
+      // Scored as a query without valid field paths below
+    }
+
+    const { expected } = testCase;
+    const matched = expected.results
+      ? executed && resultsMatch(result.results, parseExpected(expected.results), expected.ordered)
+      : null;
+    const shapeIssues = !expected.query ? []
+      : query ? queryShapeIssues(query, expected.query)
+      : ['No query could be parsed'];
+    const shapeMatch = expected.query ? !shapeIssues.length : null;
+
+    return {
+      id: testCase.id,
+      question: testCase.question,
+      tags: testCase.tags,
+      outcome,
+      mongoQuery: result.mongoQuery,
+      resultsMatch: matched,
+      shapeMatch,
+      shapeIssues,
+      fieldPaths: query ? fieldPathValidity(query, schema)
+        : result.mongoQuery ? { total: 1, invalid: ['(unparseable query)'] } : { total: 0, invalid: [] },
+      correct: executed && matched !== false && shapeMatch !== false,
+      attempts: result.attempts?.length || 0,
+      resultCount: result.results.length,
+      tokens: calls.reduce((sum, call) => sum + (call.usage?.totalTokens || 0), 0),
+      durationMs,
+      error: executed ? undefined : result.clarificationMessage || result.explanation
+    };
+  }
+
+  private outcome(result: QueryResult): EvalOutcome {
+    if (result.needsClarification) return 'clarification';
+    if (result.policy && !result.policy.allowed) return 'policy_violation';
+    if (!result.operation) return 'error';
+    return result.results.length ? 'success' : 'empty_result';
+  }
+
+  // Applies `env` for the duration of `fn`; the model setup is re-read from it
+  private async withEnv<T>(env: { [name: string]: string }, fn: () => Promise<T>): Promise<T> {
+    const previous = Object.fromEntries(Object.keys(env).map(name => [name, process.env[name]]));
+    Object.assign(process.env, env);
+    llmService.configure();
+    try {
+      return await fn();
+    } finally {
+      for (const [name, value] of Object.entries(previous)) {
+        if (value === undefined) delete process.env[name];
+        else process.env[name] = value;
+      }
+      llmService.configure();
+    }
+  }
+
+  private maskEnv(env: { [name: string]: string }): { [name: string]: string } {
+    return Object.fromEntries(Object.entries(env).map(([name, value]) => [name, SECRET_NAME.test(name) ? '***' : value]));
+  }
+
+  // mongodb-memory-server is a dev dependency, so production installs need a MongoDB
+  private async startMemoryServer(): Promise<MemoryServer> {
+    let MongoMemoryServer: { create(): Promise<MemoryServer> };
+    try {
+      ({ MongoMemoryServer } = require('mongodb-memory-server'));
+    } catch (error) {
+      throw new EvalError('No MongoDB to load fixtures into: pass --mongo-uri, set EVAL_MONGODB_URI or install the dev dependencies');
+    }
+    return MongoMemoryServer.create();
+  }
+
+  // The run gets its own connection, replacing one left behind by an interrupted run
+  private async openConnection(dataset: EvalDataset, uri: string): Promise<Connection> {
+    const id = `eval-${slug(dataset.name)}`;
+    await this.closeConnection(id);
+    return connectionService.createConnection({
+      id,
+      name: `Evaluation: ${dataset.name}`,
+      uri,
+      databaseName: this.databaseName(dataset)
+    });
+  }
+
+  private databaseName(dataset: EvalDataset): string {
+    return dataset.databaseName || `eval_${slug(dataset.name).replace(/-/g, '_')}`;
+  }
+
+  private async closeConnection(id: string): Promise<void> {
+    for (const example of await exampleService.getAll(id)) {
+      await exampleService.delete(example.id);
+    }
+    await connectionService.deleteConnection(id);
+  }
+
+  // Only the fixture collections are replaced; anything else in the database stays
+  private async loadFixtures(connection: Connection, dataset: EvalDataset, dir: string): Promise<void> {
+    const db = await mongoService.getDb(connection);
+    for (const [name, fixture] of Object.entries(dataset.fixtures)) {
+      const documents = typeof fixture === 'string'
+        ? BSON.EJSON.parse(await this.readFile(dir, fixture))
+        : BSON.EJSON.deserialize(fixture);
+      if (!Array.isArray(documents)) throw new EvalError(`Fixtures of "${name}" must be an array of documents`);
+
+      await db.collection(name).drop().catch(() => undefined);
+      if (documents.length) await db.collection(name).insertMany(documents);
+    }
+  }
+
+  // Writes the schema analysis, context and examples the pipeline reads, from
+  // the dataset where it has them and from the fixtures otherwise
+  private async prepareArtifacts(connection: Connection, dataset: EvalDataset, dir: string): Promise<DatabaseSchema> {
+    const artifacts = connectionService.getArtifacts(connection);
+    const analysis = dataset.schema
+      ? normalizeDatabaseSchema(JSON.parse(await this.readFile(dir, dataset.schema)))
+      : await schemaService.analyzeDatabase({ uri: connection.uri, databaseName: connection.databaseName });
+    const { relationships, ...schema } = analysis;
+    await fs.mkdir(artifacts.dir, { recursive: true });
+    await fs.writeFile(artifacts.analysisPath, JSON.stringify(schema, null, 2));
+    if (relationships) await fs.writeFile(artifacts.relationshipsPath, JSON.stringify(relationships, null, 2));
+
+    if (dataset.context) {
+      const context = JSON.parse(await this.readFile(dir, dataset.context));
+      await fs.writeFile(artifacts.contextPath, JSON.stringify(context, null, 2));
+      await exampleService.seedFromContext(connection, context);
+    } else {
+      await aiService.generateContext(connection);
+    }
+
+    if (dataset.examples) {
+      const entries: ExampleEntry[] = typeof dataset.examples === 'string'
+        ? JSON.parse(await this.readFile(dir, dataset.examples))
+        : dataset.examples;
+      const imported = await exampleService.import(connection.id, entries);
+      for (const skipped of imported.skipped) {
+        console.warn(`Skipped example ${skipped.index} (${skipped.question}): ${skipped.error}`);
+      }
+    }
+    return analysis;
+  }
+
+  private async readFile(dir: string, file: string): Promise<string> {
+    try {
+      return await fs.readFile(path.resolve(dir, file), 'utf-8');
+    } catch (error: any) {
+      throw new EvalError(`Could not read ${file}: ${error.message}`);
+    }
+  }
+}
+
+export default new EvalService();
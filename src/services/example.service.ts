@@ -0,0 +1,289 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { normalizeQuestion } from '../helpers/cache.helper';
+import { envNumber } from '../helpers/config.helper';
+import { parseMongoQuery } from '../helpers/query.helper';
+import { validateQueryFields } from '../helpers/validation.helper';
+import { DatabaseContext } from '../types/ai.types';
+import { AuthenticatedUser } from '../types/auth.types';
+import { Connection } from '../types/connection.types';
+import {
+  CreateExampleDto,
+  ExampleEntry,
+  ExampleImportResult,
+  ExampleSource,
+  QueryExample
+} from '../types/example.types';
+import { DatabaseSchema } from '../types/schema.types';
+import connectionService, { DEFAULT_CONNECTION_ID } from './connection.service';
+import policyService from './policy.service';
+import retrievalService from './retrieval.service';
+import runService from './run.service';
+import sessionService from './session.service';
+import snapshotService from './snapshot.service';
+
+export class ExampleError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'ExampleError';
+  }
+}
+
+// Generated contexts hold "Question: db.collection.find(...)" strings, or
+// objects with the question and query under varying names, in a list or
+// keyed by a name for the query
+function sampleEntry(sample: any, name?: string): ExampleEntry | null {
+  if (typeof sample === 'string') {
+    const start = sample.search(/\bdb\.[\w$]/);
+    if (start <= 0) return null;
+    const question = sample.slice(0, start).replace(/[\s:=>\-–—]+$/, '').trim();
+    return question ? { question, mongoQuery: sample.slice(start).trim() } : null;
+  }
+  if (!sample || typeof sample !== 'object') return null;
+  const question = sample.question || sample.description || sample.intent || sample.naturalLanguage
+    || name?.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').toLowerCase();
+  const mongoQuery = sample.mongoQuery || sample.query;
+  return typeof question === 'string' && typeof mongoQuery === 'string' ? { question, mongoQuery } : null;
+}
+
+/**
+ * Question→query pairs known to work, one file per example in
+ * data/query_examples. The ones closest to a new question go into the
+ * generation prompt as demonstrations. Every example is checked against the
+ * parser, the policy and the schema before it's kept.
+ */
+class ExampleService {
+  private examplesDir = path.join(__dirname, '../../data/query_examples');
+  private examples = new Map<string, QueryExample>();
+  private loaded = false;
+
+  get enabled(): boolean {
+    return process.env.EXAMPLES_ENABLED !== 'false';
+  }
+
+  private async loadExamples(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    let files: string[];
+    try {
+      files = await fs.readdir(this.examplesDir);
+    } catch (error) {
+      return;
+    }
+
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      try {
+        const example: QueryExample = JSON.parse(await fs.readFile(path.join(this.examplesDir, file), 'utf-8'));
+        this.examples.set(example.id, example);
+      } catch (error) {
+        console.error(`Skipping unreadable query example file ${file}:`, error);
+      }
+    }
+  }
+
+  private async saveExample(example: QueryExample): Promise<void> {
+    await fs.mkdir(this.examplesDir, { recursive: true });
+    await fs.writeFile(path.join(this.examplesDir, `${example.id}.json`), JSON.stringify(example, null, 2));
+  }
+
+  private async removeExample(id: string): Promise<boolean> {
+    if (!this.examples.delete(id)) return false;
+    await fs.rm(path.join(this.examplesDir, `${id}.json`), { force: true });
+    return true;
+  }
+
+  async getAll(connectionId?: string): Promise<QueryExample[]> {
+    await this.loadExamples();
+    return Array.from(this.examples.values())
+      .filter(example => !connectionId || example.connectionId === connectionId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async get(id: string): Promise<QueryExample> {
+    await this.loadExamples();
+    const example = this.examples.get(id);
+    if (!example) throw new ExampleError('Query example not found', 404);
+    return example;
+  }
+
+  async create(data: CreateExampleDto, user?: AuthenticatedUser): Promise<QueryExample> {
+    await this.loadExamples();
+    if (data.runId) {
+      const run = runService.get(data.runId, user);
+      const question = data.question || run.question;
+      if (!question) throw new ExampleError('question is required for runs of saved queries');
+      const connection = await connectionService.getConnection(run.connectionId);
+      return this.add(connection, { question, mongoQuery: run.mongoQuery, explanation: data.explanation }, 'history', user, {
+        runId: run.id
+      });
+    }
+
+    if (data.sessionId) {
+      const session = await sessionService.getSessionById(data.sessionId, user);
+      if (!session) throw new ExampleError('Session not found', 404);
+      const turn = session.turns.find(turn => turn.id === data.turnId);
+      if (!turn) throw new ExampleError('turnId must name a turn of the session', 404);
+      if (!turn.mongoQuery) throw new ExampleError('The turn has no query');
+      const connection = await connectionService.getConnection(session.connectionId || DEFAULT_CONNECTION_ID);
+      const entry = {
+        question: data.question || turn.question,
+        mongoQuery: turn.mongoQuery,
+        explanation: data.explanation || turn.explanation
+      };
+      return this.add(connection, entry, 'history', user, { sessionId: session.id, turnId: turn.id });
+    }
+
+    if (!data.question || !data.mongoQuery) {
+      throw new ExampleError('runId, sessionId and turnId, or question and mongoQuery are required');
+    }
+    const connection = await connectionService.getConnection(data.connectionId);
+    return this.add(connection, { question: data.question, mongoQuery: data.mongoQuery, explanation: data.explanation }, 'import', user);
+  }
+
+  async import(connectionId: string | undefined, entries: ExampleEntry[], user?: AuthenticatedUser): Promise<ExampleImportResult> {
+    if (!Array.isArray(entries)) throw new ExampleError('examples must be an array of { question, mongoQuery }');
+    await this.loadExamples();
+    const connection = await connectionService.getConnection(connectionId);
+    return this.addAll(connection, entries, 'import', user);
+  }
+
+  // Seeds from the context already generated for the connection
+  async seed(connectionId?: string): Promise<ExampleImportResult> {
+    const connection = await connectionService.getConnection(connectionId);
+    let context: DatabaseContext;
+    try {
+      context = JSON.parse(await fs.readFile(connectionService.getArtifacts(connection).contextPath, 'utf-8'));
+    } catch (error) {
+      throw new ExampleError(`No context for connection "${connection.id}"; generate one first`, 404);
+    }
+    return this.seedFromContext(connection, context);
+  }
+
+  // Replaces the examples seeded from an earlier context
+  async seedFromContext(connection: Connection, context: DatabaseContext): Promise<ExampleImportResult> {
+    await this.loadExamples();
+    for (const example of await this.getAll(connection.id)) {
+      if (example.source === 'sample') await this.removeExample(example.id);
+    }
+
+    const samples: any = context?.sampleQueries;
+    const entries = Array.isArray(samples)
+      ? samples.map(sample => sampleEntry(sample))
+      : Object.entries(samples && typeof samples === 'object' ? samples : {}).map(([name, sample]) => sampleEntry(sample, name));
+    const result = await this.addAll(connection, entries.filter((entry): entry is ExampleEntry => !!entry), 'sample');
+    const unusable = entries.filter(entry => !entry).length;
+    if (unusable) console.warn(`${unusable} sample queries of "${connection.id}" have no question and were not seeded`);
+    return result;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.loadExamples();
+    return this.removeExample(id);
+  }
+
+  // The examples closest to `question`, best first. Never fails a query: a
+  // broken index only means no demonstrations.
+  async similar(connectionId: string, question: string): Promise<QueryExample[]> {
+    if (!this.enabled) return [];
+    try {
+      const examples = await this.getAll(connectionId);
+      if (!examples.length) return [];
+
+      const namespace = await retrievalService.ensureIndexed(
+        `examples-${connectionId}`,
+        examples.map(example => ({ id: example.id, text: example.question, metadata: { exampleId: example.id } }))
+      );
+      const minScore = Number(process.env.EXAMPLES_MIN_SCORE ?? 0.3);
+      const matches = await retrievalService.search<{ exampleId: string }>(namespace, question, envNumber('EXAMPLES_TOP_K', 3));
+      return matches
+        .filter(match => match.score >= minScore)
+        .map(match => this.examples.get(match.metadata.exampleId))
+        .filter((example): example is QueryExample => !!example);
+    } catch (error) {
+      console.error('Query example lookup failed:', error);
+      return [];
+    }
+  }
+
+  private async addAll(
+    connection: Connection,
+    entries: ExampleEntry[],
+    source: ExampleSource,
+    user?: AuthenticatedUser
+  ): Promise<ExampleImportResult> {
+    const schema = await snapshotService.getLatestSchema(connectionService.getArtifacts(connection));
+    const result: ExampleImportResult = { imported: 0, skipped: [] };
+    for (const [index, entry] of entries.entries()) {
+      try {
+        await this.add(connection, entry, source, user, {}, schema);
+        result.imported++;
+      } catch (error: any) {
+        if (!(error instanceof ExampleError)) throw error;
+        result.skipped.push({ index, question: entry?.question, error: error.message });
+      }
+    }
+    return result;
+  }
+
+  // An example for a question asked before replaces the old one
+  private async add(
+    connection: Connection,
+    entry: ExampleEntry,
+    source: ExampleSource,
+    user?: AuthenticatedUser,
+    origin: Pick<QueryExample, 'runId' | 'sessionId' | 'turnId'> = {},
+    schema?: DatabaseSchema | null
+  ): Promise<QueryExample> {
+    if (typeof entry?.question !== 'string' || !entry.question.trim()) throw new ExampleError('question is required');
+    if (typeof entry.mongoQuery !== 'string' || !entry.mongoQuery.trim()) throw new ExampleError('mongoQuery is required');
+    await this.verify(connection, entry.mongoQuery, schema);
+
+    const existing = (await this.getAll(connection.id))
+      .find(example => normalizeQuestion(example.question) === normalizeQuestion(entry.question));
+    if (existing && source === 'sample' && existing.source !== 'sample') {
+      throw new ExampleError('An example added by a user already answers this question', 409);
+    }
+    const example: QueryExample = {
+      id: existing?.id || uuidv4(),
+      connectionId: connection.id,
+      question: entry.question.trim(),
+      mongoQuery: entry.mongoQuery.trim(),
+      explanation: entry.explanation,
+      source,
+      ...origin,
+      createdBy: user?.id,
+      createdAt: new Date()
+    };
+    this.examples.set(example.id, example);
+    await this.saveExample(example);
+    return example;
+  }
+
+  // A demonstration that doesn't run would teach the model the mistake
+  private async verify(connection: Connection, mongoQuery: string, schema?: DatabaseSchema | null): Promise<void> {
+    let query;
+    try {
+      query = parseMongoQuery(mongoQuery);
+    } catch (error: any) {
+      throw new ExampleError(`mongoQuery could not be parsed: ${error.message}`);
+    }
+    if (query.operation === 'unsupported') throw new ExampleError(`${query.method}() is not supported`);
+
+    const policy = await policyService.evaluate(query);
+    if (!policy.allowed) {
+      throw new ExampleError(`Query rejected by policy: ${policy.violations.map(v => v.message).join('; ')}`, 403);
+    }
+
+    const analyzed = schema === undefined
+      ? await snapshotService.getLatestSchema(connectionService.getArtifacts(connection))
+      : schema;
+    if (analyzed) {
+      const validation = validateQueryFields(query, analyzed);
+      if (!validation.valid) throw new ExampleError(validation.issues.map(issue => issue.message).join('; '));
+    }
+  }
+}
+
+export default new ExampleService();
@@ -0,0 +1,96 @@
+import { explainMongoQuery } from '../helpers/mongo.helper';
+import { queryIndexShape, suggestIndexes, summarizeExplain } from '../helpers/explain.helper';
+import { parseMongoQuery } from '../helpers/query.helper';
+import { AuthenticatedUser } from '../types/auth.types';
+import { Connection } from '../types/connection.types';
+import { IndexInfo, IndexRecommendation, IndexReport, QueryExplain } from '../types/explain.types';
+import { ParsedQuery } from '../types/query.types';
+import mongoService from './mongo.service';
+import runService from './run.service';
+import sessionService from './session.service';
+import { DEFAULT_CONNECTION_ID } from './connection.service';
+
+const MAX_EXAMPLE_QUERIES = 3;
+
+class ExplainService {
+  async listIndexes(connection: Connection, collectionName: string): Promise<IndexInfo[]> {
+    const db = await mongoService.getDb(connection);
+    try {
+      const indexes = await db.collection(collectionName).listIndexes().toArray();
+      return indexes.map(index => ({ name: index.name, keys: index.key }));
+    } catch (error: any) {
+      // Collections that don't exist yet have no indexes
+      if (error.codeName === 'NamespaceNotFound') return [];
+      throw error;
+    }
+  }
+
+  async explain(query: ParsedQuery, connection: Connection, signal?: AbortSignal): Promise<QueryExplain> {
+    const [raw, existingIndexes] = await Promise.all([
+      explainMongoQuery(query, connection, { signal }),
+      this.listIndexes(connection, query.collectionName)
+    ]);
+    const plan = raw ? summarizeExplain(raw) : null;
+    return {
+      collection: query.collectionName,
+      plan,
+      existingIndexes,
+      suggestions: suggestIndexes(query, existingIndexes, plan)
+    };
+  }
+
+  /**
+   * Index recommendations for every query in the connection's history: the
+   * turns of its sessions and the runs still held in memory. Works from query
+   * shapes and current indexes only, so nothing is re-executed. Only history
+   * `user` may read is included, so examples never show others' queries.
+   */
+  async buildIndexReport(connection: Connection, user?: AuthenticatedUser): Promise<IndexReport> {
+    const queries = new Set<string>();
+    for (const summary of await sessionService.getAllSessions(user)) {
+      if ((summary.connectionId || DEFAULT_CONNECTION_ID) !== connection.id) continue;
+      const session = await sessionService.getSessionById(summary.id, user);
+      session?.turns.forEach(turn => turn.mongoQuery && queries.add(turn.mongoQuery));
+    }
+    runService.list(connection.id, user).forEach(run => queries.add(run.mongoQuery));
+
+    const indexCache = new Map<string, Promise<IndexInfo[]>>();
+    const recommendations = new Map<string, IndexRecommendation>();
+    let queriesAnalyzed = 0;
+
+    for (const mongoQuery of queries) {
+      let query: ParsedQuery;
+      try {
+        query = parseMongoQuery(mongoQuery);
+      } catch (error) {
+        continue;
+      }
+      if (!queryIndexShape(query)) continue;
+      queriesAnalyzed++;
+
+      if (!indexCache.has(query.collectionName)) {
+        indexCache.set(query.collectionName, this.listIndexes(connection, query.collectionName));
+      }
+      const indexes = await indexCache.get(query.collectionName)!;
+
+      for (const suggestion of suggestIndexes(query, indexes)) {
+        const id = `${suggestion.collection}:${JSON.stringify(suggestion.keys)}`;
+        const recommendation = recommendations.get(id)
+          || { ...suggestion, queryCount: 0, exampleQueries: [] };
+        recommendation.queryCount++;
+        if (recommendation.exampleQueries.length < MAX_EXAMPLE_QUERIES) recommendation.exampleQueries.push(mongoQuery);
+        recommendations.set(id, recommendation);
+      }
+    }
+
+    return {
+      connectionId: connection.id,
+      generatedAt: new Date(),
+      queriesAnalyzed,
+      recommendations: Array.from(recommendations.values())
+        .sort((a, b) => b.queryCount - a.queryCount || Object.keys(b.keys).length - Object.keys(a.keys).length)
+    };
+  }
+}
+
+export default new ExplainService();
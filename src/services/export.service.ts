@@ -0,0 +1,140 @@
+import { ServerResponse } from 'http';
+import { Writable } from 'stream';
+import ExcelJS from 'exceljs';
+import { envNumber } from '../helpers/config.helper';
+import { escapeFormula, flattenDocument, formatExportValue, orderColumns, toCsvLine } from '../helpers/export.helper';
+import { writeChunk } from '../helpers/stream.helper';
+import { AuthenticatedUser } from '../types/auth.types';
+import { ExportFormat, ExportRow } from '../types/export.types';
+import { CollectionSchema } from '../types/schema.types';
+import connectionService from './connection.service';
+import runService from './run.service';
+import snapshotService from './snapshot.service';
+
+const DROPPED_COLUMNS_TRAILER = 'X-Dropped-Columns';
+
+const CONTENT_TYPES: { [format in ExportFormat]: string } = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ndjson: 'application/x-ndjson'
+};
+
+interface TableWriter {
+  writeHeader(columns: string[]): Promise<void>;
+  writeRow(values: ExportRow[string][]): Promise<void>;
+  end(): Promise<void>;
+}
+
+function csvWriter(output: Writable, signal?: AbortSignal): TableWriter {
+  return {
+    writeHeader: columns => writeChunk(output, toCsvLine(columns), signal),
+    writeRow: values => writeChunk(output, toCsvLine(values), signal),
+    end: async () => { output.end(); }
+  };
+}
+
+function xlsxWriter(output: Writable, sheetName: string): TableWriter {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: false, useSharedStrings: false });
+  // Sheet names are limited to 31 characters and can't contain []:*?/\
+  const worksheet = workbook.addWorksheet(sheetName.replace(/[[\]:*?/\\]/g, '_').slice(0, 31) || 'results');
+  return {
+    writeHeader: async columns => { worksheet.addRow(columns.map(escapeFormula)).commit(); },
+    writeRow: async values => { worksheet.addRow(values.map(escapeFormula)).commit(); },
+    end: async () => {
+      worksheet.commit();
+      await workbook.commit();
+    }
+  };
+}
+
+class ExportService {
+  // Documents read before the CSV/XLSX header is written; fields first seen
+  // later have no column and are reported in the X-Dropped-Columns trailer
+  get headerSampleSize(): number {
+    return envNumber('EXPORT_HEADER_SAMPLE_SIZE', 100);
+  }
+
+  // Checks the run exists before any response headers go out
+  async describe(
+    runId: string,
+    format: ExportFormat,
+    user?: AuthenticatedUser
+  ): Promise<{ fileName: string; contentType: string }> {
+    const run = runService.get(runId, user);
+    const { collectionName } = runService.parsedQuery(run);
+    return {
+      fileName: `${collectionName}-${run.id}.${format}`,
+      contentType: CONTENT_TYPES[format]
+    };
+  }
+
+  // Streams every document of the run (up to QUERY_MAX_TOTAL_RESULTS) into
+  // `output` and ends it.
+  async exportRun(
+    runId: string,
+    format: ExportFormat,
+    output: Writable,
+    signal?: AbortSignal,
+    user?: AuthenticatedUser
+  ): Promise<{ rows: number; truncated: boolean; droppedColumns: string[] }> {
+    let rows = 0;
+
+    if (format === 'ndjson') {
+      const { truncated } = await runService.stream(runId, 0, async document => {
+        rows++;
+        await writeChunk(output, JSON.stringify(formatExportValue(document)) + '\n', signal);
+      }, signal, user);
+      output.end();
+      return { rows, truncated, droppedColumns: [] };
+    }
+
+    const run = runService.get(runId, user);
+    const { collectionName } = runService.parsedQuery(run);
+    const collection = await this.loadCollectionSchema(run.connectionId, collectionName);
+    const table = format === 'xlsx' ? xlsxWriter(output, collectionName) : csvWriter(output, signal);
+    // The header is out before every field has been seen; an HTTP response
+    // names the fields left without a column in a trailer
+    const trailers = output instanceof ServerResponse && !output.headersSent;
+    if (trailers) output.setHeader('Trailer', DROPPED_COLUMNS_TRAILER);
+    const dropped = new Set<string>();
+
+    // Columns come from the first documents, so those are held back until the header is out
+    const pending: ExportRow[] = [];
+    let columns: string[] | null = null;
+    const writeHeader = async () => {
+      const seen = new Set<string>();
+      for (const row of pending) Object.keys(row).forEach(column => seen.add(column));
+      columns = orderColumns(Array.from(seen), collection);
+      await table.writeHeader(columns);
+      for (const row of pending) await table.writeRow(columns.map(column => row[column] ?? null));
+      pending.length = 0;
+    };
+
+    const { truncated } = await runService.stream(runId, 0, async document => {
+      rows++;
+      const row = flattenDocument(document);
+      if (columns) {
+        for (const column of Object.keys(row)) if (!columns.includes(column)) dropped.add(column);
+        return table.writeRow(columns.map(column => row[column] ?? null));
+      }
+      pending.push(row);
+      if (pending.length >= this.headerSampleSize) await writeHeader();
+    }, signal, user);
+
+    if (!columns) await writeHeader();
+    const droppedColumns = Array.from(dropped);
+    if (trailers && droppedColumns.length > 0) {
+      (output as ServerResponse).addTrailers({ [DROPPED_COLUMNS_TRAILER]: droppedColumns.join(',') });
+    }
+    await table.end();
+    return { rows, truncated, droppedColumns };
+  }
+
+  private async loadCollectionSchema(connectionId: string, collectionName: string): Promise<CollectionSchema | undefined> {
+    const connection = await connectionService.getConnection(connectionId);
+    const schema = await snapshotService.getLatestSchema(connectionService.getArtifacts(connection));
+    return schema?.collections.find(c => c.collectionName === collectionName);
+  }
+}
+
+export default new ExportService();
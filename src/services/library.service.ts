@@ -0,0 +1,241 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import { BSON } from 'mongodb';
+import { v4 as uuidv4 } from 'uuid';
+import { bindParameters, extractParameters } from '../helpers/library.helper';
+import { executeMongoQuery } from '../helpers/mongo.helper';
+import { parseMongoQuery } from '../helpers/query.helper';
+import { ScopeError } from '../helpers/scope.helper';
+import { AuthenticatedUser } from '../types/auth.types';
+import { QueryOperation, QueryResultType } from '../types/query.types';
+import { ResultPage } from '../types/run.types';
+import {
+  CreateSavedQueryDto,
+  SavedQuery,
+  SavedQuerySummary,
+  UpdateSavedQueryDto
+} from '../types/library.types';
+import cacheService from './cache.service';
+import connectionService from './connection.service';
+import policyService from './policy.service';
+import runService from './run.service';
+import scopeService from './scope.service';
+import maskingService from './masking.service';
+import snapshotService from './snapshot.service';
+
+export class LibraryError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'LibraryError';
+  }
+}
+
+export interface SavedQueryRun {
+  savedQueryId: string;
+  mongoQuery: string;
+  parameters: { [name: string]: any };
+  resultType: QueryResultType;
+  results: any[];
+  truncated: boolean;
+  page: ResultPage;
+}
+
+/**
+ * Queries kept for rerunning without the LLM, one file per query in
+ * data/saved_queries. Files are Extended JSON so the parsed query keeps its
+ * ObjectIds, dates and decimals.
+ */
+class LibraryService {
+  private libraryDir = path.join(__dirname, '../../data/saved_queries');
+  private queries = new Map<string, SavedQuery>();
+  private loaded = false;
+
+  private async loadQueries(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    let files: string[];
+    try {
+      files = await fs.readdir(this.libraryDir);
+    } catch (error) {
+      return;
+    }
+
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      try {
+        const saved = BSON.EJSON.parse(await fs.readFile(path.join(this.libraryDir, file), 'utf-8')) as SavedQuery;
+        this.queries.set(saved.id, saved);
+      } catch (error) {
+        console.error(`Skipping unreadable saved query file ${file}:`, error);
+      }
+    }
+  }
+
+  private async saveQuery(saved: SavedQuery): Promise<void> {
+    await fs.mkdir(this.libraryDir, { recursive: true });
+    await fs.writeFile(
+      path.join(this.libraryDir, `${saved.id}.json`),
+      BSON.EJSON.stringify(saved, undefined, 2, { relaxed: false })
+    );
+  }
+
+  async getAll(connectionId?: string): Promise<SavedQuerySummary[]> {
+    await this.loadQueries();
+    return Array.from(this.queries.values())
+      .filter(saved => !connectionId || saved.connectionId === connectionId)
+      .map(({ id, connectionId, name, question, parameters, runCount, lastRunAt, updatedAt }) => ({
+        id,
+        connectionId,
+        name,
+        question,
+        parameters: parameters.map(parameter => parameter.name),
+        runCount,
+        lastRunAt,
+        updatedAt
+      }))
+      .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+  }
+
+  async get(id: string): Promise<SavedQuery> {
+    await this.loadQueries();
+    const saved = this.queries.get(id);
+    if (!saved) throw new LibraryError('Saved query not found', 404);
+    return saved;
+  }
+
+  async create(data: CreateSavedQueryDto, user?: AuthenticatedUser): Promise<SavedQuery> {
+    await this.loadQueries();
+    const run = data.runId ? runService.get(data.runId, user) : null;
+    const connection = await connectionService.getConnection(run?.connectionId || data.connectionId);
+    const question = data.question || run?.question;
+    const mongoQuery = run?.mongoQuery || data.mongoQuery;
+    if (!question) throw new LibraryError('question is required');
+    if (!mongoQuery) throw new LibraryError('runId or mongoQuery is required');
+
+    let query;
+    try {
+      query = run ? runService.parsedQuery(run) : parseMongoQuery(mongoQuery);
+    } catch (error: any) {
+      throw new LibraryError(`mongoQuery could not be parsed: ${error.message}`);
+    }
+    if (query.operation === 'unsupported') throw new LibraryError(`${query.method}() can't be saved`);
+    const policy = await policyService.evaluate(query);
+    if (!policy.allowed) {
+      throw new LibraryError(`Query rejected by policy: ${policy.violations.map(v => v.message).join('; ')}`, 403);
+    }
+
+    const schema = await snapshotService.getLatestSchema(connectionService.getArtifacts(connection));
+    const collection = schema?.collections.find(c => c.collectionName === query.collectionName);
+    const now = new Date();
+    const saved: SavedQuery = {
+      id: uuidv4(),
+      connectionId: connection.id,
+      name: data.name || question.slice(0, 80),
+      question,
+      description: data.description,
+      mongoQuery,
+      query,
+      parameters: extractParameters(query, collection),
+      runCount: 0,
+      createdBy: user?.id,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.queries.set(saved.id, saved);
+    await this.saveQuery(saved);
+    return saved;
+  }
+
+  async update(id: string, data: UpdateSavedQueryDto): Promise<SavedQuery> {
+    const saved = await this.get(id);
+    const renames = data.parameterNames || {};
+    const names = new Set(saved.parameters.map(parameter => parameter.name));
+    for (const [from, to] of Object.entries(renames)) {
+      if (!names.has(from)) throw new LibraryError(`Unknown parameter "${from}"`);
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(to)) throw new LibraryError(`Invalid parameter name "${to}"`);
+    }
+    const parameters = saved.parameters.map(parameter => ({ ...parameter, name: renames[parameter.name] || parameter.name }));
+    if (new Set(parameters.map(parameter => parameter.name)).size !== parameters.length) {
+      throw new LibraryError('Parameter names must be unique');
+    }
+
+    const updated: SavedQuery = {
+      ...saved,
+      name: data.name || saved.name,
+      question: data.question || saved.question,
+      description: data.description ?? saved.description,
+      parameters,
+      updatedAt: new Date()
+    };
+    this.queries.set(id, updated);
+    await this.saveQuery(updated);
+    return updated;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.loadQueries();
+    if (!this.queries.delete(id)) return false;
+    await fs.rm(path.join(this.libraryDir, `${id}.json`), { force: true });
+    return true;
+  }
+
+  // Runs the saved query with `values` in place of its parameters; the LLM is not involved.
+  async run(
+    id: string,
+    values: { [name: string]: any } = {},
+    options: { pageSize: number; signal?: AbortSignal; user?: AuthenticatedUser }
+  ): Promise<SavedQueryRun> {
+    const saved = await this.get(id);
+    const connection = await connectionService.getConnection(saved.connectionId);
+    const { query, bound } = bindParameters(saved.query, saved.parameters, values);
+
+    // The policy may have changed since the query was saved
+    const policy = await policyService.evaluate(query);
+    if (!policy.allowed) {
+      throw new LibraryError(`Query rejected by policy: ${policy.violations.map(v => v.message).join('; ')}`, 403);
+    }
+
+    let scoped;
+    try {
+      scoped = await scopeService.apply(query, connection.id, options.user);
+    } catch (error) {
+      if (error instanceof ScopeError) throw new LibraryError(error.message, error.status);
+      throw error;
+    }
+
+    const window = { offset: 0, limit: options.pageSize };
+    const { execution } = await cacheService.execute(
+      connection.id,
+      scoped,
+      window,
+      () => executeMongoQuery(scoped, connection, { signal: options.signal, window, user: options.user })
+    );
+    // Saved queries are never `unsupported`; create() rejects those
+    const run = runService.create(connection.id, saved.mongoQuery, query.operation as QueryOperation, {
+      question: saved.question,
+      query,
+      userId: options.user?.id
+    });
+
+    saved.runCount++;
+    saved.lastRunAt = new Date();
+    await this.saveQuery(saved);
+
+    return {
+      savedQueryId: saved.id,
+      mongoQuery: saved.mongoQuery,
+      parameters: bound,
+      resultType: execution.resultType,
+      results: await maskingService.maskResults(
+        query,
+        await policyService.sanitizeResults(query, execution.documents),
+        connection,
+        options.user
+      ),
+      truncated: execution.truncated,
+      page: runService.buildPage(run, 0, options.pageSize, execution.truncated)
+    };
+  }
+}
+
+export default new LibraryService();
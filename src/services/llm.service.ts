@@ -0,0 +1,134 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import dotenv from 'dotenv';
+import { OpenAIProvider } from '../providers/openai.provider';
+import { LocalProvider } from '../providers/local.provider';
+import { FixtureProvider, RecordingProvider } from '../providers/fixture.provider';
+import {
+  ChatMessage,
+  FunctionDefinition,
+  LLMCallRecord,
+  LLMConfig,
+  LLMProvider,
+  LLMProviderName,
+  LLMResponse,
+  LLMStep,
+  LLMStepConfig
+} from '../types/llm.types';
+
+dotenv.config();
+
+const PROVIDER_NAMES: LLMProviderName[] = ['openai', 'local', 'fixture'];
+
+export const DEFAULT_LLM_CONFIG: LLMConfig = {
+  contextGeneration: { provider: 'openai', model: 'gpt-4o-mini', temperature: 0.5 },
+  fieldEnrichment: { provider: 'openai', model: 'gpt-4o-mini', temperature: 0.3 },
+  intentQuery: { provider: 'openai', model: 'gpt-4o', temperature: 0.3 },
+  requirementsAnalysis: { provider: 'openai', model: 'gpt-4o-mini', temperature: 0.3 },
+  queryRepair: { provider: 'openai', model: 'gpt-4o', temperature: 0.2 },
+  test: { provider: 'openai', model: 'gpt-4o-mini' }
+};
+
+function envPrefix(step: LLMStep): string {
+  return `LLM_${step.replace(/([A-Z])/g, '_$1').toUpperCase()}`;
+}
+
+function parseProviderName(value: string | undefined, variable: string): LLMProviderName | undefined {
+  if (!value) return undefined;
+  if (!PROVIDER_NAMES.includes(value as LLMProviderName)) {
+    throw new Error(`${variable} must be one of ${PROVIDER_NAMES.join(', ')}, got "${value}"`);
+  }
+  return value as LLMProviderName;
+}
+
+// LLM_PROVIDER switches every step at once; LLM_<STEP>_PROVIDER, _MODEL and
+// _TEMPERATURE (e.g. LLM_INTENT_QUERY_MODEL) override a single step.
+export function loadLLMConfigFromEnv(env: NodeJS.ProcessEnv = process.env): LLMConfig {
+  const globalProvider = parseProviderName(env.LLM_PROVIDER, 'LLM_PROVIDER');
+  const config = {} as LLMConfig;
+
+  for (const [step, defaults] of Object.entries(DEFAULT_LLM_CONFIG) as [LLMStep, LLMStepConfig][]) {
+    const prefix = envPrefix(step);
+    const temperature = env[`${prefix}_TEMPERATURE`];
+    config[step] = {
+      provider: parseProviderName(env[`${prefix}_PROVIDER`], `${prefix}_PROVIDER`) || globalProvider || defaults.provider,
+      model: env[`${prefix}_MODEL`] || defaults.model,
+      temperature: temperature !== undefined ? Number(temperature) : defaults.temperature
+    };
+  }
+  return config;
+}
+
+export class LLMService {
+  private providers = new Map<LLMProviderName, LLMProvider>();
+  private calls = new AsyncLocalStorage<LLMCallRecord[]>();
+
+  constructor(private config: LLMConfig = loadLLMConfigFromEnv()) {}
+
+  getStepConfig(step: LLMStep): LLMStepConfig {
+    return this.config[step];
+  }
+
+  getConfig(): LLMConfig {
+    return this.config;
+  }
+
+  // Switches every step to `config` (by default the environment as it is now);
+  // providers are created again so they pick up their settings too
+  configure(config: LLMConfig = loadLLMConfigFromEnv()): void {
+    this.config = config;
+    this.providers.clear();
+  }
+
+  // Runs `fn` and reports every model call made inside it, however deep in the call chain
+  async trackUsage<T>(fn: () => Promise<T>): Promise<{ result: T; calls: LLMCallRecord[] }> {
+    const calls: LLMCallRecord[] = [];
+    const result = await this.calls.run(calls, fn);
+    return { result, calls };
+  }
+
+  async chat(step: LLMStep, messages: ChatMessage[]): Promise<LLMResponse<string>> {
+    const { provider, model, temperature } = this.getStepConfig(step);
+    return this.record(step, await this.getProvider(provider).chat({ model, messages, temperature }));
+  }
+
+  async json<T = any>(step: LLMStep, messages: ChatMessage[]): Promise<LLMResponse<T>> {
+    const { provider, model, temperature } = this.getStepConfig(step);
+    return this.record(step, await this.getProvider(provider).json<T>({ model, messages, temperature }));
+  }
+
+  async callFunction<T = any>(
+    step: LLMStep,
+    messages: ChatMessage[],
+    fn: FunctionDefinition
+  ): Promise<LLMResponse<T>> {
+    const { provider, model, temperature } = this.getStepConfig(step);
+    return this.record(step, await this.getProvider(provider).callFunction<T>({ model, messages, temperature, function: fn }));
+  }
+
+  private record<T>(step: LLMStep, response: LLMResponse<T>): LLMResponse<T> {
+    this.calls.getStore()?.push({ step, provider: response.provider, model: response.model, usage: response.usage });
+    return response;
+  }
+
+  private getProvider(name: LLMProviderName): LLMProvider {
+    let provider = this.providers.get(name);
+    if (!provider) {
+      provider = this.createProvider(name);
+      if (name !== 'fixture' && process.env.LLM_RECORD_FIXTURES === 'true') {
+        provider = new RecordingProvider(provider);
+      }
+      this.providers.set(name, provider);
+    }
+    return provider;
+  }
+
+  private createProvider(name: LLMProviderName): LLMProvider {
+    switch (name) {
+      case 'openai': return new OpenAIProvider();
+      case 'local': return new LocalProvider();
+      case 'fixture': return new FixtureProvider();
+    }
+  }
+}
+
+export default new LLMService();
@@ -0,0 +1,155 @@
+import * as fs from 'fs/promises';
+import crypto from 'crypto';
+import path from 'path';
+import { globToRegExp } from '../helpers/config.helper';
+import { maskDocument, outputLineage, resolveSources, strongest } from '../helpers/masking.helper';
+import { resolveFieldPath } from '../helpers/schema.helper';
+import { AuthenticatedUser } from '../types/auth.types';
+import { Connection } from '../types/connection.types';
+import { MASK_STRATEGIES, MaskingConfig, MaskRule, MaskStrategy, SourceField } from '../types/masking.types';
+import { ParsedQuery } from '../types/query.types';
+import { CollectionSchema } from '../types/schema.types';
+import { USER_ROLES } from '../types/user.types';
+import connectionService from './connection.service';
+import snapshotService from './snapshot.service';
+
+// Used while data/masking.json doesn't exist
+const DEFAULT_CONFIG: MaskingConfig = {
+  tags: Object.fromEntries(
+    ['pii', 'sensitive', 'personal_info', 'contact_info', 'user_info', 'bank_details']
+      .map(tag => [tag, { strategy: 'partial', reveal: ['admin'] } as MaskRule])
+  ),
+  fields: {}
+};
+
+interface FieldPattern {
+  collection: RegExp;
+  segments: string[];
+  rule: MaskRule;
+}
+
+// Accepts "partial" as well as { "strategy": "partial", "reveal": ["admin"] }
+function parseRule(value: any, name: string): MaskRule {
+  const rule: MaskRule = typeof value === 'string' ? { strategy: value as MaskStrategy } : value;
+  if (!rule || !MASK_STRATEGIES.includes(rule.strategy)) {
+    throw new Error(`Masking rule "${name}" must use one of: ${MASK_STRATEGIES.join(', ')}`);
+  }
+  if (rule.reveal && (!Array.isArray(rule.reveal) || rule.reveal.some(role => !USER_ROLES.includes(role)))) {
+    throw new Error(`Masking rule "${name}" can only reveal to roles: ${USER_ROLES.join(', ')}`);
+  }
+  return { strategy: rule.strategy, reveal: rule.reveal };
+}
+
+function parseRules(rules: any): { [name: string]: MaskRule } {
+  return Object.fromEntries(Object.entries(rules || {}).map(([name, value]) => [name, parseRule(value, name)]));
+}
+
+/**
+ * Masks query results before they leave the server: fields carry tags from
+ * the schema enrichment, data/masking.json maps tags (and individual fields)
+ * to a strategy, and values computed from a masked field are masked with it.
+ */
+class MaskingService {
+  private configPath: string;
+  private config: MaskingConfig | null = null;
+  private generatedSecret: string | null = null;
+
+  constructor() {
+    this.configPath = process.env.MASKING_CONFIG_PATH || path.join(__dirname, '../../data/masking.json');
+  }
+
+  // Hashes must stay stable across restarts to be comparable, so set one of these
+  private get hashSecret(): string {
+    const secret = process.env.MASKING_HASH_SECRET || process.env.AUTH_SECRET;
+    if (secret) return secret;
+    if (!this.generatedSecret) {
+      console.warn('MASKING_HASH_SECRET is not set; hashed values will change on restart');
+      this.generatedSecret = crypto.randomBytes(32).toString('hex');
+    }
+    return this.generatedSecret;
+  }
+
+  async loadConfig(): Promise<MaskingConfig> {
+    if (this.config) return this.config;
+
+    try {
+      const data = JSON.parse(await fs.readFile(this.configPath, 'utf-8'));
+      this.config = { tags: parseRules(data.tags), fields: parseRules(data.fields) };
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+      this.config = DEFAULT_CONFIG;
+    }
+    return this.config;
+  }
+
+  // Returns a function masking one result document (or distinct value) of `query` for `user`
+  async createMasker(query: ParsedQuery, connection: Connection, user?: AuthenticatedUser): Promise<(document: any) => any> {
+    const config = await this.loadConfig();
+    const noRules = !Object.keys(config.tags).length && !Object.keys(config.fields).length;
+    const counts = query.operation === 'countDocuments' || query.operation === 'estimatedDocumentCount';
+    if (noRules || counts || query.operation === 'unsupported') return document => document;
+
+    const schema = await snapshotService.getLatestSchema(connectionService.getArtifacts(connection));
+    const collections = new Map((schema?.collections || []).map(collection => [collection.collectionName, collection]));
+    const patterns: FieldPattern[] = Object.entries(config.fields).map(([pattern, rule]) => {
+      const [collection, ...segments] = pattern.split('.');
+      return { collection: globToRegExp(collection), segments, rule };
+    });
+    const effective = (rule: MaskRule): MaskStrategy =>
+      user && rule.reveal?.includes(user.role) ? 'none' : rule.strategy;
+
+    // The field's own rule: a field pattern if one matches, otherwise its tags
+    const fieldStrategy = (source: SourceField, segments: string[]): MaskStrategy | null => {
+      const matching = patterns.filter(pattern => pattern.collection.test(source.collection)
+        && pattern.segments.length === segments.length
+        && pattern.segments.every((segment, i) => segment === '*' || segment === segments[i]));
+      if (matching.length) return matching.map(pattern => effective(pattern.rule)).reduce(strongest, 'none');
+
+      const collection: CollectionSchema | undefined = collections.get(source.collection);
+      const tags = collection ? resolveFieldPath(collection.fields, segments.join('.')).field?.tags || [] : [];
+      const rules = tags.map(tag => config.tags[tag]).filter(Boolean);
+      return rules.length ? rules.map(effective).reduce(strongest, 'none') : null;
+    };
+
+    // A sensitive parent object makes everything in it sensitive
+    const sourceCache = new Map<string, MaskStrategy>();
+    const sourceStrategy = (source: SourceField): MaskStrategy => {
+      const key = `${source.collection}\u0000${source.path}`;
+      let strategy = sourceCache.get(key);
+      if (strategy === undefined) {
+        const segments = source.path.split('.').filter(segment => segment !== '' && !/^\d+$/.test(segment));
+        strategy = 'none';
+        for (let length = 1; length <= segments.length; length++) {
+          strategy = strongest(strategy, fieldStrategy(source, segments.slice(0, length)) || 'none');
+        }
+        sourceCache.set(key, strategy);
+      }
+      return strategy;
+    };
+
+    const lineage = outputLineage(query);
+    const pathCache = new Map<string, MaskStrategy>();
+    const strategyAt = (outputPath: string): MaskStrategy => {
+      let strategy = pathCache.get(outputPath);
+      if (strategy === undefined) {
+        strategy = resolveSources(lineage, outputPath).sources.map(sourceStrategy).reduce(strongest, 'none');
+        pathCache.set(outputPath, strategy);
+      }
+      return strategy;
+    };
+
+    const hashes = [...Object.values(config.tags), ...Object.values(config.fields)].some(rule => rule.strategy === 'hash');
+    const secret = hashes ? this.hashSecret : '';
+    if (query.operation === 'distinct') {
+      return value => maskDocument(value, strategyAt, secret, query.field, strategyAt(query.field));
+    }
+    return document => maskDocument(document, strategyAt, secret);
+  }
+
+  async maskResults(query: ParsedQuery, documents: any[], connection: Connection, user?: AuthenticatedUser): Promise<any[]> {
+    const mask = await this.createMasker(query, connection, user);
+    return documents.map(mask);
+  }
+}
+
+export default new MaskingService();
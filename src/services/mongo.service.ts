@@ -0,0 +1,71 @@
+import { MongoClient } from 'mongodb';
+import { envNumber } from '../helpers/config.helper';
+import { maskUri } from '../helpers/connection.helper';
+import { Connection, ConnectionHealth } from '../types/connection.types';
+
+// One pooled MongoClient per URI, shared by queries and schema analysis for
+// the lifetime of the process.
+class MongoService {
+  private clients = new Map<string, Promise<MongoClient>>();
+
+  // Server-side limit applied to every query and analysis operation
+  get maxTimeMS(): number {
+    return envNumber('MONGO_MAX_TIME_MS', 30000);
+  }
+
+  // Documents returned per query; more are cut off and the result is marked truncated
+  get maxResults(): number {
+    return envNumber('QUERY_MAX_RESULTS', 1000);
+  }
+
+  async getClient(uri: string): Promise<MongoClient> {
+    let client = this.clients.get(uri);
+    if (!client) {
+      client = new MongoClient(uri, {
+        maxPoolSize: envNumber('MONGO_MAX_POOL_SIZE', 10),
+        serverSelectionTimeoutMS: envNumber('MONGO_SERVER_SELECTION_TIMEOUT_MS', 5000),
+        connectTimeoutMS: envNumber('MONGO_CONNECT_TIMEOUT_MS', 10000),
+        socketTimeoutMS: envNumber('MONGO_SOCKET_TIMEOUT_MS', 60000)
+      }).connect();
+      this.clients.set(uri, client);
+      // A failed connect shouldn't poison the cache; the next call retries
+      client.catch(() => this.clients.delete(uri));
+    }
+    return client;
+  }
+
+  async getDb(connection: Connection) {
+    const client = await this.getClient(connection.uri);
+    return client.db(connection.databaseName);
+  }
+
+  async ping(connection: Connection): Promise<ConnectionHealth> {
+    const startedAt = Date.now();
+    try {
+      const db = await this.getDb(connection);
+      await db.command({ ping: 1 });
+      return { id: connection.id, uri: maskUri(connection.uri), status: 'ok', latencyMs: Date.now() - startedAt };
+    } catch (error: any) {
+      return {
+        id: connection.id,
+        uri: maskUri(connection.uri),
+        status: 'unreachable',
+        latencyMs: Date.now() - startedAt,
+        error: error.message
+      };
+    }
+  }
+
+  async close(uri: string): Promise<void> {
+    const client = this.clients.get(uri);
+    if (!client) return;
+    this.clients.delete(uri);
+    await client.then(c => c.close(), () => undefined);
+  }
+
+  async closeAll(): Promise<void> {
+    await Promise.all(Array.from(this.clients.keys()).map(uri => this.close(uri)));
+  }
+}
+
+export default new MongoService();
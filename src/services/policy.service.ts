@@ -0,0 +1,264 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import { globToRegExp } from '../helpers/config.helper';
+import { outputLineage, resolveSources } from '../helpers/masking.helper';
+import { collectQueryReferences } from '../helpers/reference.helper';
+import { isPlainObject } from '../helpers/query.helper';
+import { LineageEntry } from '../types/masking.types';
+import { ParsedQuery } from '../types/query.types';
+import { PolicyReport, PolicyViolation, QueryPolicyConfig } from '../types/policy.types';
+
+const WRITE_METHODS = new Set([
+  'insert', 'insertOne', 'insertMany', 'save',
+  'update', 'updateOne', 'updateMany', 'replaceOne',
+  'remove', 'delete', 'deleteOne', 'deleteMany',
+  'findAndModify', 'findOneAndUpdate', 'findOneAndReplace', 'findOneAndDelete',
+  'bulkWrite', 'initializeOrderedBulkOp', 'initializeUnorderedBulkOp',
+  'drop', 'dropIndex', 'dropIndexes', 'createIndex', 'createIndexes', 'ensureIndex',
+  'renameCollection', 'mapReduce'
+]);
+
+const FORBIDDEN_OPERATORS: { [operator: string]: string } = {
+  $out: 'writes pipeline output to a collection',
+  $merge: 'writes pipeline output to a collection',
+  $where: 'runs server-side JavaScript',
+  $function: 'runs server-side JavaScript',
+  $accumulator: 'runs server-side JavaScript'
+};
+
+const DEFAULT_CONFIG: QueryPolicyConfig = {
+  collections: {},
+  fields: {},
+  deniedOperators: []
+};
+
+// `computed`: derived from an object that has restricted fields inside
+type PathStatus = 'keep' | 'drop' | 'recurse' | 'computed';
+
+interface FieldPattern {
+  collection: RegExp;
+  segments: string[];
+}
+
+function parseFieldPattern(pattern: string): FieldPattern {
+  const [collection, ...segments] = pattern.split('.');
+  return { collection: globToRegExp(collection), segments };
+}
+
+// Array indexes (`items.0.price`) address the same field as `items.price`.
+function toSegments(fieldPath: string): string[] {
+  return fieldPath.split('.').filter(segment => segment !== '' && !/^\d+$/.test(segment));
+}
+
+function segmentsMatch(pattern: string[], segments: string[], length: number): boolean {
+  for (let i = 0; i < length; i++) {
+    if (pattern[i] !== '*' && pattern[i] !== segments[i]) return false;
+  }
+  return true;
+}
+
+// The path is the pattern's field or lies inside it.
+function coversPath(pattern: FieldPattern, segments: string[]): boolean {
+  return segments.length >= pattern.segments.length
+    && segmentsMatch(pattern.segments, segments, pattern.segments.length);
+}
+
+// The path is a parent object of the pattern's field.
+function containsPattern(pattern: FieldPattern, segments: string[]): boolean {
+  return segments.length < pattern.segments.length
+    && segmentsMatch(pattern.segments, segments, segments.length);
+}
+
+class PolicyService {
+  private policyPath: string;
+  private config: QueryPolicyConfig | null = null;
+
+  constructor() {
+    this.policyPath = process.env.QUERY_POLICY_PATH || path.join(__dirname, '../../data/query_policy.json');
+  }
+
+  async loadConfig(): Promise<QueryPolicyConfig> {
+    if (this.config) return this.config;
+
+    try {
+      const data = JSON.parse(await fs.readFile(this.policyPath, 'utf-8'));
+      this.config = {
+        collections: data.collections || {},
+        fields: data.fields || {},
+        deniedOperators: data.deniedOperators || []
+      };
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+      this.config = DEFAULT_CONFIG;
+    }
+    return this.config;
+  }
+
+  async evaluate(query: ParsedQuery): Promise<PolicyReport> {
+    const config = await this.loadConfig();
+    const violations: PolicyViolation[] = [];
+
+    if (query.operation === 'unsupported') {
+      const isWrite = WRITE_METHODS.has(query.method);
+      violations.push({
+        code: isWrite ? 'WRITE_OPERATION' : 'UNSUPPORTED_OPERATION',
+        message: isWrite
+          ? `${query.method}() modifies data; only read queries are allowed`
+          : `${query.method}() is not a supported read operation`,
+        location: 'operation',
+        collection: query.collectionName,
+        operator: query.method
+      });
+    }
+
+    const references = collectQueryReferences(query);
+    const deniedOperators = new Set(config.deniedOperators);
+
+    for (const { operator, location } of references.operators) {
+      if (FORBIDDEN_OPERATORS[operator]) {
+        violations.push({
+          code: operator === '$out' || operator === '$merge' ? 'WRITE_OPERATION' : 'FORBIDDEN_OPERATOR',
+          message: `${operator} is not allowed: it ${FORBIDDEN_OPERATORS[operator]}`,
+          location,
+          operator
+        });
+      } else if (deniedOperators.has(operator)) {
+        violations.push({
+          code: 'FORBIDDEN_OPERATOR',
+          message: `${operator} is disabled by the query policy`,
+          location,
+          operator
+        });
+      }
+    }
+
+    for (const { collection, location } of references.collections) {
+      if (!this.isCollectionAllowed(config, collection)) {
+        violations.push({
+          code: 'COLLECTION_NOT_ALLOWED',
+          message: `Collection "${collection}" is not available for querying`,
+          location,
+          collection
+        });
+      }
+    }
+
+    for (const reference of references.fields) {
+      if (reference.resolution !== 'collection') continue;
+      if (this.isFieldAllowed(config, reference.collection, reference.path)) continue;
+
+      violations.push({
+        code: 'FIELD_NOT_ALLOWED',
+        message: reference.path
+          ? `Field "${reference.path}" of "${reference.collection}" is not available for querying`
+          : `Whole-document references to "${reference.collection}" would expose restricted fields`,
+        location: reference.location,
+        collection: reference.collection,
+        field: reference.path
+      });
+    }
+
+    return { allowed: violations.length === 0, violations };
+  }
+
+  // Removes restricted fields from documents the query returns, e.g. when a
+  // plain find() without projection would include a denied field. Output
+  // fields are traced back to the collection fields they were copied or
+  // computed from, so renamed, grouped and joined values are stripped too.
+  async sanitizeResults(query: ParsedQuery, results: any[]): Promise<any[]> {
+    const config = await this.loadConfig();
+    if (!config.fields.allow?.length && !config.fields.deny?.length) return results;
+
+    const lineage = outputLineage(query);
+    const cache = new Map<string, { entry: LineageEntry; status: PathStatus }>();
+    const statusAt = (outputPath: string) => {
+      let cached = cache.get(outputPath);
+      if (!cached) {
+        const entry = resolveSources(lineage, outputPath);
+        cached = { entry, status: this.sourcesStatus(config, entry) };
+        cache.set(outputPath, cached);
+      }
+      return cached;
+    };
+
+    // Distinct values of an embedded document can still contain restricted sub-fields
+    const prefix = query.operation === 'distinct' ? query.field : '';
+    return results.map(value => this.stripFields(config, value, prefix, statusAt));
+  }
+
+  private isCollectionAllowed(config: QueryPolicyConfig, collection: string): boolean {
+    const { allow = [], deny = [] } = config.collections;
+    if (deny.some(pattern => globToRegExp(pattern).test(collection))) return false;
+    return allow.length === 0 || allow.some(pattern => globToRegExp(pattern).test(collection));
+  }
+
+  private fieldPatterns(config: QueryPolicyConfig, collection: string) {
+    const forCollection = (patterns: string[] = []) => patterns
+      .map(parseFieldPattern)
+      .filter(pattern => pattern.collection.test(collection));
+    return { allow: forCollection(config.fields.allow), deny: forCollection(config.fields.deny) };
+  }
+
+  private isFieldAllowed(config: QueryPolicyConfig, collection: string, fieldPath: string): boolean {
+    const { allow, deny } = this.fieldPatterns(config, collection);
+    const segments = toSegments(fieldPath);
+
+    if (segments.length === 0) return allow.length === 0 && deny.length === 0;
+    if (deny.some(pattern => coversPath(pattern, segments))) return false;
+    if (segments.length === 1 && segments[0] === '_id') return true;
+    return allow.length === 0 || allow.some(pattern => coversPath(pattern, segments));
+  }
+
+  private pathStatus(config: QueryPolicyConfig, collection: string, segments: string[]): PathStatus {
+    const { allow, deny } = this.fieldPatterns(config, collection);
+
+    if (deny.some(pattern => coversPath(pattern, segments))) return 'drop';
+    const deniedInside = deny.some(pattern => containsPattern(pattern, segments));
+    if (allow.length === 0 || (segments.length === 1 && segments[0] === '_id')) {
+      return deniedInside ? 'recurse' : 'keep';
+    }
+    if (allow.some(pattern => coversPath(pattern, segments))) return deniedInside ? 'recurse' : 'keep';
+    if (allow.some(pattern => containsPattern(pattern, segments))) return 'recurse';
+    return 'drop';
+  }
+
+  // The strictest status of the fields an output value comes from
+  private sourcesStatus(config: QueryPolicyConfig, entry: LineageEntry): PathStatus {
+    const statuses = entry.sources.map(source => this.pathStatus(config, source.collection, toSegments(source.path)));
+    if (statuses.includes('drop')) return 'drop';
+    if (!statuses.includes('recurse')) return 'keep';
+    // A value computed from an object with restricted fields inside can't be
+    // taken apart by path; only a scalar, like the $size of it, is kept
+    return entry.nested ? 'recurse' : 'computed';
+  }
+
+  private stripFields(
+    config: QueryPolicyConfig,
+    value: any,
+    path: string,
+    statusAt: (path: string) => { entry: LineageEntry; status: PathStatus }
+  ): any {
+    if (Array.isArray(value)) {
+      return value.map(item => this.stripFields(config, item, path, statusAt));
+    }
+    if (!isPlainObject(value)) return value;
+
+    const result: any = {};
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = path ? `${path}.${key}` : key;
+      const { entry, status } = statusAt(childPath);
+      const isContainer = isPlainObject(child) || Array.isArray(child);
+      if (status === 'keep') {
+        result[key] = child;
+      } else if (status === 'recurse' && isContainer) {
+        result[key] = this.stripFields(config, child, childPath, statusAt);
+      } else if (status !== 'drop' && !isContainer
+        && entry.sources.every(source => !this.fieldPatterns(config, source.collection).allow.length)) {
+        result[key] = child;
+      }
+    }
+    return result;
+  }
+}
+
+export default new PolicyService();
@@ -0,0 +1,184 @@
+import { HashingEmbeddingProvider, OpenAIEmbeddingProvider } from '../providers/embedding.provider';
+import { MemoryVectorStore } from '../stores/vector.store';
+import { PineconeVectorStore } from '../stores/pinecone.store';
+import { envNumber } from '../helpers/config.helper';
+import { estimateTokens, schemaDocuments, selectSchemaSlice } from '../helpers/retrieval.helper';
+import { hashKey } from '../helpers/cache.helper';
+import { parseMongoQuery } from '../helpers/query.helper';
+import { DatabaseContext, QueryIntent } from '../types/ai.types';
+import { Connection } from '../types/connection.types';
+import {
+  EmbeddingProvider,
+  EmbeddingProviderName,
+  IndexedDocument,
+  SchemaDocument,
+  SchemaSlice,
+  VectorMatch,
+  VectorStore,
+  VectorStoreName
+} from '../types/retrieval.types';
+import { DatabaseSchema } from '../types/schema.types';
+import { ConversationTurn } from '../types/session.types';
+
+const EMBEDDING_PROVIDER_NAMES: EmbeddingProviderName[] = ['hashing', 'openai', 'local'];
+const VECTOR_STORE_NAMES: VectorStoreName[] = ['memory', 'pinecone'];
+
+function createEmbeddingProvider(name = process.env.EMBEDDING_PROVIDER || 'hashing'): EmbeddingProvider {
+  if (!EMBEDDING_PROVIDER_NAMES.includes(name as EmbeddingProviderName)) {
+    throw new Error(`EMBEDDING_PROVIDER must be one of ${EMBEDDING_PROVIDER_NAMES.join(', ')}, got "${name}"`);
+  }
+  const dimensions = process.env.EMBEDDING_DIMENSIONS ? envNumber('EMBEDDING_DIMENSIONS', 512) : undefined;
+  switch (name as EmbeddingProviderName) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider({ model: process.env.EMBEDDING_MODEL || 'text-embedding-3-small', dimensions });
+    case 'local':
+      return new OpenAIEmbeddingProvider({
+        name: 'local',
+        model: process.env.EMBEDDING_MODEL || 'nomic-embed-text',
+        baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+        dimensions
+      });
+    case 'hashing':
+      return new HashingEmbeddingProvider(dimensions);
+  }
+}
+
+function createVectorStore(name = process.env.VECTOR_STORE || 'memory'): VectorStore {
+  if (!VECTOR_STORE_NAMES.includes(name as VectorStoreName)) {
+    throw new Error(`VECTOR_STORE must be one of ${VECTOR_STORE_NAMES.join(', ')}, got "${name}"`);
+  }
+  return name === 'pinecone' ? new PineconeVectorStore() : new MemoryVectorStore();
+}
+
+// Collections a follow-up question most likely refers to again
+function historyCollections(history: ConversationTurn[] = []): string[] {
+  return history.slice(-2).flatMap(turn => {
+    try {
+      return [parseMongoQuery(turn.mongoQuery).collectionName];
+    } catch (error) {
+      return [];
+    }
+  });
+}
+
+/**
+ * Picks the part of a connection's schema and context that a question needs,
+ * so prompts stay within RETRIEVAL_TOKEN_BUDGET however large the database.
+ * Collections and fields are embedded once per schema version; a question is
+ * matched against them and the best collections, their related collections
+ * and their most relevant fields make up the slice. Retrieval failures fall
+ * back to the whole schema. Other indexes (query examples) share the
+ * embeddings and vector store.
+ */
+class RetrievalService {
+  private embedder: EmbeddingProvider | null = null;
+  private store: VectorStore | null = null;
+  // Namespace currently indexed under each key
+  private namespaces = new Map<string, string>();
+  private indexing = new Map<string, Promise<void>>();
+
+  get enabled(): boolean {
+    return process.env.RETRIEVAL_ENABLED !== 'false';
+  }
+
+  private getEmbedder(): EmbeddingProvider {
+    if (!this.embedder) this.embedder = createEmbeddingProvider();
+    return this.embedder;
+  }
+
+  private getStore(): VectorStore {
+    if (!this.store) this.store = createVectorStore();
+    return this.store;
+  }
+
+  async sliceSchema(
+    connection: Connection,
+    question: string,
+    schema: DatabaseSchema,
+    context: DatabaseContext,
+    options: { intent?: QueryIntent; history?: ConversationTurn[] } = {}
+  ): Promise<SchemaSlice> {
+    const budget = envNumber('RETRIEVAL_TOKEN_BUDGET', 8000);
+    const whole: SchemaSlice = {
+      schema,
+      context,
+      collections: schema.collections.map(collection => collection.collectionName),
+      related: [],
+      fields: 0,
+      tokens: estimateTokens(schema) + estimateTokens(context),
+      pruned: false
+    };
+    if (!this.enabled || whole.tokens <= budget) return whole;
+
+    try {
+      const documents = schemaDocuments(schema, context).map(document => ({
+        id: hashKey(document.kind, document.collection, document.path || ''),
+        text: document.text,
+        metadata: document
+      }));
+      const namespace = await this.ensureIndexed(`schema-${connection.id}`, documents);
+      const search = [question, options.intent?.interpretation, options.history?.[options.history.length - 1]?.question]
+        .filter(Boolean)
+        .join('\n');
+      const matches = await this.search<SchemaDocument>(namespace, search, envNumber('RETRIEVAL_TOP_K', 30));
+      const slice = selectSchemaSlice(schema, context, matches, {
+        budget,
+        maxCollections: envNumber('RETRIEVAL_MAX_COLLECTIONS', 3),
+        pinned: [...options.intent?.collections || [], ...historyCollections(options.history)]
+      });
+      if (!slice.collections.length) return whole;
+
+      console.log(`Schema slice for "${question}": ${slice.collections.join(', ')}` +
+        `${slice.related.length ? ` (+ ${slice.related.join(', ')})` : ''}, ${slice.fields} fields, ~${slice.tokens} tokens`);
+      return slice;
+    } catch (error) {
+      console.error('Schema retrieval failed, using the whole schema:', error);
+      return whole;
+    }
+  }
+
+  // Embeds `documents` into a namespace named after `key` and their content,
+  // so changed documents get a fresh index on first use and the old one is
+  // dropped. Returns the namespace to search.
+  async ensureIndexed<T>(key: string, documents: IndexedDocument<T>[]): Promise<string> {
+    const embedder = this.getEmbedder();
+    const fingerprint = hashKey(embedder.name, embedder.model, documents.map(document => [document.id, document.text]));
+    const namespace = `${key}-${fingerprint}`;
+    if (this.namespaces.get(key) === namespace) return namespace;
+
+    let pending = this.indexing.get(namespace);
+    if (!pending) {
+      pending = this.index(namespace, documents).finally(() => this.indexing.delete(namespace));
+      this.indexing.set(namespace, pending);
+    }
+    await pending;
+
+    const previous = this.namespaces.get(key);
+    this.namespaces.set(key, namespace);
+    if (previous && previous !== namespace) {
+      await this.getStore().clear(previous).catch(error => console.error(`Failed to drop old index ${previous}:`, error));
+    }
+    return namespace;
+  }
+
+  async search<T>(namespace: string, text: string, topK: number): Promise<VectorMatch<T>[]> {
+    const [vector] = await this.getEmbedder().embed([text]);
+    return this.getStore().query<T>(namespace, vector, topK);
+  }
+
+  private async index<T>(namespace: string, documents: IndexedDocument<T>[]): Promise<void> {
+    const store = this.getStore();
+    // A persistent store may already hold this exact index from an earlier run
+    if (await store.has(namespace) || !documents.length) return;
+
+    const vectors = await this.getEmbedder().embed(documents.map(document => document.text));
+    await store.upsert(namespace, documents.map((document, i) => ({
+      id: document.id,
+      vector: vectors[i],
+      metadata: document.metadata
+    })));
+  }
+}
+
+export default new RetrievalService();
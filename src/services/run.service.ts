@@ -0,0 +1,182 @@
+import { v4 as uuidv4 } from 'uuid';
+import { envNumber } from '../helpers/config.helper';
+import { executeMongoQuery, streamMongoQuery } from '../helpers/mongo.helper';
+import { parseMongoQuery } from '../helpers/query.helper';
+import { ScopeError } from '../helpers/scope.helper';
+import { AuthenticatedUser } from '../types/auth.types';
+import { Connection } from '../types/connection.types';
+import { ParsedQuery, QueryOperation, QueryResultType } from '../types/query.types';
+import { QueryRun, ResultPage } from '../types/run.types';
+import connectionService from './connection.service';
+import mongoService from './mongo.service';
+import cacheService from './cache.service';
+import policyService from './policy.service';
+import scopeService from './scope.service';
+import maskingService from './masking.service';
+
+export class RunError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'RunError';
+  }
+}
+
+interface CursorToken {
+  runId: string;
+  offset: number;
+  pageSize: number;
+}
+
+const RUN_TTL_MS = 60 * 60 * 1000;
+
+// Runs belong to whoever started them; admins may read every run
+function canAccess(run: QueryRun, user?: AuthenticatedUser): boolean {
+  return !user || user.role === 'admin' || !run.userId || run.userId === user.id;
+}
+
+class RunService {
+  private runs = new Map<string, QueryRun>();
+
+  // No page, stream or offset reaches past this many documents of one run
+  get maxTotalResults(): number {
+    return envNumber('QUERY_MAX_TOTAL_RESULTS', 10000);
+  }
+
+  resolvePageSize(requested?: any): number {
+    const pageSize = Number(requested) > 0 ? Math.floor(Number(requested)) : envNumber('QUERY_PAGE_SIZE', 100);
+    return Math.min(pageSize, mongoService.maxResults);
+  }
+
+  create(
+    connectionId: string,
+    mongoQuery: string,
+    operation: QueryOperation,
+    details: { question?: string; query?: ParsedQuery; userId?: string } = {}
+  ): QueryRun {
+    this.removeExpired();
+    const run: QueryRun = { id: uuidv4(), connectionId, mongoQuery, operation, ...details, createdAt: new Date() };
+    this.runs.set(run.id, run);
+    return run;
+  }
+
+  // With `user`, runs someone else started look like they don't exist, unless the user is an admin
+  get(runId: string, user?: AuthenticatedUser): QueryRun {
+    this.removeExpired();
+    const run = this.runs.get(runId);
+    if (!run || !canAccess(run, user)) throw new RunError('Query run not found or expired', 404);
+    return run;
+  }
+
+  list(connectionId: string, user?: AuthenticatedUser): QueryRun[] {
+    this.removeExpired();
+    return Array.from(this.runs.values()).filter(run => run.connectionId === connectionId && canAccess(run, user));
+  }
+
+  buildPage(run: QueryRun, offset: number, pageSize: number, hasMore: boolean): ResultPage {
+    const nextOffset = offset + pageSize;
+    const canContinue = hasMore && nextOffset < this.maxTotalResults;
+    return {
+      runId: run.id,
+      offset,
+      pageSize,
+      hasMore: canContinue,
+      nextCursor: canContinue ? this.encodeCursor({ runId: run.id, offset: nextOffset, pageSize }) : null
+    };
+  }
+
+  // Re-runs the stored query for the page the cursor points at; the LLM is not involved.
+  async fetchPage(cursor: string, signal?: AbortSignal, user?: AuthenticatedUser): Promise<{
+    run: QueryRun;
+    results: any[];
+    resultType: QueryResultType;
+    page: ResultPage;
+  }> {
+    const token = this.decodeCursor(cursor);
+    const run = this.get(token.runId, user);
+    const { connection, query } = await this.prepare(run, user);
+
+    const limit = Math.min(token.pageSize, this.maxTotalResults - token.offset);
+    const window = { offset: token.offset, limit };
+    const { execution } = await cacheService.execute(
+      connection.id,
+      query,
+      window,
+      () => executeMongoQuery(query, connection, { signal, window, user })
+    );
+    const sanitized = await policyService.sanitizeResults(query, execution.documents);
+    return {
+      run,
+      results: await maskingService.maskResults(query, sanitized, connection, user),
+      resultType: execution.resultType,
+      page: this.buildPage(run, token.offset, token.pageSize, execution.truncated)
+    };
+  }
+
+  // Sends documents from `offset` up to QUERY_MAX_TOTAL_RESULTS one at a time.
+  async stream(
+    runId: string,
+    offset: number,
+    onDocument: (document: any) => Promise<void> | void,
+    signal?: AbortSignal,
+    user?: AuthenticatedUser
+  ): Promise<{ truncated: boolean }> {
+    const run = this.get(runId, user);
+    const { connection, query } = await this.prepare(run, user);
+
+    const limit = this.maxTotalResults - offset;
+    if (limit <= 0) return { truncated: true };
+    const mask = await maskingService.createMasker(query, connection, user);
+    const execution = await streamMongoQuery(query, connection, { offset, limit }, async document => {
+      const [sanitized] = await policyService.sanitizeResults(query, [document]);
+      await onDocument(mask(sanitized));
+    }, { signal, user });
+    return { truncated: execution.truncated };
+  }
+
+  parsedQuery(run: QueryRun): ParsedQuery {
+    return run.query || parseMongoQuery(run.mongoQuery);
+  }
+
+  // The query as it runs for `user`, who may not be the one who started the run
+  private async prepare(run: QueryRun, user?: AuthenticatedUser): Promise<{ connection: Connection; query: ParsedQuery }> {
+    const connection = await connectionService.getConnection(run.connectionId);
+    const query = this.parsedQuery(run);
+    // The policy may have changed since the first page was served
+    const policy = await policyService.evaluate(query);
+    if (!policy.allowed) {
+      throw new RunError(`Query rejected by policy: ${policy.violations.map(v => v.message).join('; ')}`, 403);
+    }
+    try {
+      return { connection, query: await scopeService.apply(query, connection.id, user) };
+    } catch (error) {
+      if (error instanceof ScopeError) throw new RunError(error.message, error.status);
+      throw error;
+    }
+  }
+
+  decodeCursor(cursor: string): CursorToken {
+    try {
+      const token = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+      if (typeof token.runId === 'string' && Number.isInteger(token.offset) && token.offset >= 0
+        && Number.isInteger(token.pageSize) && token.pageSize > 0) {
+        return { runId: token.runId, offset: token.offset, pageSize: this.resolvePageSize(token.pageSize) };
+      }
+    } catch (error) {
+      // fall through to the error below
+    }
+    throw new RunError('Invalid result cursor');
+  }
+
+  private encodeCursor(token: CursorToken): string {
+    return Buffer.from(JSON.stringify(token)).toString('base64url');
+  }
+
+  private removeExpired() {
+    const now = Date.now();
+    for (const [id, run] of this.runs) {
+      if (now - run.createdAt.getTime() > RUN_TTL_MS) this.runs.delete(id);
+    }
+  }
+}
+
+export default new RunService();
@@ -1,40 +1,155 @@
-import { MongoClient } from 'mongodb';
+import { Db, ObjectId } from 'mongodb';
 import { DatabaseConfig, DatabaseSchema, CollectionSchema, FieldInfo } from '../types/schema.types';
 import aiService from './ai.service';
+import mongoService from './mongo.service';
+import { envNumber } from '../helpers/config.helper';
+import { applyEnrichment, resolveFieldPath } from '../helpers/schema.helper';
+import { carryOverEnrichment } from '../helpers/snapshot.helper';
+import { RelationshipCandidate, findRelationshipCandidates, scoreRelationship } from '../helpers/relationship.helper';
+import { Relationship, RelationshipGraph } from '../types/relationship.types';
+
+interface FieldStats {
+  // Times the field was present, including explicit nulls
+  count: number;
+  nullCount: number;
+  // Times the value was an embedded document; denominator for its properties
+  objectCount: number;
+  types: Map<string, number>;
+  properties: Map<string, FieldStats>;
+  // Aggregated over every element of every array seen for the field
+  items?: FieldStats;
+}
+
+const DEFAULT_SAMPLE_SIZE = 100;
+
+// Distinct key values looked up per relationship candidate
+const MAX_OVERLAP_VALUES = 200;
+
+export class SchemaError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'SchemaError';
+  }
+}
 
 class SchemaService {
-  private async getFieldType(value: any): Promise<FieldInfo> {
-    if (value === null) return { type: 'null' };
-    
-    if (Array.isArray(value)) {
-      const itemType = value.length > 0 
-        ? await this.getFieldType(value[0])
-        : { type: 'unknown' };
-      return {
-        type: 'array',
-        items: itemType
-      };
+  // $sample holds every sampled document in memory, so requests can't ask for more than this
+  get maxSampleSize(): number {
+    return envNumber('SCHEMA_MAX_SAMPLE_SIZE', 10000);
+  }
+
+  // A requested sample size must be a positive integer; it is capped at maxSampleSize
+  resolveSampleSize(requested?: any): number {
+    if (requested === undefined || requested === null || requested === '') {
+      return Math.min(envNumber('SCHEMA_SAMPLE_SIZE', DEFAULT_SAMPLE_SIZE), this.maxSampleSize);
     }
-    
-    if (typeof value === 'object') {
-      if (value instanceof Date) return { type: 'date' };
-      
-      const properties: { [key: string]: FieldInfo } = {};
-      for (const [key, val] of Object.entries(value)) {
-        properties[key] = await this.getFieldType(val);
+    const sampleSize = typeof requested === 'number' || typeof requested === 'string' ? Number(requested) : NaN;
+    if (!Number.isInteger(sampleSize) || sampleSize <= 0) {
+      throw new SchemaError('sampleSize must be a positive integer');
+    }
+    return Math.min(sampleSize, this.maxSampleSize);
+  }
+
+  private getBsonType(value: any): string {
+    if (value === null || value === undefined) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (value instanceof Date) return 'date';
+    if (value instanceof RegExp) return 'regex';
+
+    switch (value?._bsontype) {
+      case 'ObjectId':
+      case 'ObjectID': return 'objectId';
+      case 'Decimal128': return 'decimal';
+      case 'Long': return 'long';
+      case 'Int32': return 'int';
+      case 'Double': return 'double';
+      case 'Binary': return value.sub_type === 4 ? 'uuid' : 'binary';
+      case 'Timestamp': return 'timestamp';
+      case 'BSONRegExp': return 'regex';
+      case 'MinKey': return 'minKey';
+      case 'MaxKey': return 'maxKey';
+      case 'Code': return 'javascript';
+      case 'BSONSymbol': return 'symbol';
+      case 'DBRef': return 'dbPointer';
+    }
+
+    if (typeof value === 'object') return 'object';
+    return typeof value;
+  }
+
+  private createFieldStats(): FieldStats {
+    return { count: 0, nullCount: 0, objectCount: 0, types: new Map(), properties: new Map() };
+  }
+
+  // BSON values are leaves: an ObjectId is not walked into as an object.
+  private observeValue(stats: FieldStats, value: any) {
+    const type = this.getBsonType(value);
+    stats.count++;
+    stats.types.set(type, (stats.types.get(type) || 0) + 1);
+
+    if (type === 'null') {
+      stats.nullCount++;
+    } else if (type === 'object') {
+      stats.objectCount++;
+      for (const [key, child] of Object.entries(value)) {
+        let childStats = stats.properties.get(key);
+        if (!childStats) {
+          childStats = this.createFieldStats();
+          stats.properties.set(key, childStats);
+        }
+        this.observeValue(childStats, child);
+      }
+    } else if (type === 'array') {
+      stats.items = stats.items || this.createFieldStats();
+      for (const item of value) {
+        this.observeValue(stats.items, item);
       }
-      return {
-        type: 'object',
-        properties
-      };
     }
-    
-    return { type: typeof value };
+  }
+
+  private toPercentage(count: number, total: number): number {
+    return total === 0 ? 0 : Math.round((count / total) * 1000) / 10;
+  }
+
+  // `containerCount` is how many parent documents/objects could have held the field.
+  private statsToFieldInfo(stats: FieldStats, containerCount: number): FieldInfo {
+    const types = Array.from(stats.types.entries())
+      .filter(([type]) => type !== 'null')
+      .sort((a, b) => b[1] - a[1])
+      .map(([type]) => type);
+
+    const info: FieldInfo = {
+      type: types[0] || 'null',
+      types,
+      presence: this.toPercentage(stats.count, containerCount),
+      nullPercentage: this.toPercentage(stats.nullCount, containerCount)
+    };
+
+    if (stats.objectCount > 0) {
+      info.properties = this.statsToFields(stats.properties, stats.objectCount);
+    }
+    if (stats.items) {
+      info.items = stats.items.count > 0
+        ? this.statsToFieldInfo(stats.items, stats.items.count)
+        : { type: 'unknown' };
+    } else if (info.type === 'array') {
+      info.items = { type: 'unknown' };
+    }
+    return info;
+  }
+
+  private statsToFields(properties: Map<string, FieldStats>, containerCount: number): { [key: string]: FieldInfo } {
+    const fields: { [key: string]: FieldInfo } = {};
+    for (const [key, stats] of properties) {
+      fields[key] = this.statsToFieldInfo(stats, containerCount);
+    }
+    return fields;
   }
 
   private async analyzeCollection(
     collection: any,
-    collectionName: string
+    collectionName: string,
+    sampleSize: number
   ): Promise<CollectionSchema> {
     // First try to get Mongoose schema if available
     try {
@@ -59,7 +174,7 @@ class SchemaService {
     }
 
     // Fall back to sampling method if no schema definitions found
-    return this.analyzeCollectionBySampling(collection, collectionName);
+    return this.analyzeCollectionBySampling(collection, collectionName, sampleSize);
   }
 
   private convertMongooseSchema(mongooseSchema: any, collectionName: string): CollectionSchema {
@@ -185,7 +300,9 @@ class SchemaService {
   private getMongooseType(path: any): string {
     const instance = path.instance?.toLowerCase();
     switch (instance) {
-      case 'objectid': return 'string';
+      case 'objectid': return 'objectId';
+      case 'decimal128': return 'decimal';
+      case 'uuid': return 'uuid';
       case 'number': return 'number';
       case 'string': return 'string';
       case 'boolean': return 'boolean';
@@ -201,11 +318,12 @@ class SchemaService {
 
   private convertBsonType(bsonType: string): string {
     switch (bsonType) {
-      case 'objectId': return 'string';
+      case 'objectId': return 'objectId';
       case 'int':
-      case 'long':
-      case 'double':
-      case 'decimal': return 'number';
+      case 'double': return 'number';
+      case 'long': return 'long';
+      case 'decimal': return 'decimal';
+      case 'timestamp': return 'timestamp';
       case 'string': return 'string';
       case 'bool': return 'boolean';
       case 'date': return 'date';
@@ -218,121 +336,171 @@ class SchemaService {
 
   private async analyzeCollectionBySampling(
     collection: any,
-    collectionName: string
+    collectionName: string,
+    sampleSize: number
   ): Promise<CollectionSchema> {
-    const sampleSize = 100;
-    const documents = await collection.find().limit(sampleSize).toArray();
-    const totalDocuments = await collection.countDocuments();
-    
-    const fields: { [key: string]: Set<string> } = {};
-    const fieldTypes: { [key: string]: FieldInfo } = {};
-
-    // Helper function to process nested fields
-    const processField = async (value: any, path: string[] = []): Promise<void> => {
-      if (value === null || value === undefined) return;
-
-      if (typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
-        // Process each field in the subdocument
-        for (const [key, val] of Object.entries(value)) {
-          const newPath = [...path, key];
-          const fieldPath = newPath.join('.');
-          
-          if (!fields[fieldPath]) {
-            fields[fieldPath] = new Set();
-          }
-          
-          const fieldType = await this.getFieldType(val);
-          fields[fieldPath].add(fieldType.type);
-          
-          if (!fieldTypes[fieldPath]) {
-            fieldTypes[fieldPath] = fieldType;
-          }
-
-          // Recursively process nested objects
-          await processField(val, newPath);
-        }
-      } else if (Array.isArray(value) && value.length > 0) {
-        // Process array items
-        for (const item of value) {
-          await processField(item, path);
-        }
-      }
-    };
+    // $sample picks random documents, so old and new document shapes both show up
+    const { maxTimeMS } = mongoService;
+    const documents = await collection.aggregate([{ $sample: { size: sampleSize } }], { maxTimeMS }).toArray();
+    const totalDocuments = await collection.countDocuments({}, { maxTimeMS });
 
-    // Analyze each document
+    const root = this.createFieldStats();
     for (const doc of documents) {
-      for (const [key, value] of Object.entries(doc)) {
-        if (key === '_id') continue;
-        
-        if (!fields[key]) {
-          fields[key] = new Set();
-        }
-        
-        const fieldType = await this.getFieldType(value);
-        fields[key].add(fieldType.type);
-        
-        if (!fieldTypes[key]) {
-          fieldTypes[key] = fieldType;
-        }
+      this.observeValue(root, doc);
+    }
 
-        // Process nested fields
-        await processField(value, [key]);
-      }
+    return {
+      collectionName,
+      fields: this.statsToFields(root.properties, documents.length),
+      totalDocuments,
+      sampleSize: documents.length
+    };
+  }
+
+  private flattenKeyValues(value: any): any[] {
+    if (Array.isArray(value)) return value.flatMap(item => this.flattenKeyValues(item));
+    return value === null || value === undefined ? [] : [value];
+  }
+
+  private async sampleKeyValues(db: Db, collectionName: string, field: string, sampleSize: number): Promise<any[]> {
+    const documents = await db.collection(collectionName).aggregate([
+      { $match: { [field]: { $exists: true, $ne: null } } },
+      { $sample: { size: sampleSize } },
+      { $project: { _id: 0, value: `$${field}` } }
+    ], { maxTimeMS: mongoService.maxTimeMS }).toArray();
+    return documents.map(doc => doc.value);
+  }
+
+  // Share of distinct sampled values that exist as `_id` in the target collection.
+  private async measureOverlap(db: Db, candidate: RelationshipCandidate, values: any[]): Promise<number | null> {
+    const keys = new Map<string, any>();
+    for (const value of values.flatMap(item => this.flattenKeyValues(item))) {
+      // Keys are often stored as hex strings pointing at ObjectId _ids
+      const key = candidate.targetIdType === 'objectId' && typeof value === 'string' && ObjectId.isValid(value)
+        && value.length === 24 ? new ObjectId(value) : value;
+      keys.set(String(key), key);
+      if (keys.size >= MAX_OVERLAP_VALUES) break;
     }
+    if (keys.size === 0) return null;
 
-    // Convert field information
-    const schemaFields: { [key: string]: FieldInfo } = {};
-    for (const [key, types] of Object.entries(fields)) {
-      schemaFields[key] = {
-        ...fieldTypes[key],
-        required: documents.every((doc: any) => {
-          const parts = key.split('.');
-          let value = doc;
-          for (const part of parts) {
-            if (value === undefined || value === null) return false;
-            value = value[part];
-          }
-          return value !== undefined;
-        })
-      };
+    const matched = await db.collection(candidate.to.collection)
+      .countDocuments({ _id: { $in: Array.from(keys.values()) } }, { maxTimeMS: mongoService.maxTimeMS });
+    return matched / keys.size;
+  }
+
+  // Whether no two documents share a value of `field`: a unique index proves
+  // it, otherwise one duplicate found by grouping the whole collection
+  // disproves it. When the check can't finish in time the key isn't unique.
+  private async isUniqueKey(db: Db, collectionName: string, field: string): Promise<boolean> {
+    const collection = db.collection(collectionName);
+    try {
+      const indexes = await collection.listIndexes().toArray();
+      const uniqueIndex = indexes.some(index => index.unique && !index.partialFilterExpression
+        && Object.keys(index.key).length === 1 && Object.keys(index.key)[0] === field);
+      if (uniqueIndex) return true;
+
+      const duplicates = await collection.aggregate([
+        { $match: { [field]: { $exists: true, $ne: null } } },
+        { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+        { $match: { count: { $gt: 1 } } },
+        { $limit: 1 }
+      ], { maxTimeMS: mongoService.maxTimeMS, allowDiskUse: true }).toArray();
+      return duplicates.length === 0;
+    } catch (error: any) {
+      console.warn(`Could not check whether ${collectionName}.${field} is unique: ${error.message}`);
+      return false;
+    }
+  }
+
+  async discoverRelationships(db: Db, schemas: CollectionSchema[], sampleSize: number): Promise<RelationshipGraph> {
+    const sampled = new Map<string, any[]>();
+    const uniqueKeys = new Map<string, boolean>();
+    const relationships: Relationship[] = [];
+
+    for (const candidate of findRelationshipCandidates(schemas)) {
+      const sampleKey = `${candidate.from.collection}:${candidate.from.field}`;
+      let values = sampled.get(sampleKey);
+      if (!values) {
+        values = await this.sampleKeyValues(db, candidate.from.collection, candidate.from.field, sampleSize);
+        sampled.set(sampleKey, values);
+      }
+
+      const overlap = await this.measureOverlap(db, candidate, values);
+      if (!scoreRelationship(candidate, values, overlap)) continue;
+
+      // Only relationships that are kept pay for the duplicate check
+      let unique = uniqueKeys.get(sampleKey);
+      if (unique === undefined && !candidate.isArray) {
+        unique = await this.isUniqueKey(db, candidate.from.collection, candidate.from.field);
+        uniqueKeys.set(sampleKey, unique);
+      }
+      relationships.push(scoreRelationship(candidate, values, overlap, unique)!);
     }
 
+    relationships.sort((a, b) => b.confidence - a.confidence);
     return {
-      collectionName,
-      fields: schemaFields,
-      totalDocuments
+      databaseName: db.databaseName,
+      generatedAt: new Date().toISOString(),
+      relationships
     };
   }
 
-  async analyzeDatabase(config: DatabaseConfig): Promise<DatabaseSchema> {
-    const client = new MongoClient(config.uri);
-  
-    try {
-      await client.connect();
-      const db = client.db();
-      const collections = await db.listCollections().toArray();
-      const collectionSchemas: CollectionSchema[] = [];
-  
-      for (const collection of collections) {
-        const collectionObj = db.collection(collection.name);
-        const schema = await this.analyzeCollection(collectionObj, collection.name);
-  
-        // Enrich fields dynamically using OpenAI
-        console.log('Analyzing collection:', collection.name);
-       const enrichedFields = await aiService.enrichFieldsWithOpenAI(schema.fields, collection.name);
-       schema.fields = enrichedFields;
-       console.log('Enriched fields:', schema.fields);
-        collectionSchemas.push(schema);
-        console.log('PUSHED');
+  // Only new or retyped fields go to the LLM; the rest keep their earlier enrichment.
+  private async enrichCollection(schema: CollectionSchema, previous?: CollectionSchema): Promise<void> {
+    const pending = carryOverEnrichment(previous, schema);
+    if (pending.length === 0) {
+      console.log(`No field changes in ${schema.collectionName}, keeping enrichment`);
+      return;
+    }
+
+    const changedFields: { [path: string]: FieldInfo } = {};
+    for (const fieldPath of pending) {
+      const { field } = resolveFieldPath(schema.fields, fieldPath);
+      // Nested fields are listed under their own paths
+      if (field) {
+        changedFields[fieldPath] = {
+          ...field,
+          properties: undefined,
+          items: field.items && { type: field.items.type, types: field.items.types }
+        };
       }
-  
-      return {
-        databaseName: db.databaseName,
-        collections: collectionSchemas
-      };
-    } finally {
-      await client.close();
     }
+
+    console.log(`Enriching ${pending.length} fields in ${schema.collectionName}`);
+    const enrichedFields = await aiService.enrichFieldsWithOpenAI(changedFields, schema.collectionName);
+    schema.fields = applyEnrichment(schema.fields, enrichedFields);
+  }
+
+  async analyzeDatabase(config: DatabaseConfig, previous?: DatabaseSchema | null): Promise<DatabaseSchema> {
+    const client = await mongoService.getClient(config.uri);
+    const sampleSize = this.resolveSampleSize(config.sampleSize);
+
+    const db = client.db(config.databaseName);
+    const collections = await db.listCollections().toArray();
+    const collectionSchemas: CollectionSchema[] = [];
+    // A baseline from another database would carry over unrelated descriptions
+    const baseline = previous?.databaseName === db.databaseName ? previous : null;
+
+    for (const collection of collections) {
+      const collectionObj = db.collection(collection.name);
+      const schema = await this.analyzeCollection(collectionObj, collection.name, sampleSize);
+
+      console.log('Analyzing collection:', collection.name);
+      await this.enrichCollection(
+        schema,
+        baseline?.collections.find(c => c.collectionName === collection.name)
+      );
+      collectionSchemas.push(schema);
+    }
+
+    const relationships = await this.discoverRelationships(db, collectionSchemas, sampleSize);
+    console.log(`Discovered ${relationships.relationships.length} relationships`);
+
+    return {
+      databaseName: db.databaseName,
+      collections: collectionSchemas,
+      relationships
+    };
   }
   
 
@@ -0,0 +1,78 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import { BSON, Document } from 'mongodb';
+import { globToRegExp } from '../helpers/config.helper';
+import { applyScopes, ScopeLookup } from '../helpers/scope.helper';
+import { isPlainObject } from '../helpers/query.helper';
+import { AuthenticatedUser } from '../types/auth.types';
+import { ParsedQuery } from '../types/query.types';
+import { ScopeConfig, ScopeRule } from '../types/scope.types';
+
+const DEFAULT_CONFIG: ScopeConfig = { rules: [] };
+
+function appliesTo(rule: ScopeRule, connectionId: string, user?: AuthenticatedUser): boolean {
+  if (rule.connectionId && rule.connectionId !== connectionId) return false;
+  if (!rule.users?.length && !rule.roles?.length) return true;
+  if (!user) return false;
+  return !!rule.users?.some(entry => entry === user.id || entry.toLowerCase() === user.email)
+    || !!rule.roles?.includes(user.role);
+}
+
+/**
+ * Row-level scoping: rules in data/scope_rules.json give users or roles a
+ * mandatory filter per collection, applied to every query right before it
+ * runs, whatever the model wrote.
+ */
+class ScopeService {
+  private rulesPath: string;
+  private config: ScopeConfig | null = null;
+
+  constructor() {
+    this.rulesPath = process.env.SCOPE_RULES_PATH || path.join(__dirname, '../../data/scope_rules.json');
+  }
+
+  // A malformed file fails every query instead of letting them run unscoped
+  async loadConfig(): Promise<ScopeConfig> {
+    if (this.config) return this.config;
+
+    try {
+      const data = BSON.EJSON.parse(await fs.readFile(this.rulesPath, 'utf-8'));
+      const rules: ScopeRule[] = data.rules || [];
+      rules.forEach((rule, index) => {
+        if (typeof rule.collection !== 'string' || !isPlainObject(rule.filter) || !Object.keys(rule.filter).length) {
+          throw new Error(`Scope rule ${index} needs a collection and a non-empty filter`);
+        }
+      });
+      this.config = { rules };
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+      this.config = DEFAULT_CONFIG;
+    }
+    return this.config;
+  }
+
+  // Null when no rule applies to the user on this connection
+  async scopesFor(connectionId: string, user?: AuthenticatedUser): Promise<ScopeLookup | null> {
+    const config = await this.loadConfig();
+    const rules = config.rules
+      .filter(rule => appliesTo(rule, connectionId, user))
+      .map(rule => ({ pattern: globToRegExp(rule.collection), filter: rule.filter }));
+    if (!rules.length) return null;
+
+    // Every rule that matches a collection applies: a user covered by two rules sees where they overlap
+    return (collection: string) => {
+      const filters: Document[] = rules.filter(rule => rule.pattern.test(collection)).map(rule => rule.filter);
+      if (!filters.length) return null;
+      return filters.length === 1 ? filters[0] : { $and: filters };
+    };
+  }
+
+  // The query as it must run for `user`; throws a ScopeError when the query
+  // reads a scoped collection in a way no filter can restrict
+  async apply(query: ParsedQuery, connectionId: string, user?: AuthenticatedUser): Promise<ParsedQuery> {
+    const scopeFor = await this.scopesFor(connectionId, user);
+    return scopeFor ? applyScopes(query, scopeFor) : query;
+  }
+}
+
+export default new ScopeService();
@@ -0,0 +1,146 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { QueryResult } from '../types/ai.types';
+import { AuthenticatedUser } from '../types/auth.types';
+import {
+  ConversationTurn,
+  CreateSessionDto,
+  ResultSummary,
+  Session,
+  SessionSummary
+} from '../types/session.types';
+
+const SAMPLE_SIZE = 3;
+const MAX_SAMPLE_CHARS = 1000;
+
+// Turns hold samples scoped and masked for the owner, so nobody else but an admin may see them
+function canAccess(session: Session, user?: AuthenticatedUser): boolean {
+  return !user || user.role === 'admin' || !session.userId || session.userId === user.id;
+}
+
+class SessionService {
+  private sessionsDir: string;
+  private sessions = new Map<string, Session>();
+  private loaded = false;
+
+  constructor() {
+    this.sessionsDir = path.join(__dirname, '../../data/sessions');
+  }
+
+  private async loadSessions(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    let files: string[];
+    try {
+      files = await fs.readdir(this.sessionsDir);
+    } catch (error) {
+      return;
+    }
+
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      try {
+        const session: Session = JSON.parse(await fs.readFile(path.join(this.sessionsDir, file), 'utf-8'));
+        this.sessions.set(session.id, session);
+      } catch (error) {
+        console.error(`Skipping unreadable session file ${file}:`, error);
+      }
+    }
+  }
+
+  private async saveSession(session: Session): Promise<void> {
+    await fs.mkdir(this.sessionsDir, { recursive: true });
+    await fs.writeFile(
+      path.join(this.sessionsDir, `${session.id}.json`),
+      JSON.stringify(session, null, 2)
+    );
+  }
+
+  async createSession(data: CreateSessionDto = {}, user?: AuthenticatedUser): Promise<Session> {
+    await this.loadSessions();
+    const now = new Date();
+    const session: Session = {
+      id: uuidv4(),
+      title: data.title || 'New conversation',
+      connectionId: data.connectionId,
+      userId: user?.id,
+      turns: [],
+      createdAt: now,
+      updatedAt: now
+    };
+    this.sessions.set(session.id, session);
+    await this.saveSession(session);
+    return session;
+  }
+
+  // With `user`, only the sessions they may see
+  async getAllSessions(user?: AuthenticatedUser): Promise<SessionSummary[]> {
+    await this.loadSessions();
+    return Array.from(this.sessions.values())
+      .filter(session => canAccess(session, user))
+      .map(({ id, title, connectionId, userId, turns, createdAt, updatedAt }) => ({
+        id,
+        title,
+        connectionId,
+        userId,
+        turnCount: turns.length,
+        createdAt,
+        updatedAt
+      }))
+      .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+  }
+
+  // With `user`, sessions someone else started look like they don't exist, unless the user is an admin
+  async getSessionById(id: string, user?: AuthenticatedUser): Promise<Session | null> {
+    await this.loadSessions();
+    const session = this.sessions.get(id);
+    return session && canAccess(session, user) ? session : null;
+  }
+
+  async deleteSession(id: string, user?: AuthenticatedUser): Promise<boolean> {
+    if (!await this.getSessionById(id, user)) return false;
+    this.sessions.delete(id);
+    await fs.rm(path.join(this.sessionsDir, `${id}.json`), { force: true });
+    return true;
+  }
+
+  async addTurn(id: string, question: string, result: QueryResult): Promise<ConversationTurn | null> {
+    const session = await this.getSessionById(id);
+    if (!session) return null;
+
+    const turn: ConversationTurn = {
+      id: uuidv4(),
+      question,
+      mongoQuery: result.mongoQuery,
+      explanation: result.explanation,
+      resultSummary: this.summarizeResults(result.results),
+      clarification: result.intent?.interpretation,
+      createdAt: new Date()
+    };
+    session.turns.push(turn);
+    session.updatedAt = turn.createdAt;
+    // Name untitled conversations after their first question
+    if (session.turns.length === 1 && session.title === 'New conversation') {
+      session.title = question.slice(0, 80);
+    }
+    await this.saveSession(session);
+    return turn;
+  }
+
+  private summarizeResults(results: any[]): ResultSummary {
+    const fields = new Set<string>();
+    results.slice(0, 20).forEach(doc => {
+      if (doc && typeof doc === 'object') Object.keys(doc).forEach(key => fields.add(key));
+    });
+
+    const sample = results.slice(0, SAMPLE_SIZE).map(doc => {
+      const serialized = JSON.stringify(doc);
+      return serialized.length > MAX_SAMPLE_CHARS ? `${serialized.slice(0, MAX_SAMPLE_CHARS)}...` : JSON.parse(serialized);
+    });
+
+    return { count: results.length, fields: Array.from(fields), sample };
+  }
+}
+
+export default new SessionService();
@@ -0,0 +1,107 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import { countChanges, diffSchemas } from '../helpers/snapshot.helper';
+import { normalizeDatabaseSchema } from '../helpers/schema.helper';
+import { ConnectionArtifacts } from '../types/connection.types';
+import { DatabaseSchema } from '../types/schema.types';
+import { SchemaDiff, SchemaSnapshot, SchemaSnapshotSummary } from '../types/snapshot.types';
+
+export class SnapshotNotFoundError extends Error {
+  constructor(version: number) {
+    super(`Schema version ${version} not found`);
+    this.name = 'SnapshotNotFoundError';
+  }
+}
+
+// Snapshots live in each connection's `schema_snapshots/` directory.
+class SnapshotService {
+  private snapshotPath(artifacts: ConnectionArtifacts, version: number): string {
+    return path.join(artifacts.snapshotsDir, `v${version}.json`);
+  }
+
+  private async listVersionNumbers(artifacts: ConnectionArtifacts): Promise<number[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(artifacts.snapshotsDir);
+    } catch (error) {
+      return [];
+    }
+    return files
+      .map(file => /^v(\d+)\.json$/.exec(file))
+      .filter((match): match is RegExpExecArray => !!match)
+      .map(match => Number(match[1]))
+      .sort((a, b) => a - b);
+  }
+
+  async getSnapshot(artifacts: ConnectionArtifacts, version: number): Promise<SchemaSnapshot | null> {
+    try {
+      const snapshot: SchemaSnapshot = JSON.parse(await fs.readFile(this.snapshotPath(artifacts, version), 'utf-8'));
+      return { ...snapshot, schema: normalizeDatabaseSchema(snapshot.schema) };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async getLatestSnapshot(artifacts: ConnectionArtifacts): Promise<SchemaSnapshot | null> {
+    const versions = await this.listVersionNumbers(artifacts);
+    return versions.length ? this.getSnapshot(artifacts, versions[versions.length - 1]) : null;
+  }
+
+  // Baseline for incremental enrichment; analyses saved before versioning
+  // existed only live in schema_analysis.json.
+  async getLatestSchema(artifacts: ConnectionArtifacts): Promise<DatabaseSchema | null> {
+    const latest = await this.getLatestSnapshot(artifacts);
+    if (latest) return latest.schema;
+    try {
+      return normalizeDatabaseSchema(JSON.parse(await fs.readFile(artifacts.analysisPath, 'utf-8')));
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async listSnapshots(artifacts: ConnectionArtifacts): Promise<SchemaSnapshotSummary[]> {
+    const summaries: SchemaSnapshotSummary[] = [];
+    for (const version of await this.listVersionNumbers(artifacts)) {
+      const snapshot = await this.getSnapshot(artifacts, version);
+      if (!snapshot) continue;
+      summaries.push({
+        version,
+        databaseName: snapshot.databaseName,
+        createdAt: snapshot.createdAt,
+        collectionCount: snapshot.schema.collections.length,
+        changeCount: countChanges(snapshot.changes)
+      });
+    }
+    return summaries.reverse();
+  }
+
+  async saveSnapshot(artifacts: ConnectionArtifacts, schema: DatabaseSchema): Promise<SchemaSnapshot> {
+    const previous = await this.getLatestSnapshot(artifacts);
+    const version = previous ? previous.version + 1 : 1;
+
+    const snapshot: SchemaSnapshot = {
+      version,
+      databaseName: schema.databaseName,
+      createdAt: new Date(),
+      schema,
+      changes: previous ? diffSchemas(previous.schema, schema, previous.version, version) : null
+    };
+
+    await fs.mkdir(artifacts.snapshotsDir, { recursive: true });
+    await fs.writeFile(this.snapshotPath(artifacts, version), JSON.stringify(snapshot, null, 2));
+    return snapshot;
+  }
+
+  async diffVersions(artifacts: ConnectionArtifacts, fromVersion: number, toVersion: number): Promise<SchemaDiff> {
+    const [from, to] = await Promise.all([
+      this.getSnapshot(artifacts, fromVersion),
+      this.getSnapshot(artifacts, toVersion)
+    ]);
+    if (!from) throw new SnapshotNotFoundError(fromVersion);
+    if (!to) throw new SnapshotNotFoundError(toVersion);
+    return diffSchemas(from.schema, to.schema, fromVersion, toVersion);
+  }
+}
+
+export default new SnapshotService();
@@ -1,48 +1,204 @@
-import { User, CreateUserDto } from '../types/user.types';
+import * as fs from 'fs/promises';
+import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
+import { generateApiKey, hashApiKey, hashPassword, verifyPassword } from '../helpers/auth.helper';
+import { ApiKey, CreateUserDto, StoredUser, UpdateUserDto, User, USER_ROLES } from '../types/user.types';
+
+const EMAIL = /^[^\s@]+@[^\s@]+$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+export class UserError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'UserError';
+  }
+}
+
+// Drops the password and key hashes
+function toUser({ passwordHash, apiKeys, ...user }: StoredUser): User {
+  return { ...user, apiKeys: apiKeys.map(({ hash, ...apiKey }) => apiKey) };
+}
 
 class UserService {
-  private users: User[] = [];
+  private dataDir = path.join(__dirname, '../../data');
+  private usersPath = path.join(this.dataDir, 'users.json');
+  private users = new Map<string, StoredUser>();
+  private loading: Promise<void> | null = null;
+
+  // The first admin comes from AUTH_ADMIN_EMAIL / AUTH_ADMIN_PASSWORD while no user exists
+  private loadUsers(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const users: StoredUser[] = JSON.parse(await fs.readFile(this.usersPath, 'utf-8'));
+          users.forEach(user => this.users.set(user.id, user));
+        } catch (error: any) {
+          if (error.code !== 'ENOENT') throw error;
+        }
+        const email = process.env.AUTH_ADMIN_EMAIL;
+        const password = process.env.AUTH_ADMIN_PASSWORD;
+        if (this.users.size === 0 && email && password) {
+          await this.insertUser({ name: 'Administrator', email, password, role: 'admin' });
+          console.log(`Created admin user ${email}`);
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  private async saveUsers(): Promise<void> {
+    await fs.mkdir(this.dataDir, { recursive: true });
+    await fs.writeFile(this.usersPath, JSON.stringify(Array.from(this.users.values()), null, 2));
+  }
+
+  private findByEmail(email: string): StoredUser | undefined {
+    const normalized = email.trim().toLowerCase();
+    return Array.from(this.users.values()).find(user => user.email === normalized);
+  }
+
+  private async validate(data: UpdateUserDto, current?: StoredUser): Promise<void> {
+    if (data.email !== undefined) {
+      if (typeof data.email !== 'string' || !EMAIL.test(data.email.trim())) throw new UserError('A valid email is required');
+      const existing = this.findByEmail(data.email);
+      if (existing && existing.id !== current?.id) throw new UserError(`A user with email ${data.email} already exists`, 409);
+    }
+    if (data.name !== undefined && (typeof data.name !== 'string' || !data.name.trim())) {
+      throw new UserError('name must be a non-empty string');
+    }
+    if (data.role !== undefined && !USER_ROLES.includes(data.role)) {
+      throw new UserError(`role must be one of: ${USER_ROLES.join(', ')}`);
+    }
+    if (data.password !== undefined && (typeof data.password !== 'string' || data.password.length < MIN_PASSWORD_LENGTH)) {
+      throw new UserError(`password must have at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+    // Demoting the last admin would leave nobody able to manage users
+    if (current?.role === 'admin' && data.role && data.role !== 'admin' && this.adminCount() === 1) {
+      throw new UserError('The last admin cannot be demoted', 409);
+    }
+  }
+
+  private adminCount(): number {
+    return Array.from(this.users.values()).filter(user => user.role === 'admin').length;
+  }
+
+  private async insertUser(userData: CreateUserDto): Promise<StoredUser> {
+    const now = new Date();
+    const user: StoredUser = {
+      id: uuidv4(),
+      name: userData.name.trim(),
+      email: userData.email.trim().toLowerCase(),
+      role: userData.role || 'viewer',
+      passwordHash: userData.password ? await hashPassword(userData.password) : undefined,
+      apiKeys: [],
+      createdAt: now,
+      updatedAt: now
+    };
+    this.users.set(user.id, user);
+    await this.saveUsers();
+    return user;
+  }
 
   async getAllUsers(): Promise<User[]> {
-    return this.users;
+    await this.loadUsers();
+    return Array.from(this.users.values()).map(toUser);
   }
 
   async getUserById(id: string): Promise<User | null> {
-    const user = this.users.find(u => u.id === id);
-    return user || null;
+    await this.loadUsers();
+    const user = this.users.get(id);
+    return user ? toUser(user) : null;
   }
 
   async createUser(userData: CreateUserDto): Promise<User> {
-    const newUser: User = {
-      id: uuidv4(),
-      ...userData,
-      createdAt: new Date()
-    };
-    
-    this.users.push(newUser);
-    return newUser;
+    await this.loadUsers();
+    if (!userData || userData.email === undefined || userData.name === undefined) {
+      throw new UserError('name and email are required');
+    }
+    await this.validate(userData);
+    return toUser(await this.insertUser(userData));
   }
 
-  async updateUser(id: string, userData: Partial<CreateUserDto>): Promise<User | null> {
-    const userIndex = this.users.findIndex(u => u.id === id);
-    if (userIndex === -1) return null;
+  async updateUser(id: string, userData: UpdateUserDto): Promise<User | null> {
+    await this.loadUsers();
+    const user = this.users.get(id);
+    if (!user) return null;
+    await this.validate(userData, user);
 
-    this.users[userIndex] = {
-      ...this.users[userIndex],
-      ...userData
+    const updated: StoredUser = {
+      ...user,
+      name: userData.name?.trim() ?? user.name,
+      email: userData.email?.trim().toLowerCase() ?? user.email,
+      role: userData.role ?? user.role,
+      passwordHash: userData.password ? await hashPassword(userData.password) : user.passwordHash,
+      updatedAt: new Date()
     };
-
-    return this.users[userIndex];
+    this.users.set(id, updated);
+    await this.saveUsers();
+    return toUser(updated);
   }
 
   async deleteUser(id: string): Promise<boolean> {
-    const userIndex = this.users.findIndex(u => u.id === id);
-    if (userIndex === -1) return false;
+    await this.loadUsers();
+    const user = this.users.get(id);
+    if (!user) return false;
+    if (user.role === 'admin' && this.adminCount() === 1) throw new UserError('The last admin cannot be deleted', 409);
 
-    this.users.splice(userIndex, 1);
+    this.users.delete(id);
+    await this.saveUsers();
     return true;
   }
+
+  // The key itself is returned only here; afterwards only its prefix is known
+  async createApiKey(userId: string, name?: string): Promise<{ key: string; apiKey: ApiKey }> {
+    await this.loadUsers();
+    const user = this.users.get(userId);
+    if (!user) throw new UserError('User not found', 404);
+
+    const key = generateApiKey();
+    const apiKey: ApiKey = {
+      id: uuidv4(),
+      name: typeof name === 'string' && name.trim() ? name.trim() : 'API key',
+      prefix: key.slice(0, 10),
+      createdAt: new Date()
+    };
+    user.apiKeys.push({ ...apiKey, hash: hashApiKey(key) });
+    await this.saveUsers();
+    return { key, apiKey };
+  }
+
+  async revokeApiKey(userId: string, keyId: string): Promise<boolean> {
+    await this.loadUsers();
+    const user = this.users.get(userId);
+    if (!user) throw new UserError('User not found', 404);
+
+    const remaining = user.apiKeys.filter(apiKey => apiKey.id !== keyId);
+    if (remaining.length === user.apiKeys.length) return false;
+    user.apiKeys = remaining;
+    await this.saveUsers();
+    return true;
+  }
+
+  // Null when the email is unknown, the user has no password or it doesn't match
+  async verifyCredentials(email: string, password: string): Promise<User | null> {
+    await this.loadUsers();
+    const user = this.findByEmail(email);
+    if (!user?.passwordHash) return null;
+    return await verifyPassword(password, user.passwordHash) ? toUser(user) : null;
+  }
+
+  async findByApiKey(key: string): Promise<User | null> {
+    await this.loadUsers();
+    const hash = hashApiKey(key);
+    for (const user of this.users.values()) {
+      const apiKey = user.apiKeys.find(candidate => candidate.hash === hash);
+      if (!apiKey) continue;
+      apiKey.lastUsedAt = new Date();
+      // Usage timestamps aren't worth failing the request over
+      this.saveUsers().catch(error => console.error('Failed to save API key usage:', error));
+      return toUser(user);
+    }
+    return null;
+  }
 }
 
-export default new UserService(); 
\ No newline at end of file
+export default new UserService();
@@ -0,0 +1,57 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import { BSON } from 'mongodb';
+import { CacheEntry, CacheStore } from '../types/cache.types';
+
+export const DEFAULT_CACHE_DIR = path.join(__dirname, '../../data/cache');
+
+/**
+ * Stores one file per entry under `<dir>/<namespace>/`, so cached generations
+ * survive restarts. Values are written as Extended JSON to keep ObjectIds,
+ * dates and decimals intact.
+ */
+export class FileCacheStore implements CacheStore {
+  readonly name = 'file';
+
+  constructor(private readonly cacheDir = process.env.CACHE_DIR || DEFAULT_CACHE_DIR) {}
+
+  private entryPath(namespace: string, key: string): string {
+    return path.join(this.namespaceDir(namespace), `${key}.json`);
+  }
+
+  private namespaceDir(namespace: string): string {
+    const segments = namespace.split('/').map(segment => segment.replace(/[^a-zA-Z0-9_-]/g, '_'));
+    return path.join(this.cacheDir, ...segments);
+  }
+
+  async get<T = any>(namespace: string, key: string): Promise<CacheEntry<T> | null> {
+    let entry: CacheEntry<T>;
+    try {
+      entry = BSON.EJSON.parse(await fs.readFile(this.entryPath(namespace, key), 'utf-8')) as CacheEntry<T>;
+    } catch (error: any) {
+      // A half-written or unreadable entry is just a miss
+      if (error.code !== 'ENOENT') await this.delete(namespace, key);
+      return null;
+    }
+    if (entry.expiresAt && new Date(entry.expiresAt).getTime() <= Date.now()) {
+      await this.delete(namespace, key);
+      return null;
+    }
+    return entry;
+  }
+
+  async set<T = any>(namespace: string, key: string, value: T, ttlMs?: number): Promise<void> {
+    const createdAt = new Date();
+    const entry: CacheEntry<T> = { value, createdAt, expiresAt: ttlMs ? new Date(createdAt.getTime() + ttlMs) : null };
+    await fs.mkdir(this.namespaceDir(namespace), { recursive: true });
+    await fs.writeFile(this.entryPath(namespace, key), BSON.EJSON.stringify(entry, { relaxed: false }), 'utf-8');
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    await fs.rm(this.entryPath(namespace, key), { force: true });
+  }
+
+  async clear(namespace: string): Promise<void> {
+    await fs.rm(this.namespaceDir(namespace), { recursive: true, force: true });
+  }
+}
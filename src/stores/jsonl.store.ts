@@ -0,0 +1,53 @@
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import path from 'path';
+import readline from 'readline';
+import { matchesAuditFilter } from '../helpers/audit.helper';
+import { AuditEntry, AuditFilter, AuditStore } from '../types/audit.types';
+
+export const DEFAULT_AUDIT_FILE = path.join(__dirname, '../../data/audit/audit.jsonl');
+
+/**
+ * One JSON line per entry, opened in append mode for every write. Reads scan
+ * the whole file but hold no more than the page asked for, which is fine for a
+ * history endpoint but not for analytics.
+ */
+export class JsonlAuditStore implements AuditStore {
+  readonly name = 'jsonl';
+
+  constructor(private readonly filePath = process.env.AUDIT_FILE || DEFAULT_AUDIT_FILE) {}
+
+  async append(entry: AuditEntry): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, JSON.stringify(entry) + '\n', { encoding: 'utf-8', flag: 'a' });
+  }
+
+  async find(filter: AuditFilter): Promise<AuditEntry[]> {
+    // The file is oldest first: only the newest offset + limit matches can be
+    // on the page, so they're kept in a ring that overwrites older ones
+    const size = filter.offset + filter.limit;
+    const newest: AuditEntry[] = [];
+    let matched = 0;
+    let lines: readline.Interface;
+    try {
+      await fs.access(this.filePath);
+      lines = readline.createInterface({ input: createReadStream(this.filePath, 'utf-8'), crlfDelay: Infinity });
+    } catch (error) {
+      return [];
+    }
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const entry: AuditEntry = JSON.parse(line);
+        entry.timestamp = new Date(entry.timestamp);
+        if (size > 0 && matchesAuditFilter(entry, filter)) newest[matched++ % size] = entry;
+      } catch (error) {
+        // A line cut short by a crash shouldn't hide the rest of the log
+      }
+    }
+    const kept = newest.length;
+    const oldest = matched - kept;
+    return Array.from({ length: kept }, (_, i) => newest[(oldest + kept - 1 - i) % size]).slice(filter.offset);
+  }
+}
@@ -0,0 +1,43 @@
+import { CacheEntry, CacheStore } from '../types/cache.types';
+
+/**
+ * Keeps entries in process memory. Each namespace holds at most `maxEntries`;
+ * the oldest entry is dropped to make room for a new one.
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly name = 'memory';
+  private namespaces = new Map<string, Map<string, CacheEntry>>();
+
+  constructor(private readonly maxEntries = 500) {}
+
+  async get<T = any>(namespace: string, key: string): Promise<CacheEntry<T> | null> {
+    const entries = this.namespaces.get(namespace);
+    const entry = entries?.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt && entry.expiresAt.getTime() <= Date.now()) {
+      entries!.delete(key);
+      return null;
+    }
+    return entry;
+  }
+
+  async set<T = any>(namespace: string, key: string, value: T, ttlMs?: number): Promise<void> {
+    let entries = this.namespaces.get(namespace);
+    if (!entries) {
+      entries = new Map();
+      this.namespaces.set(namespace, entries);
+    }
+    entries.delete(key);
+    if (entries.size >= this.maxEntries) entries.delete(entries.keys().next().value!);
+    const createdAt = new Date();
+    entries.set(key, { value, createdAt, expiresAt: ttlMs ? new Date(createdAt.getTime() + ttlMs) : null });
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    this.namespaces.get(namespace)?.delete(key);
+  }
+
+  async clear(namespace: string): Promise<void> {
+    this.namespaces.delete(namespace);
+  }
+}
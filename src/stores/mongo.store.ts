@@ -0,0 +1,66 @@
+import { Collection, Filter } from 'mongodb';
+import mongoService from '../services/mongo.service';
+import { AuditEntry, AuditFilter, AuditStore } from '../types/audit.types';
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Writes entries to a collection, by default `query_audit` in the database of
+ * MONGODB_URI. Use a user that can only insert and find on it to keep the log
+ * append-only on the server as well.
+ */
+export class MongoAuditStore implements AuditStore {
+  readonly name = 'mongo';
+  private indexed: Promise<unknown> | null = null;
+
+  constructor(
+    private readonly uri = process.env.AUDIT_MONGODB_URI || process.env.MONGODB_URI || '',
+    private readonly databaseName = process.env.AUDIT_DATABASE,
+    private readonly collectionName = process.env.AUDIT_COLLECTION || 'query_audit'
+  ) {}
+
+  private async collection(): Promise<Collection<AuditEntry>> {
+    if (!this.uri) throw new Error('AUDIT_MONGODB_URI or MONGODB_URI is required for the mongo audit store');
+    const client = await mongoService.getClient(this.uri);
+    const collection = client.db(this.databaseName).collection<AuditEntry>(this.collectionName);
+    if (!this.indexed) {
+      this.indexed = collection.createIndexes([
+        { key: { timestamp: -1 } },
+        { key: { userId: 1, timestamp: -1 } },
+        { key: { connectionId: 1, timestamp: -1 } }
+      ]).catch(error => {
+        this.indexed = null;
+        console.error('Failed to create audit indexes:', error);
+      });
+    }
+    return collection;
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    // The driver adds _id to the object it inserts
+    await (await this.collection()).insertOne({ ...entry });
+  }
+
+  async find(filter: AuditFilter): Promise<AuditEntry[]> {
+    const query: Filter<AuditEntry> = {};
+    if (filter.userId) query.userId = filter.userId;
+    if (filter.connectionId) query.connectionId = filter.connectionId;
+    if (filter.type) query.type = filter.type;
+    if (filter.outcome) query.outcome = filter.outcome;
+    if (filter.from || filter.to) {
+      query.timestamp = { ...(filter.from && { $gte: filter.from }), ...(filter.to && { $lte: filter.to }) };
+    }
+    if (filter.text) {
+      const pattern = new RegExp(escapeRegex(filter.text), 'i');
+      query.$or = [{ question: pattern }, { mongoQuery: pattern }];
+    }
+    return (await this.collection())
+      .find(query, { projection: { _id: 0 }, maxTimeMS: mongoService.maxTimeMS })
+      .sort({ timestamp: -1 })
+      .skip(filter.offset)
+      .limit(filter.limit)
+      .toArray() as Promise<AuditEntry[]>;
+  }
+}
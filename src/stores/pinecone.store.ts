@@ -0,0 +1,60 @@
+import { Index, Pinecone, RecordMetadata } from '@pinecone-database/pinecone';
+import { VectorMatch, VectorRecord, VectorStore } from '../types/retrieval.types';
+
+/**
+ * Keeps vectors in a Pinecone index (PINECONE_INDEX), one Pinecone namespace
+ * per store namespace, so they survive restarts and are shared between
+ * servers. The index must use the cosine metric and the dimension of the
+ * configured embeddings. Metadata must be flat: strings, numbers, booleans
+ * and lists of strings.
+ */
+export class PineconeVectorStore implements VectorStore {
+  readonly name = 'pinecone';
+  private index: Index | null = null;
+
+  constructor(
+    private readonly apiKey = process.env.PINECONE_API_KEY,
+    private readonly indexName = process.env.PINECONE_INDEX
+  ) {}
+
+  // Created on first use so the server can start without Pinecone settings.
+  private getIndex(): Index {
+    if (!this.index) {
+      if (!this.apiKey || !this.indexName) {
+        throw new Error('PINECONE_API_KEY and PINECONE_INDEX are required for the pinecone vector store');
+      }
+      this.index = new Pinecone({ apiKey: this.apiKey }).index(this.indexName);
+    }
+    return this.index;
+  }
+
+  async has(namespace: string): Promise<boolean> {
+    const stats = await this.getIndex().describeIndexStats();
+    return !!stats.namespaces?.[namespace]?.recordCount;
+  }
+
+  async upsert<T = any>(namespace: string, records: VectorRecord<T>[]): Promise<void> {
+    const index = this.getIndex().namespace(namespace);
+    for (let start = 0; start < records.length; start += 100) {
+      await index.upsert(records.slice(start, start + 100).map(record => ({
+        id: record.id,
+        values: record.vector,
+        // Pinecone rejects undefined and null metadata values
+        metadata: JSON.parse(JSON.stringify(record.metadata)) as RecordMetadata
+      })));
+    }
+  }
+
+  async query<T = any>(namespace: string, vector: number[], topK: number): Promise<VectorMatch<T>[]> {
+    const response = await this.getIndex().namespace(namespace).query({ vector, topK, includeMetadata: true });
+    return response.matches.map(match => ({
+      id: match.id,
+      score: match.score ?? 0,
+      metadata: match.metadata as T
+    }));
+  }
+
+  async clear(namespace: string): Promise<void> {
+    await this.getIndex().namespace(namespace).deleteAll();
+  }
+}
@@ -0,0 +1,49 @@
+import { VectorMatch, VectorRecord, VectorStore } from '../types/retrieval.types';
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm ? vector.map(value => value / norm) : vector;
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length && i < b.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Keeps vectors in process memory and compares a query with every one of
+ * them, which is fast enough for the few thousand fields of a schema. The
+ * index is rebuilt after a restart.
+ */
+export class MemoryVectorStore implements VectorStore {
+  readonly name = 'memory';
+  private namespaces = new Map<string, Map<string, VectorRecord>>();
+
+  async has(namespace: string): Promise<boolean> {
+    return !!this.namespaces.get(namespace)?.size;
+  }
+
+  async upsert<T = any>(namespace: string, records: VectorRecord<T>[]): Promise<void> {
+    let entries = this.namespaces.get(namespace);
+    if (!entries) {
+      entries = new Map();
+      this.namespaces.set(namespace, entries);
+    }
+    for (const record of records) {
+      entries.set(record.id, { ...record, vector: normalize(record.vector) });
+    }
+  }
+
+  async query<T = any>(namespace: string, vector: number[], topK: number): Promise<VectorMatch<T>[]> {
+    const query = normalize(vector);
+    return [...this.namespaces.get(namespace)?.values() || []]
+      .map(record => ({ id: record.id, score: dot(query, record.vector), metadata: record.metadata }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async clear(namespace: string): Promise<void> {
+    this.namespaces.delete(namespace);
+  }
+}
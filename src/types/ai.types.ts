@@ -1,3 +1,10 @@
+import { PolicyReport } from './policy.types';
+import { ValidationReport } from './validation.types';
+import { QueryOperation, QueryResultType } from './query.types';
+import { ResultPage } from './run.types';
+import { QueryExplain } from './explain.types';
+import { CacheStatus } from './cache.types';
+
 export interface DatabaseContext {
   schemaDescription: string;
   relationships: string[];
@@ -21,18 +28,73 @@ export interface QueryResult {
   mongoQuery: string;
   explanation: string;
   results: any[];
+  // find, aggregate, countDocuments, distinct, ...; resultType tells how to read `results`
+  operation?: QueryOperation;
+  resultType?: QueryResultType;
+  // More results exist than were returned; `page` tells how to fetch them
+  truncated?: boolean;
+  page?: ResultPage;
   needsClarification: boolean;
   clarificationMessage?: string;
+  clarification?: ClarificationResponse;
+  intent?: QueryIntent;
+  policy?: PolicyReport;
+  validation?: ValidationReport;
+  attempts?: QueryAttempt[];
+  // Plan summary and index suggestions, when the request asked for `explain`
+  explain?: QueryExplain;
+  // Whether the query and its results came from the cache
+  cache?: CacheStatus;
+}
+
+export type QueryAttemptOutcome =
+  | 'success'
+  | 'parse_error'
+  | 'policy_violation'
+  | 'validation_error'
+  | 'execution_error'
+  | 'empty_result';
+
+export interface QueryAttempt {
+  attempt: number;
+  mongoQuery: string;
+  explanation?: string;
+  // What the model changed compared to the previous attempt
+  fix?: string;
+  outcome: QueryAttemptOutcome;
+  error?: string;
+  resultCount?: number;
+}
+
+export interface ClarificationOption {
+  id: string;
+  label: string;
+  description?: string;
+  collections?: string[];
+  intentType?: QueryIntent['type'];
 }
 
 export interface ClarificationResponse {
   needsClarification: boolean;
+  clarificationId?: string;
   question?: string;
-  options?: string[];
+  options?: ClarificationOption[];
 }
 
 export interface QueryIntent {
   isAmbiguous: boolean;
   type?: 'regular-gold' | 'goal-gold';
   originalQuery: string;
+  // The interpretation the user picked when the request was ambiguous
+  interpretation?: string;
+  collections?: string[];
+}
+
+export interface RequirementsAnalysis {
+  canProceed: boolean;
+  relevantCollections: string[];
+  relevantFields: string[];
+  reasoning: string;
+  suggestedClarification?: string;
+  options?: ClarificationOption[];
 } 
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { CacheStatus } from './cache.types';
+import { LLMCallRecord } from './llm.types';
+import { QueryOperation } from './query.types';
+import { UserRole } from './user.types';
+
+export type AuditStoreName = 'jsonl' | 'mongo';
+
+export type AuditEventType = 'nl_query' | 'saved_query' | 'results_page' | 'results_stream' | 'results_export';
+
+export type AuditOutcome =
+  | 'success'
+  | 'empty_result'
+  | 'clarification'
+  | 'policy_violation'
+  | 'error'
+  | 'cancelled';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: Date;
+  type: AuditEventType;
+  // Null when the request didn't identify a user
+  userId: string | null;
+  userRole?: UserRole;
+  ip?: string;
+  connectionId?: string;
+  sessionId?: string;
+  runId?: string;
+  savedQueryId?: string;
+  // Values a saved query ran with
+  parameters?: { [name: string]: any };
+  question?: string;
+  mongoQuery?: string;
+  operation?: QueryOperation;
+  outcome: AuditOutcome;
+  policy?: { allowed: boolean; violations: string[] };
+  attempts?: number;
+  resultCount?: number;
+  truncated?: boolean;
+  durationMs: number;
+  cache?: CacheStatus;
+  llm?: { calls: LLMCallRecord[]; totalTokens: number };
+  error?: string;
+}
+
+export interface AuditFilter {
+  userId?: string;
+  connectionId?: string;
+  type?: AuditEventType;
+  outcome?: AuditOutcome;
+  from?: Date;
+  to?: Date;
+  // Case-insensitive match against the question and the query
+  text?: string;
+  limit: number;
+  offset: number;
+}
+
+// Entries are only ever appended; no store can change or remove one
+export interface AuditStore {
+  readonly name: AuditStoreName;
+  append(entry: AuditEntry): Promise<void>;
+  // Newest first
+  find(filter: AuditFilter): Promise<AuditEntry[]>;
+}
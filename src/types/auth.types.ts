@@ -0,0 +1,34 @@
+import { UserRole } from './user.types';
+
+export type AuthMethod = 'token' | 'api_key' | 'disabled';
+
+// The caller of a request, as resolved by the authenticate middleware
+export interface AuthenticatedUser {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  method: AuthMethod;
+}
+
+// Claims of the tokens POST /api/auth/login issues (HS256 JWT)
+export interface TokenPayload {
+  sub: string;
+  role: UserRole;
+  iat: number;
+  exp: number;
+}
+
+export interface LoginResult {
+  token: string;
+  expiresAt: Date;
+  user: AuthenticatedUser;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthenticatedUser;
+    }
+  }
+}
@@ -0,0 +1,34 @@
+export type CacheStoreName = 'memory' | 'file';
+
+export interface CacheEntry<T = any> {
+  value: T;
+  createdAt: Date;
+  // Null keeps the entry until its namespace is cleared
+  expiresAt: Date | null;
+}
+
+// Entries are grouped in namespaces (e.g. `generations/<connectionId>`) so a
+// whole group can be dropped at once.
+export interface CacheStore {
+  readonly name: CacheStoreName;
+  get<T = any>(namespace: string, key: string): Promise<CacheEntry<T> | null>;
+  set<T = any>(namespace: string, key: string, value: T, ttlMs?: number): Promise<void>;
+  delete(namespace: string, key: string): Promise<void>;
+  clear(namespace: string): Promise<void>;
+}
+
+// A query generated earlier for the same question, schema and context
+export interface CachedGeneration {
+  mongoQuery: string;
+  explanation?: string;
+}
+
+export type CacheOutcome = 'hit' | 'miss' | 'bypass';
+
+export interface CacheStatus {
+  generation: CacheOutcome;
+  results: CacheOutcome;
+  // When the cached entry that was served was created
+  generatedAt?: Date;
+  executedAt?: Date;
+}
@@ -0,0 +1,46 @@
+export interface Connection {
+  id: string;
+  name: string;
+  uri: string;
+  // Database to use; defaults to the one named in the URI
+  databaseName?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Where a connection's analysis results are stored
+export interface ConnectionArtifacts {
+  dir: string;
+  analysisPath: string;
+  relationshipsPath: string;
+  contextPath: string;
+  schemaPath: string;
+  snapshotsDir: string;
+}
+
+// Credentials in `uri` are masked
+export interface ConnectionSummary {
+  id: string;
+  name: string;
+  uri: string;
+  databaseName?: string;
+  schemaVersion: number | null;
+  hasContext: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateConnectionDto {
+  id?: string;
+  name?: string;
+  uri: string;
+  databaseName?: string;
+}
+
+export interface ConnectionHealth {
+  id: string;
+  uri: string;
+  status: 'ok' | 'unreachable';
+  latencyMs: number;
+  error?: string;
+}
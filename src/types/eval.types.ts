@@ -0,0 +1,127 @@
+import { QueryIntent } from './ai.types';
+import { ExampleEntry } from './example.types';
+import { LLMConfig } from './llm.types';
+import { QueryOperation } from './query.types';
+
+// What the generated query must look like, whatever it returns
+export interface EvalQueryShape {
+  collection?: string;
+  operation?: QueryOperation;
+  // Stored field paths the query must read, filter, sort or group on
+  fields?: string[];
+  // Stage names the pipeline must contain, in this order
+  stages?: string[];
+}
+
+export interface EvalExpectation {
+  // Documents, distinct values or `[{ count }]` the query must return (Extended
+  // JSON). Only the top-level keys of expected documents are compared.
+  results?: any[];
+  // Compare results in order; otherwise in any order
+  ordered?: boolean;
+  query?: EvalQueryShape;
+}
+
+export interface EvalCase {
+  id: string;
+  question: string;
+  // The user's answer to a clarification question, for questions meant to be ambiguous
+  intent?: QueryIntent;
+  expected: EvalExpectation;
+  tags?: string[];
+}
+
+// Paths are relative to the dataset file
+export interface EvalDataset {
+  name: string;
+  // Database the fixtures are loaded into (default eval_<name>)
+  databaseName?: string;
+  // Documents per collection, inline or as a path to an Extended JSON array
+  fixtures: { [collection: string]: any[] | string };
+  // Schema analysis and context to generate from; analyzed and generated
+  // from the fixtures with the configured LLM when missing
+  schema?: string;
+  context?: string;
+  // Query examples available to the run, inline or as a path
+  examples?: ExampleEntry[] | string;
+  cases: EvalCase[];
+}
+
+// A prompt or model setup to evaluate: environment variables applied while it
+// runs, e.g. LLM_PROVIDER, LLM_INTENT_QUERY_MODEL, LLM_FIXTURES_DIR, RETRIEVAL_ENABLED
+export interface EvalConfig {
+  name: string;
+  env?: { [name: string]: string };
+}
+
+export type EvalOutcome = 'success' | 'empty_result' | 'clarification' | 'policy_violation' | 'error';
+
+export interface EvalCaseResult {
+  id: string;
+  question: string;
+  tags?: string[];
+  outcome: EvalOutcome;
+  mongoQuery: string;
+  // Null when the case doesn't expect results or a shape
+  resultsMatch: boolean | null;
+  shapeMatch: boolean | null;
+  shapeIssues: string[];
+  // Collections and field paths the query uses, and the ones missing from the schema
+  fieldPaths: { total: number; invalid: string[] };
+  correct: boolean;
+  attempts: number;
+  resultCount: number;
+  tokens: number;
+  durationMs: number;
+  error?: string;
+}
+
+// Shares are 0-1; null when no case expects results (or a shape)
+export interface EvalMetrics {
+  cases: number;
+  // Cases whose query ran
+  executionRate: number;
+  // Cases whose query ran and met every expectation
+  accuracy: number;
+  resultAccuracy: number | null;
+  shapeAccuracy: number | null;
+  // Queries whose every field path exists, and field paths that exist
+  validQueryRate: number;
+  validFieldPathRate: number;
+  averageAttempts: number;
+  totalTokens: number;
+  averageDurationMs: number;
+}
+
+export interface EvalReport {
+  dataset: string;
+  // Secret-looking variables are masked
+  config: EvalConfig;
+  llm: LLMConfig;
+  startedAt: Date;
+  finishedAt: Date;
+  metrics: EvalMetrics;
+  byTag: { [tag: string]: EvalMetrics };
+  cases: EvalCaseResult[];
+}
+
+export interface EvalCaseChange {
+  id: string;
+  question: string;
+  baseline: Pick<EvalCaseResult, 'outcome' | 'correct' | 'mongoQuery'>;
+  candidate: Pick<EvalCaseResult, 'outcome' | 'correct' | 'mongoQuery'>;
+}
+
+export interface EvalComparison {
+  dataset: string;
+  baseline: string;
+  candidate: string;
+  metrics: { [metric in keyof EvalMetrics]: { baseline: number | null; candidate: number | null; delta: number | null } };
+  // Cases correct in the baseline only, and in the candidate only
+  regressions: EvalCaseChange[];
+  improvements: EvalCaseChange[];
+  // Cases whose query text changed without changing correctness
+  changedQueries: number;
+  // Case ids found in only one of the reports
+  unmatched: string[];
+}
@@ -0,0 +1,50 @@
+// sample: from the sample queries of the generated context; history: promoted
+// from a run or a conversation turn; import: added from a file or by hand
+export type ExampleSource = 'sample' | 'history' | 'import';
+
+// A question with a query known to answer it, shown to the model as a
+// demonstration when a similar question comes in
+export interface QueryExample {
+  id: string;
+  connectionId: string;
+  question: string;
+  mongoQuery: string;
+  explanation?: string;
+  source: ExampleSource;
+  // Where an example from history came from
+  runId?: string;
+  sessionId?: string;
+  turnId?: string;
+  // Id of the user who added it
+  createdBy?: string;
+  createdAt: Date;
+}
+
+export interface ExampleEntry {
+  question: string;
+  mongoQuery: string;
+  explanation?: string;
+}
+
+// Promotes `runId`, or `turnId` of `sessionId`, from history; otherwise adds
+// the question and query to `connectionId`
+export interface CreateExampleDto {
+  runId?: string;
+  sessionId?: string;
+  turnId?: string;
+  connectionId?: string;
+  question?: string;
+  mongoQuery?: string;
+  explanation?: string;
+}
+
+export interface ImportExamplesDto {
+  connectionId?: string;
+  examples: ExampleEntry[];
+}
+
+// Entries that don't parse, break the policy or name unknown fields are skipped
+export interface ExampleImportResult {
+  imported: number;
+  skipped: { index: number; question?: string; error: string }[];
+}
@@ -0,0 +1,45 @@
+export type ScanType = 'COLLSCAN' | 'IXSCAN' | 'mixed' | 'none';
+
+// Winning plan of explain("executionStats"), summed across shards
+export interface PlanSummary {
+  scanType: ScanType;
+  // Stage names of the winning plan, outermost first
+  stages: string[];
+  indexesUsed: string[];
+  docsExamined: number;
+  keysExamined: number;
+  nReturned: number;
+  executionTimeMs: number;
+}
+
+export interface IndexInfo {
+  name: string;
+  keys: { [field: string]: any };
+}
+
+export interface IndexSuggestion {
+  collection: string;
+  // Equality fields, then sort fields, then range fields
+  keys: { [field: string]: 1 | -1 };
+  reason: string;
+}
+
+export interface QueryExplain {
+  collection: string;
+  // Null for operations that read only collection metadata
+  plan: PlanSummary | null;
+  existingIndexes: IndexInfo[];
+  suggestions: IndexSuggestion[];
+}
+
+export interface IndexRecommendation extends IndexSuggestion {
+  queryCount: number;
+  exampleQueries: string[];
+}
+
+export interface IndexReport {
+  connectionId: string;
+  generatedAt: Date;
+  queriesAnalyzed: number;
+  recommendations: IndexRecommendation[];
+}
@@ -0,0 +1,8 @@
+export type ExportFormat = 'csv' | 'xlsx' | 'ndjson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'ndjson'];
+
+// Flattened document: dotted path to a formatted scalar
+export interface ExportRow {
+  [column: string]: string | number | boolean | null;
+}
@@ -0,0 +1,63 @@
+import { ParsedQuery } from './query.types';
+
+export type ParameterType = 'string' | 'number' | 'decimal' | 'date' | 'objectId' | 'boolean';
+
+// A literal of the saved query that can be replaced when it runs
+export interface QueryParameter {
+  name: string;
+  // Location of the literal in the parsed query, e.g. ['filter', 'createdAt', '$gte']
+  path: (string | number)[];
+  type: ParameterType;
+  // Values of $in, $nin and $all are lists of `type`
+  list: boolean;
+  // Document field the literal is compared with, when it refers to the collection
+  field?: string;
+  operator: string;
+  defaultValue: any;
+}
+
+export interface SavedQuery {
+  id: string;
+  connectionId: string;
+  name: string;
+  question: string;
+  description?: string;
+  mongoQuery: string;
+  query: ParsedQuery;
+  parameters: QueryParameter[];
+  runCount: number;
+  lastRunAt?: Date;
+  // Id of the user who saved it
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SavedQuerySummary {
+  id: string;
+  connectionId: string;
+  name: string;
+  question: string;
+  parameters: string[];
+  runCount: number;
+  lastRunAt?: Date;
+  updatedAt: Date;
+}
+
+// Either `runId` of a query that already ran, or the question and query text
+export interface CreateSavedQueryDto {
+  runId?: string;
+  connectionId?: string;
+  name?: string;
+  question?: string;
+  description?: string;
+  mongoQuery?: string;
+}
+
+export interface UpdateSavedQueryDto {
+  name?: string;
+  question?: string;
+  description?: string;
+  // Renames parameters: { oldName: newName }
+  parameterNames?: { [name: string]: string };
+}
@@ -0,0 +1,66 @@
+export type LLMStep =
+  | 'contextGeneration'
+  | 'fieldEnrichment'
+  | 'intentQuery'
+  | 'requirementsAnalysis'
+  | 'queryRepair'
+  | 'test';
+
+export type LLMProviderName = 'openai' | 'local' | 'fixture';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+}
+
+export interface FunctionDefinition {
+  name: string;
+  description?: string;
+  parameters: Record<string, any>;
+}
+
+export interface FunctionCallRequest extends ChatRequest {
+  function: FunctionDefinition;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMResponse<T = string> {
+  content: T;
+  model: string;
+  provider: string;
+  usage?: LLMUsage;
+}
+
+// One model call made while handling a request, as reported by LLMService.trackUsage
+export interface LLMCallRecord {
+  step: LLMStep;
+  provider: string;
+  model: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  chat(request: ChatRequest): Promise<LLMResponse<string>>;
+  json<T = any>(request: ChatRequest): Promise<LLMResponse<T>>;
+  callFunction<T = any>(request: FunctionCallRequest): Promise<LLMResponse<T>>;
+}
+
+export interface LLMStepConfig {
+  provider: LLMProviderName;
+  model: string;
+  temperature?: number;
+}
+
+export type LLMConfig = { [step in LLMStep]: LLMStepConfig };
@@ -0,0 +1,45 @@
+import { UserRole } from './user.types';
+
+// `none` leaves the value as it is, e.g. to exempt one field from its tags
+export type MaskStrategy = 'redact' | 'partial' | 'hash' | 'none';
+
+export const MASK_STRATEGIES: MaskStrategy[] = ['none', 'partial', 'hash', 'redact'];
+
+export interface MaskRule {
+  strategy: MaskStrategy;
+  // Roles that see the value unmasked
+  reveal?: UserRole[];
+}
+
+export interface MaskingConfig {
+  // Rules for fields carrying a tag from the schema enrichment
+  tags: { [tag: string]: MaskRule };
+  // `<collection>.<field path>` patterns, `*` matches one collection name or
+  // path segment; these take the place of the field's tag rules
+  fields: { [pattern: string]: MaskRule };
+}
+
+// A field of a collection a result value was read or computed from; an empty
+// path is the whole document
+export interface SourceField {
+  collection: string;
+  path: string;
+}
+
+export interface LineageEntry {
+  sources: SourceField[];
+  // The value is a copy of its sources (a projected sub-document, a $lookup),
+  // so its sub-paths come from the same sub-paths of the sources
+  nested: boolean;
+}
+
+// Where each field of a query's output comes from
+export interface OutputLineage {
+  // By output path, for fields the query renamed, computed or joined
+  fields: { [path: string]: LineageEntry };
+  // Collections whose fields are still in the output under their own path
+  passthrough: string[];
+  // Sources every output field may derive from, after stages like $replaceRoot
+  // whose output can't be traced field by field
+  shared: LineageEntry[];
+}
@@ -0,0 +1,35 @@
+export interface PatternList {
+  allow?: string[];
+  deny?: string[];
+}
+
+export interface QueryPolicyConfig {
+  // Collection name patterns, `*` matches any run of characters
+  collections: PatternList;
+  // `<collection>.<field path>` patterns; `*` matches one collection name or path segment
+  fields: PatternList;
+  // Extra operators to reject on top of the built-in write/server-side JS list
+  deniedOperators: string[];
+}
+
+export type PolicyViolationCode =
+  | 'WRITE_OPERATION'
+  | 'UNSUPPORTED_OPERATION'
+  | 'FORBIDDEN_OPERATOR'
+  | 'COLLECTION_NOT_ALLOWED'
+  | 'FIELD_NOT_ALLOWED'
+  | 'SCOPE_NOT_ENFORCEABLE';
+
+export interface PolicyViolation {
+  code: PolicyViolationCode;
+  message: string;
+  location?: string;
+  collection?: string;
+  field?: string;
+  operator?: string;
+}
+
+export interface PolicyReport {
+  allowed: boolean;
+  violations: PolicyViolation[];
+}
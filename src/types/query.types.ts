@@ -0,0 +1,138 @@
+import { Document } from 'mongodb';
+
+export type CursorModifierName =
+  | 'sort'
+  | 'limit'
+  | 'skip'
+  | 'project'
+  | 'hint'
+  | 'collation'
+  | 'maxTimeMS'
+  | 'comment'
+  | 'batchSize';
+
+export interface CursorModifier {
+  name: CursorModifierName;
+  value: any;
+}
+
+interface BaseQuery {
+  collectionName: string;
+  modifiers: CursorModifier[];
+}
+
+export interface FindQuery extends BaseQuery {
+  operation: 'find' | 'findOne';
+  filter: Document;
+  projection?: Document;
+  options: Document;
+}
+
+export interface AggregateQuery extends BaseQuery {
+  operation: 'aggregate';
+  pipeline: Document[];
+  options: Document;
+}
+
+// `count()` and `find().count()` are read as countDocuments
+export interface CountQuery extends BaseQuery {
+  operation: 'countDocuments';
+  filter: Document;
+  options: Document;
+}
+
+export interface EstimatedCountQuery extends BaseQuery {
+  operation: 'estimatedDocumentCount';
+  options: Document;
+}
+
+export interface DistinctQuery extends BaseQuery {
+  operation: 'distinct';
+  field: string;
+  filter: Document;
+  options: Document;
+}
+
+// Any other collection method (update, deleteMany, drop, ...). The parser keeps
+// it so later stages can report it instead of failing with a syntax error.
+export interface UnsupportedQuery extends BaseQuery {
+  operation: 'unsupported';
+  method: string;
+  args: any[];
+}
+
+export type ParsedQuery =
+  | FindQuery
+  | AggregateQuery
+  | CountQuery
+  | EstimatedCountQuery
+  | DistinctQuery
+  | UnsupportedQuery;
+
+export type QueryOperation = Exclude<ParsedQuery['operation'], 'unsupported'>;
+
+// What `results` holds: documents, a single `{ count }` document, or distinct values
+export type QueryResultType = 'documents' | 'count' | 'values';
+
+// How a field reference relates to the documents flowing through the query:
+// - collection: a stored field of `collection`, checkable against its schema
+// - computed:   a field produced by an earlier pipeline stage
+// - missing:    a field that no longer exists after a reshaping stage
+// - unknown:    the document shape at this point can't be tracked statically
+export type FieldResolution = 'collection' | 'computed' | 'missing' | 'unknown';
+
+export type FieldReferenceSource =
+  | 'filter'
+  | 'projection'
+  | 'sort'
+  | 'expression'
+  | 'lookup'
+  | 'stage'
+  | 'distinct';
+
+export interface FieldReference {
+  collection: string;
+  // Dotted path relative to `collection`; empty for whole-document references
+  // ($$ROOT, or a whole $lookup alias copied by an expression)
+  path: string;
+  location: string;
+  source: FieldReferenceSource;
+  resolution: FieldResolution;
+}
+
+export interface CollectionReference {
+  collection: string;
+  location: string;
+}
+
+export interface OperatorReference {
+  operator: string;
+  location: string;
+}
+
+export interface OutputShape {
+  collection: string;
+  // `$lookup`/`$graphLookup` aliases still present in the output, by foreign collection
+  aliases: { [alias: string]: string };
+  reshaped: boolean;
+}
+
+export interface QueryReferences {
+  collections: CollectionReference[];
+  fields: FieldReference[];
+  operators: OperatorReference[];
+  output: OutputShape;
+}
+
+// Slice of the results to read: `limit` documents after the first `offset`
+export interface ResultWindow {
+  offset: number;
+  limit: number;
+}
+
+export interface QueryExecution {
+  resultType: QueryResultType;
+  documents: any[];
+  // More documents matched than QUERY_MAX_RESULTS allows
+  truncated: boolean;
+}
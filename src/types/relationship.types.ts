@@ -0,0 +1,30 @@
+// Seen from the referencing side: many-to-one means many `from` documents
+// point at the same `to` document.
+export type RelationshipCardinality = 'one-to-one' | 'many-to-one' | 'many-to-many';
+
+export type RelationshipEvidence = 'naming' | 'type' | 'values';
+
+export interface RelationshipEndpoint {
+  collection: string;
+  field: string;
+}
+
+export interface Relationship {
+  from: RelationshipEndpoint;
+  to: RelationshipEndpoint;
+  cardinality: RelationshipCardinality;
+  // 0-1; naming and type matches alone never exceed 0.5
+  confidence: number;
+  // The referencing field holds an array of keys, or sits inside an array
+  isArray: boolean;
+  evidence: RelationshipEvidence[];
+  // Share of sampled key values found in the target collection (0-1)
+  overlap?: number;
+  sampledValues?: number;
+}
+
+export interface RelationshipGraph {
+  databaseName: string;
+  generatedAt: string;
+  relationships: Relationship[];
+}
@@ -0,0 +1,67 @@
+import { DatabaseContext } from './ai.types';
+import { DatabaseSchema } from './schema.types';
+
+export type EmbeddingProviderName = 'hashing' | 'openai' | 'local';
+
+export type VectorStoreName = 'memory' | 'pinecone';
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  // Vectors from different models (or dimensions) can't be compared
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// A text to embed, with what a match on it should return
+export interface IndexedDocument<T = any> {
+  id: string;
+  text: string;
+  metadata: T;
+}
+
+export interface VectorRecord<T = any> {
+  id: string;
+  vector: number[];
+  metadata: T;
+}
+
+export interface VectorMatch<T = any> {
+  id: string;
+  // Cosine similarity, higher is closer
+  score: number;
+  metadata: T;
+}
+
+// Records are grouped in namespaces (e.g. one per connection and schema
+// version) so a whole index can be dropped at once.
+export interface VectorStore {
+  readonly name: VectorStoreName;
+  has(namespace: string): Promise<boolean>;
+  upsert<T = any>(namespace: string, records: VectorRecord<T>[]): Promise<void>;
+  query<T = any>(namespace: string, vector: number[], topK: number): Promise<VectorMatch<T>[]>;
+  clear(namespace: string): Promise<void>;
+}
+
+export type SchemaDocumentKind = 'collection' | 'field';
+
+// What gets embedded for a collection or for one field path in it
+export interface SchemaDocument {
+  kind: SchemaDocumentKind;
+  collection: string;
+  path?: string;
+  text: string;
+}
+
+// The part of the schema and context a prompt is built from
+export interface SchemaSlice {
+  schema: DatabaseSchema;
+  context: DatabaseContext;
+  // Collections the question matched, then the ones related to them
+  collections: string[];
+  related: string[];
+  fields: number;
+  // Estimated prompt tokens of schema and context together
+  tokens: number;
+  // False when the whole schema fit within the budget and was used as is
+  pruned: boolean;
+}
@@ -0,0 +1,24 @@
+import { ParsedQuery, QueryOperation } from './query.types';
+
+// A query that already ran, kept so further pages can be read without the LLM
+export interface QueryRun {
+  id: string;
+  connectionId: string;
+  mongoQuery: string;
+  operation: QueryOperation;
+  question?: string;
+  // Saved queries run with bound parameters; `mongoQuery` is then their template
+  query?: ParsedQuery;
+  // Who started the run; only they and admins can read its results
+  userId?: string;
+  createdAt: Date;
+}
+
+export interface ResultPage {
+  runId: string;
+  offset: number;
+  pageSize: number;
+  hasMore: boolean;
+  // Pass to GET /api/ai/results for the next page; null on the last page
+  nextCursor: string | null;
+}
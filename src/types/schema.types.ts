@@ -1,22 +1,50 @@
+import { RelationshipGraph } from './relationship.types';
+
 export interface DatabaseConfig {
   uri: string;
+  // Database to analyze when the URI doesn't name one
+  databaseName?: string;
+  // Documents to sample per collection (default SCHEMA_SAMPLE_SIZE or 100, at most SCHEMA_MAX_SAMPLE_SIZE)
+  sampleSize?: number;
 }
 
 export interface FieldInfo {
+  // Most frequent non-null BSON type: string, number, int, long, double, decimal, boolean,
+  // date, timestamp, objectId, uuid, binary, regex, object, array, null, unknown
   type: string;
+  // Every non-null type observed while sampling, most frequent first
+  types?: string[];
+  // Share of parent documents containing the field, and holding null in it (0-100)
+  presence?: number;
+  nullPercentage?: number;
   required?: boolean;
   items?: FieldInfo;  // For array types
   properties?: { [key: string]: FieldInfo };  // For object types
   additionalProperties?: FieldInfo;  // For maps/dynamic objects
+  semanticMeaning?: string;
+  importance?: number;
+  tags?: string[];
+}
+
+// Field descriptions returned by enrichFieldsWithOpenAI, keyed by dotted path.
+// Older analyses stored these in place of the FieldInfo tree.
+export interface EnrichedField {
+  field: string;
+  semanticMeaning: string;
+  importance: number;
+  tags: string[];
 }
 
 export interface CollectionSchema {
   collectionName: string;
   fields: { [key: string]: FieldInfo };
   totalDocuments: number;
+  sampleSize?: number;
 }
 
 export interface DatabaseSchema {
   databaseName: string;
   collections: CollectionSchema[];
+  // Discovered during analysis; stored separately in data/relationships.json
+  relationships?: RelationshipGraph;
 } 
\ No newline at end of file
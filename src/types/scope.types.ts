@@ -0,0 +1,23 @@
+import { Document } from 'mongodb';
+import { UserRole } from './user.types';
+
+// A filter every query for the matching users must apply to a collection
+export interface ScopeRule {
+  // Collection name pattern, `*` matches any run of characters
+  collection: string;
+  // Limits the rule to one connection; applies to all when omitted
+  connectionId?: string;
+  // User ids or emails, and roles, the rule applies to; a rule naming
+  // neither applies to everyone
+  users?: string[];
+  roles?: UserRole[];
+  // Extended JSON, so `{ "$oid": ... }` and `{ "$date": ... }` work
+  filter: Document;
+}
+
+export interface ScopeConfig {
+  rules: ScopeRule[];
+}
+
+// Mandatory filter per collection name, already combined across rules
+export type CollectionScopes = { [collection: string]: Document };
@@ -0,0 +1,44 @@
+export interface ResultSummary {
+  count: number;
+  fields: string[];
+  sample: any[];
+}
+
+export interface ConversationTurn {
+  id: string;
+  question: string;
+  mongoQuery: string;
+  explanation: string;
+  resultSummary: ResultSummary;
+  // Interpretation the user chose when this turn needed clarification
+  clarification?: string;
+  createdAt: Date;
+}
+
+export interface Session {
+  id: string;
+  title: string;
+  // Database every turn runs against; sessions created before connections use the default
+  connectionId?: string;
+  // Who started the conversation; only they and admins can see or continue it.
+  // Sessions created before users have no owner.
+  userId?: string;
+  turns: ConversationTurn[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SessionSummary {
+  id: string;
+  title: string;
+  connectionId?: string;
+  userId?: string;
+  turnCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateSessionDto {
+  title?: string;
+  connectionId?: string;
+}
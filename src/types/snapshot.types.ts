@@ -0,0 +1,37 @@
+import { DatabaseSchema } from './schema.types';
+
+export type FieldChangeKind = 'added' | 'removed' | 'type_changed';
+
+export interface FieldChange {
+  kind: FieldChangeKind;
+  collection: string;
+  path: string;
+  // Type descriptions such as `string`, `array<objectId>` or `number|string`
+  before?: string;
+  after?: string;
+}
+
+export interface SchemaDiff {
+  fromVersion: number | null;
+  toVersion: number;
+  addedCollections: string[];
+  removedCollections: string[];
+  fields: FieldChange[];
+}
+
+export interface SchemaSnapshot {
+  version: number;
+  databaseName: string;
+  createdAt: Date;
+  schema: DatabaseSchema;
+  // Changes against the previous snapshot; null for the first one
+  changes: SchemaDiff | null;
+}
+
+export interface SchemaSnapshotSummary {
+  version: number;
+  databaseName: string;
+  createdAt: Date;
+  collectionCount: number;
+  changeCount: number;
+}
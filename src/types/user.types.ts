@@ -1,11 +1,43 @@
+// Each role can do everything the ones before it can
+export type UserRole = 'viewer' | 'analyst' | 'admin';
+
+export const USER_ROLES: UserRole[] = ['viewer', 'analyst', 'admin'];
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  // First characters of the key, enough to tell keys apart
+  prefix: string;
+  createdAt: Date;
+  lastUsedAt?: Date;
+}
+
 export interface User {
   id: string;
   name: string;
   email: string;
+  role: UserRole;
+  apiKeys: ApiKey[];
   createdAt: Date;
+  updatedAt: Date;
+}
+
+// What data/users.json holds; hashes never leave the user service
+export interface StoredUser extends Omit<User, 'apiKeys'> {
+  passwordHash?: string;
+  apiKeys: (ApiKey & { hash: string })[];
 }
 
 export interface CreateUserDto {
   name: string;
   email: string;
-} 
\ No newline at end of file
+  role?: UserRole;
+  password?: string;
+}
+
+export interface UpdateUserDto {
+  name?: string;
+  email?: string;
+  role?: UserRole;
+  password?: string;
+}
@@ -0,0 +1,15 @@
+export type ValidationIssueKind = 'unknown_collection' | 'unknown_field' | 'missing_field';
+
+export interface ValidationIssue {
+  kind: ValidationIssueKind;
+  message: string;
+  collection: string;
+  path?: string;
+  location: string;
+  suggestions: string[];
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  issues: ValidationIssue[];
+}
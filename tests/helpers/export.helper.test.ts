@@ -0,0 +1,23 @@
+import { escapeFormula, toCsvLine } from '../../src/helpers/export.helper';
+
+describe('toCsvLine', () => {
+  it('quotes cells holding separators, quotes or line breaks', () => {
+    expect(toCsvLine(['a,b', 'say "hi"', 'two\nlines', null, 3])).toBe('"a,b","say ""hi""","two\nlines",,3\r\n');
+  });
+
+  it.each(['=HYPERLINK("http://evil")', '+1', '-2+3', '@SUM(A1)', '\tcmd', '\rcmd'])("prefixes the formula-like cell %p with '", cell => {
+    expect(toCsvLine([cell])).toMatch(/^"?'/);
+  });
+
+  it('leaves numbers and ordinary text alone', () => {
+    expect(toCsvLine([-5, 'a=b', 'email@example.com'])).toBe('-5,a=b,email@example.com\r\n');
+  });
+});
+
+describe('escapeFormula', () => {
+  it('only changes text cells', () => {
+    expect(escapeFormula('=1+1')).toBe("'=1+1");
+    expect(escapeFormula(-1)).toBe(-1);
+    expect(escapeFormula(null)).toBeNull();
+  });
+});
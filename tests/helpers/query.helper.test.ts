@@ -0,0 +1,121 @@
+import { Decimal128, ObjectId } from 'mongodb';
+import { parseMongoQuery, QueryParseError } from '../../src/helpers/query.helper';
+
+function parseError(mongoQuery: string): QueryParseError {
+  try {
+    parseMongoQuery(mongoQuery);
+  } catch (error) {
+    if (error instanceof QueryParseError) return error;
+    throw error;
+  }
+  throw new Error(`Expected ${mongoQuery} not to parse`);
+}
+
+describe('parseMongoQuery', () => {
+  describe('values', () => {
+    it('builds BSON values from the shell helpers', () => {
+      const query = parseMongoQuery(
+        'db.orders.find({ _id: ObjectId("64b7f0c2a1b2c3d4e5f60718"), at: ISODate("2024-01-02T03:04:05Z"), total: NumberDecimal("19.99") })'
+      );
+      if (query.operation !== 'find') throw new Error('Expected a find');
+
+      expect(query.filter._id).toBeInstanceOf(ObjectId);
+      expect(query.filter._id.toHexString()).toBe('64b7f0c2a1b2c3d4e5f60718');
+      expect(query.filter.at).toEqual(new Date('2024-01-02T03:04:05Z'));
+      expect(query.filter.total).toBeInstanceOf(Decimal128);
+      expect(query.filter.total.toString()).toBe('19.99');
+    });
+
+    it('reads regular expression literals with their flags', () => {
+      const query = parseMongoQuery('db.customers.find({ name: /^a[/]d\\/a$/i })');
+      if (query.operation !== 'find') throw new Error('Expected a find');
+
+      expect(query.filter.name).toBeInstanceOf(RegExp);
+      expect(query.filter.name.source).toBe('^a[/]d\\/a$');
+      expect(query.filter.name.flags).toBe('i');
+    });
+
+    it('evaluates constant date arithmetic', () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      const query = parseMongoQuery('db.orders.find({ at: { $gte: new Date(Date.now() - 24 * 60 * 60) } })');
+      jest.restoreAllMocks();
+      if (query.operation !== 'find') throw new Error('Expected a find');
+
+      expect(query.filter.at.$gte).toEqual(new Date(1_000_000 - 86_400));
+    });
+
+    it('rejects helper arguments of the wrong kind', () => {
+      expect(() => parseMongoQuery('db.orders.find({ _id: ObjectId("nope") })')).toThrow(/ObjectId\(\): expects a 24 character hex string/);
+      expect(() => parseMongoQuery('db.orders.find({ at: ISODate("yesterday") })')).toThrow(/invalid date/);
+    });
+  });
+
+  describe('calls', () => {
+    it('collects chained cursor modifiers in order', () => {
+      const query = parseMongoQuery('db.orders.find({ status: "paid" }).sort({ total: -1 }).skip(10).limit(5).projection({ total: 1 }).toArray()');
+
+      expect(query).toMatchObject({
+        collectionName: 'orders',
+        operation: 'find',
+        filter: { status: 'paid' },
+        modifiers: [
+          { name: 'sort', value: { total: -1 } },
+          { name: 'skip', value: 10 },
+          { name: 'limit', value: 5 },
+          { name: 'project', value: { total: 1 } }
+        ]
+      });
+    });
+
+    it('turns a cursor count into countDocuments, keeping skip and limit only for count(true)', () => {
+      expect(parseMongoQuery('db.orders.find({ status: "paid" }).limit(2).count()')).toEqual({
+        collectionName: 'orders', operation: 'countDocuments', filter: { status: 'paid' }, options: {}, modifiers: []
+      });
+      expect(parseMongoQuery('db.orders.find().limit(2).count(true)')).toMatchObject({ options: { limit: 2 } });
+    });
+
+    it('reads the collection from getCollection and bracket access', () => {
+      expect(parseMongoQuery('db.getCollection("order-items").find()').collectionName).toBe('order-items');
+      expect(parseMongoQuery("db['order items'].countDocuments()").collectionName).toBe('order items');
+    });
+
+    it('strips a markdown code fence around the query', () => {
+      expect(parseMongoQuery('```javascript\ndb.orders.find({ status: "paid" })\n```')).toMatchObject({
+        collectionName: 'orders',
+        filter: { status: 'paid' }
+      });
+    });
+  });
+
+  describe('errors', () => {
+    it('points at the line and column of the problem', () => {
+      const error = parseError('db.orders.find({\n  status: "paid",\n  total: > 5\n})');
+
+      expect(error.line).toBe(3);
+      expect(error.column).toBe(10);
+      expect(error.message).toBe("Unexpected '>' at line 3, column 10");
+      expect(error.snippet).toBe('  total: > 5\n         ^');
+    });
+
+    it('rejects __proto__ keys, quoted or not', () => {
+      expect(() => parseMongoQuery('db.users.find({ __proto__: { role: "admin" } })')).toThrow(/'__proto__' is not allowed/);
+      expect(() => parseMongoQuery('db.users.find({ "__proto__": {} })')).toThrow(/'__proto__' is not allowed/);
+    });
+
+    it('rejects calls that are not on the whitelist', () => {
+      expect(parseError('db.orders.find({ a: eval("1") })').message).toMatch(/^Unknown function 'eval'/);
+      expect(parseError('db.orders.find({ a: process.exit() })').message).toMatch(/^Unexpected identifier 'process'/);
+      expect(parseError('db.orders.find({ a: Date.parse("2024") })').message).toMatch(/^Unsupported call Date\.parse\(\)/);
+      expect(parseError('db.orders.find().forEach({})').message).toMatch(/^Unsupported cursor method 'forEach'/);
+      expect(parseError('db.orders.aggregate([]).sort({ a: 1 })').message).toMatch(/^Unsupported cursor method 'sort' after aggregate\(\)/);
+    });
+
+    it("doesn't accept anything after the query", () => {
+      expect(parseError('db.orders.find(); db.orders.drop()').message).toMatch(/^Unexpected 'd' after end of query/);
+    });
+
+    it('leaves unknown collection methods to the caller as unsupported', () => {
+      expect(parseMongoQuery('db.orders.drop()')).toMatchObject({ operation: 'unsupported', method: 'drop' });
+    });
+  });
+});
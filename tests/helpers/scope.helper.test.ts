@@ -0,0 +1,135 @@
+import { Document } from 'mongodb';
+import { find } from 'mingo';
+import { parseMongoQuery } from '../../src/helpers/query.helper';
+import { applyScopes, ScopeError, ScopeLookup } from '../../src/helpers/scope.helper';
+import { shopDocuments } from '../support/shop';
+
+const EU = { region: 'EU' };
+
+// Orders and customers are scoped to the EU; products are readable in full
+const scopeFor: ScopeLookup = collection => collection === 'products' ? null : EU;
+
+function scoped(mongoQuery: string) {
+  return applyScopes(parseMongoQuery(mongoQuery), scopeFor);
+}
+
+function pipelineOf(mongoQuery: string): Document[] {
+  const query = scoped(mongoQuery);
+  if (query.operation !== 'aggregate') throw new Error(`Expected an aggregate, got ${query.operation}`);
+  return query.pipeline;
+}
+
+describe('applyScopes', () => {
+  describe('filters', () => {
+    it('ands the scope with a find filter', () => {
+      expect(scoped('db.orders.find({ status: "paid" })')).toMatchObject({
+        filter: { $and: [EU, { status: 'paid' }] }
+      });
+    });
+
+    it('uses the scope alone when there is no filter', () => {
+      expect(scoped('db.orders.find()')).toMatchObject({ filter: EU });
+    });
+
+    it("doesn't let an $or in the filter widen the scope", () => {
+      const query = scoped('db.orders.find({ $or: [{ region: "US" }, { status: "paid" }] })');
+      if (query.operation !== 'find') throw new Error('Expected a find');
+
+      expect(query.filter).toEqual({ $and: [EU, { $or: [{ region: 'US' }, { status: 'paid' }] }] });
+      const matched = find(shopDocuments().orders, query.filter!).all();
+      expect(matched.map(order => order._id)).toEqual(['o1', 'o4']);
+    });
+
+    it('scopes countDocuments and distinct filters', () => {
+      expect(scoped('db.orders.countDocuments({ status: "paid" })')).toMatchObject({
+        operation: 'countDocuments',
+        filter: { $and: [EU, { status: 'paid' }] }
+      });
+      expect(scoped('db.orders.distinct("customerId", { $or: [{ region: "US" }] })')).toMatchObject({
+        operation: 'distinct',
+        filter: { $and: [EU, { $or: [{ region: 'US' }] }] }
+      });
+    });
+
+    it('counts the readable slice instead of the collection metadata', () => {
+      expect(scoped('db.orders.estimatedDocumentCount()')).toMatchObject({ operation: 'countDocuments', filter: EU });
+    });
+
+    it('leaves unscoped collections alone', () => {
+      const query = parseMongoQuery('db.products.find({ price: { $gt: 10 } })');
+      expect(applyScopes(query, scopeFor)).toBe(query);
+    });
+  });
+
+  describe('aggregate', () => {
+    it('adds a leading $match', () => {
+      expect(pipelineOf('db.orders.aggregate([{ $group: { _id: "$status", total: { $sum: "$total" } } }])')).toEqual([
+        { $match: EU },
+        { $group: { _id: '$status', total: { $sum: '$total' } } }
+      ]);
+    });
+
+    it('merges the scope into a leading $match', () => {
+      expect(pipelineOf('db.orders.aggregate([{ $match: { $or: [{ region: "US" }] } }, { $limit: 5 }])')).toEqual([
+        { $match: { $and: [EU, { $or: [{ region: 'US' }] }] } },
+        { $limit: 5 }
+      ]);
+    });
+
+    it('matches right after a leading $search', () => {
+      const pipeline = pipelineOf('db.orders.aggregate([{ $search: { text: { query: "gift", path: "note" } } }])');
+      expect(pipeline.map(stage => Object.keys(stage)[0])).toEqual(['$search', '$match']);
+      expect(pipeline[1]).toEqual({ $match: EU });
+    });
+
+    it('scopes a $lookup by localField and foreignField', () => {
+      const [, lookup] = pipelineOf(
+        'db.orders.aggregate([{ $lookup: { from: "customers", localField: "customerId", foreignField: "_id", as: "customer" } }])'
+      );
+      expect(lookup).toEqual({
+        $lookup: { from: 'customers', localField: 'customerId', foreignField: '_id', as: 'customer', pipeline: [{ $match: EU }] }
+      });
+    });
+
+    it('scopes a $lookup sub-pipeline', () => {
+      const [lookup] = pipelineOf(
+        'db.products.aggregate([{ $lookup: { from: "orders", let: { id: "$_id" }, pipeline: [{ $match: { $expr: { $in: ["$$id", "$items"] } } }], as: "orders" } }])'
+      );
+      expect(lookup.$lookup.pipeline).toEqual([{ $match: { $and: [EU, { $expr: { $in: ['$$id', '$items'] } }] } }]);
+    });
+
+    it('scopes $unionWith, whether written as a name or with a pipeline', () => {
+      expect(pipelineOf('db.products.aggregate([{ $unionWith: "customers" }])')).toEqual([
+        { $unionWith: { coll: 'customers', pipeline: [{ $match: EU }] } }
+      ]);
+      expect(pipelineOf('db.products.aggregate([{ $unionWith: { coll: "customers", pipeline: [{ $project: { name: 1 } }] } }])')).toEqual([
+        { $unionWith: { coll: 'customers', pipeline: [{ $match: EU }, { $project: { name: 1 } }] } }
+      ]);
+    });
+
+    it('restricts the documents a $graphLookup may walk', () => {
+      const [graphLookup] = pipelineOf(
+        'db.products.aggregate([{ $graphLookup: { from: "customers", startWith: "$buyers", connectFromField: "referredBy", connectToField: "_id", as: "network", restrictSearchWithMatch: { active: true } } }])'
+      );
+      expect(graphLookup.$graphLookup.restrictSearchWithMatch).toEqual({ $and: [EU, { active: true }] });
+    });
+
+    it('scopes the stages inside every $facet', () => {
+      const [, facet] = pipelineOf(
+        'db.orders.aggregate([{ $facet: { buyers: [{ $lookup: { from: "customers", localField: "customerId", foreignField: "_id", as: "customer" } }], all: [{ $unionWith: "orders" }] } }])'
+      );
+      expect(facet.$facet.buyers[0].$lookup.pipeline).toEqual([{ $match: EU }]);
+      expect(facet.$facet.all[0].$unionWith.pipeline).toEqual([{ $match: EU }]);
+    });
+
+    it('refuses stages no filter can restrict', () => {
+      expect(() => scoped('db.orders.aggregate([{ $collStats: { count: {} } }])')).toThrow(ScopeError);
+      expect(() => scoped('db.products.aggregate([{ $unionWith: { coll: "orders", pipeline: [{ $collStats: { count: {} } }] } }])'))
+        .toThrow(/\$collStats cannot be restricted/);
+    });
+
+    it('allows $collStats on an unscoped collection', () => {
+      expect(pipelineOf('db.products.aggregate([{ $collStats: { count: {} } }])')).toEqual([{ $collStats: { count: {} } }]);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { PassThrough } from 'stream';
+import { QueryCancelledError } from '../../src/helpers/mongo.helper';
+import { writeChunk } from '../../src/helpers/stream.helper';
+
+// A stream whose buffer is full after one byte and that nobody reads
+function slowClient(): PassThrough {
+  return new PassThrough({ highWaterMark: 1 });
+}
+
+describe('writeChunk', () => {
+  it('returns once the client has drained the buffer', async () => {
+    const output = slowClient();
+    const written = writeChunk(output, 'abc');
+
+    output.resume();
+    await expect(written).resolves.toBeUndefined();
+  });
+
+  it('gives up when the client disconnects', async () => {
+    const output = slowClient();
+    const written = writeChunk(output, 'abc');
+
+    output.destroy();
+    await expect(written).rejects.toBeInstanceOf(QueryCancelledError);
+  });
+
+  it('gives up when the request is aborted', async () => {
+    const abortController = new AbortController();
+    const written = writeChunk(slowClient(), 'abc', abortController.signal);
+
+    abortController.abort();
+    await expect(written).rejects.toBeInstanceOf(QueryCancelledError);
+  });
+
+  it('passes on stream errors', async () => {
+    const output = slowClient();
+    const written = writeChunk(output, 'abc');
+
+    output.destroy(new Error('socket hang up'));
+    await expect(written).rejects.toThrow('socket hang up');
+  });
+});
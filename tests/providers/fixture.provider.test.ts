@@ -0,0 +1,34 @@
+import aiService from '../../src/services/ai.service';
+import llmService from '../../src/services/llm.service';
+import { SHOP, useShop } from '../support/shop';
+
+// The recordings in tests/fixtures/llm answer these exact prompts
+describe('LLM_PROVIDER=fixture', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    useShop();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('answers a question from recorded responses, without network access or keys', async () => {
+    const { result, calls } = await llmService.trackUsage(() =>
+      aiService.generateMongoQuery('List the paid orders, largest first', SHOP, { cache: false }));
+
+    expect(result.mongoQuery).toBe('db.orders.find({ status: "paid" }).sort({ total: -1 })');
+    expect(result.operation).toBe('find');
+    expect(result.results.map(order => order._id)).toEqual(['o5', 'o1', 'o2', 'o4']);
+    expect(calls.map(call => [call.step, call.provider])).toEqual([
+      ['requirementsAnalysis', 'fixture'],
+      ['intentQuery', 'fixture']
+    ]);
+  });
+
+  it('fails a question nobody recorded instead of reaching the network', async () => {
+    const result = await aiService.generateMongoQuery('Which customer spent the most?', SHOP, { cache: false });
+
+    expect(result.results).toEqual([]);
+    expect(result.explanation).toMatch(/No recorded LLM response/);
+  });
+});
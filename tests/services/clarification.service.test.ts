@@ -0,0 +1,47 @@
+import clarificationService, { ClarificationError } from '../../src/services/clarification.service';
+import { RequirementsAnalysis } from '../../src/types/ai.types';
+
+const ANALYSIS: RequirementsAnalysis = {
+  canProceed: false,
+  relevantCollections: ['orders', 'customers'],
+  relevantFields: [],
+  reasoning: 'Sales could mean order totals or customer count',
+  suggestedClarification: 'Which sales do you mean?',
+  options: [
+    { id: 'revenue', label: 'Order totals', collections: ['orders'] },
+    { id: 'buyers', label: 'Customers who bought', collections: ['customers'] }
+  ]
+};
+
+// Ada asks on the shop connection
+function ask(): string {
+  return clarificationService.create('Show sales', ANALYSIS, 'shop', 'ada').clarificationId!;
+}
+
+describe('clarificationService.resolve', () => {
+  it('resolves for the user and connection that were asked', () => {
+    const clarificationId = ask();
+
+    const intent = clarificationService.resolve(clarificationId, 'revenue', undefined, 'shop', 'ada');
+
+    expect(intent).toMatchObject({ originalQuery: 'Show sales', collections: ['orders'] });
+  });
+
+  it("hides another user's clarification", () => {
+    const clarificationId = ask();
+
+    expect(() => clarificationService.resolve(clarificationId, 'revenue', undefined, 'shop', 'grace'))
+      .toThrow(new ClarificationError('Clarification not found or expired', 404));
+    expect(() => clarificationService.resolve(clarificationId, 'revenue', undefined, 'shop', undefined))
+      .toThrow(ClarificationError);
+    // Still there for the user who was asked
+    expect(clarificationService.resolve(clarificationId, 'buyers', undefined, 'shop', 'ada').collections).toEqual(['customers']);
+  });
+
+  it('refuses to resolve against another connection', () => {
+    const clarificationId = ask();
+
+    expect(() => clarificationService.resolve(clarificationId, 'revenue', undefined, 'warehouse', 'ada'))
+      .toThrow('Clarification belongs to connection "shop"');
+  });
+});
@@ -0,0 +1,46 @@
+import explainService from '../../src/services/explain.service';
+import runService from '../../src/services/run.service';
+import sessionService from '../../src/services/session.service';
+import { AuthenticatedUser } from '../../src/types/auth.types';
+import { SHOP, useShop } from '../support/shop';
+
+function user(id: string, role: AuthenticatedUser['role'] = 'analyst'): AuthenticatedUser {
+  return { id, name: id, email: `${id}@example.com`, role, method: 'token' };
+}
+
+describe('index report', () => {
+  const ADA_QUERY = 'db.orders.find({ status: "paid" })';
+  const BOB_QUERY = 'db.orders.find({ region: "US" })';
+
+  beforeAll(() => {
+    runService.create(SHOP.id, ADA_QUERY, 'find', { userId: 'ada' });
+    runService.create(SHOP.id, BOB_QUERY, 'find', { userId: 'bob' });
+  });
+
+  beforeEach(() => {
+    useShop();
+    jest.spyOn(sessionService, 'getAllSessions').mockResolvedValue([]);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  async function exampleQueries(reader: AuthenticatedUser): Promise<string[]> {
+    const report = await explainService.buildIndexReport(SHOP, reader);
+    return report.recommendations.flatMap(recommendation => recommendation.exampleQueries);
+  }
+
+  it("leaves out queries of other users' runs", async () => {
+    expect(await exampleQueries(user('ada'))).toEqual([ADA_QUERY]);
+  });
+
+  it('shows admins every query', async () => {
+    expect(new Set(await exampleQueries(user('root', 'admin')))).toEqual(new Set([ADA_QUERY, BOB_QUERY]));
+  });
+
+  it('reads sessions as the requesting user', async () => {
+    const ada = user('ada');
+    await explainService.buildIndexReport(SHOP, ada);
+
+    expect(sessionService.getAllSessions).toHaveBeenCalledWith(ada);
+  });
+});
@@ -0,0 +1,44 @@
+import { PassThrough } from 'stream';
+import exportService from '../../src/services/export.service';
+import runService from '../../src/services/run.service';
+import { QueryRun } from '../../src/types/run.types';
+
+// Runs a CSV export over `documents` and returns the file with the result
+async function exportCsv(documents: any[]) {
+  jest.spyOn(runService, 'get').mockReturnValue({ id: 'r1', connectionId: 'shop' } as QueryRun);
+  jest.spyOn(runService, 'parsedQuery').mockReturnValue({ collectionName: 'orders', operation: 'find', filter: {}, options: {}, modifiers: [] });
+  jest.spyOn(exportService as any, 'loadCollectionSchema').mockResolvedValue(undefined);
+  jest.spyOn(runService, 'stream').mockImplementation(async (_runId, _offset, onDocument) => {
+    for (const document of documents) await onDocument(document);
+    return { truncated: false };
+  });
+
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', chunk => chunks.push(chunk));
+  const result = await exportService.exportRun('r1', 'csv', output);
+  return { ...result, csv: Buffer.concat(chunks).toString() };
+}
+
+describe('CSV export', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.EXPORT_HEADER_SAMPLE_SIZE;
+  });
+
+  it('takes the columns from the first documents', async () => {
+    const { csv, droppedColumns } = await exportCsv([{ _id: 'o1', total: 5 }, { _id: 'o2', status: 'paid' }]);
+
+    expect(csv).toBe('_id,total,status\r\no1,5,\r\no2,,paid\r\n');
+    expect(droppedColumns).toEqual([]);
+  });
+
+  it('reports fields first seen after the header was written', async () => {
+    process.env.EXPORT_HEADER_SAMPLE_SIZE = '1';
+    const { csv, rows, droppedColumns } = await exportCsv([{ _id: 'o1', total: 5 }, { _id: 'o2', status: 'paid' }]);
+
+    expect(csv).toBe('_id,total\r\no1,5\r\no2,\r\n');
+    expect(rows).toBe(2);
+    expect(droppedColumns).toEqual(['status']);
+  });
+});
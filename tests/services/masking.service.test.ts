@@ -0,0 +1,83 @@
+import { parseMongoQuery } from '../../src/helpers/query.helper';
+import { REDACTED } from '../../src/helpers/masking.helper';
+import maskingService from '../../src/services/masking.service';
+import { SHOP, useShop } from '../support/shop';
+
+const ADA = { _id: 'c1', name: 'Ada', email: 'ada@example.com', phones: [{ type: 'home', number: '555-0100' }] };
+
+// Masks `document` as a result of `mongoQuery`
+async function mask(mongoQuery: string, document: any) {
+  const masker = await maskingService.createMasker(parseMongoQuery(mongoQuery), SHOP);
+  return masker(document);
+}
+
+describe('masking', () => {
+  beforeEach(() => {
+    useShop();
+    jest.spyOn(maskingService, 'loadConfig').mockResolvedValue({
+      tags: {},
+      fields: { 'customers.email': { strategy: 'redact' }, 'customers.phones': { strategy: 'redact' } }
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('find projections', () => {
+    it('masks an array narrowed with $elemMatch', async () => {
+      expect(await mask('db.customers.find({}, { phones: { $elemMatch: { type: "home" } } })', { _id: 'c1', phones: ADA.phones }))
+        .toEqual({ _id: 'c1', phones: [{ type: REDACTED, number: REDACTED }] });
+    });
+
+    it('masks a field cut with $slice, alone or with other fields', async () => {
+      expect(await mask('db.customers.find({}, { email: { $slice: 1 } })', ADA)).toMatchObject({ name: 'Ada', email: REDACTED });
+      expect(await mask('db.customers.find({}, { name: 1, phones: { $slice: [0, 1] } })', ADA))
+        .toMatchObject({ name: 'Ada', phones: [{ type: REDACTED, number: REDACTED }] });
+    });
+
+    it('masks the element picked by the positional operator', async () => {
+      expect(await mask('db.customers.find({ "phones.type": "home" }, { "phones.$": 1 })', { _id: 'c1', phones: ADA.phones }))
+        .toEqual({ _id: 'c1', phones: [{ type: REDACTED, number: REDACTED }] });
+    });
+  });
+
+  describe('aggregations', () => {
+    it('masks values computed from a masked field', async () => {
+      expect(await mask('db.customers.aggregate([{ $project: { contact: { $toUpper: "$email" } } }])', { _id: 'c1', contact: 'ADA@EXAMPLE.COM' }))
+        .toEqual({ _id: 'c1', contact: REDACTED });
+    });
+
+    it('masks copies nested under new names', async () => {
+      expect(await mask('db.customers.aggregate([{ $project: { info: { mail: "$email", who: "$name" } } }])', { _id: 'c1', info: { mail: ADA.email, who: 'Ada' } }))
+        .toEqual({ _id: 'c1', info: { mail: REDACTED, who: 'Ada' } });
+      expect(await mask('db.customers.aggregate([{ $group: { _id: null, emails: { $push: "$email" } } }])', { _id: null, emails: [ADA.email] }))
+        .toEqual({ _id: null, emails: [REDACTED] });
+    });
+
+    it('masks joined documents', async () => {
+      const joined = await mask(
+        'db.orders.aggregate([{ $lookup: { from: "customers", localField: "customerId", foreignField: "_id", as: "buyer" } }])',
+        { _id: 'o1', customerId: 'c1', buyer: [ADA] }
+      );
+
+      expect(joined.buyer).toEqual([{ ...ADA, email: REDACTED, phones: [{ type: REDACTED, number: REDACTED }] }]);
+    });
+
+    it('masks $lookup variables bound to a masked field', async () => {
+      const joined = await mask(
+        'db.customers.aggregate([{ $lookup: { from: "orders", let: { e: "$email" }, pipeline: [{ $project: { v: "$$e", mail: { $concat: ["$$e", ""] } } }], as: "j" } }])',
+        { ...ADA, j: [{ _id: 'o1', v: ADA.email, mail: ADA.email }] }
+      );
+
+      expect(joined.j).toEqual([{ _id: 'o1', v: REDACTED, mail: REDACTED }]);
+    });
+
+    it('masks $lookup variables used by a nested $lookup', async () => {
+      const joined = await mask(
+        'db.customers.aggregate([{ $lookup: { from: "orders", let: { e: "$email" }, pipeline: [{ $lookup: { from: "products", pipeline: [{ $project: { v: "$$e" } }], as: "k" } }], as: "j" } }])',
+        { _id: 'c1', j: [{ _id: 'o1', k: [{ _id: 'p1', v: ADA.email }] }] }
+      );
+
+      expect(joined.j[0].k).toEqual([{ _id: 'p1', v: REDACTED }]);
+    });
+  });
+});
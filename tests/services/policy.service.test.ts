@@ -0,0 +1,101 @@
+import { parseMongoQuery } from '../../src/helpers/query.helper';
+import policyService from '../../src/services/policy.service';
+
+const ORDERS = [{
+  _id: 'o1',
+  total: 120,
+  u: [{ _id: 'u1', name: 'Ada', password: 'hunter2', profile: { city: 'London', ssn: '123' } }]
+}];
+
+async function evaluate(mongoQuery: string) {
+  return policyService.evaluate(parseMongoQuery(mongoQuery));
+}
+
+async function sanitize(mongoQuery: string, results: any[]) {
+  return policyService.sanitizeResults(parseMongoQuery(mongoQuery), results);
+}
+
+const LOOKUP = '{ $lookup: { from: "users", localField: "userId", foreignField: "_id", as: "u" } }';
+
+describe('field policy', () => {
+  beforeEach(() => {
+    jest.spyOn(policyService, 'loadConfig').mockResolvedValue({
+      collections: {},
+      fields: { deny: ['users.password', 'users.profile.ssn'] },
+      deniedOperators: []
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('evaluate', () => {
+    it.each([
+      ['projects it under another name', `db.orders.aggregate([${LOOKUP}, { $project: { z: "$u" } }])`],
+      ['pushes it into a group', `db.orders.aggregate([${LOOKUP}, { $group: { _id: null, all: { $push: "$u" } } }])`],
+      ['makes it the root', `db.orders.aggregate([${LOOKUP}, { $unwind: "$u" }, { $replaceWith: "$u" }])`],
+      ['copies $$ROOT after the join', `db.orders.aggregate([${LOOKUP}, { $group: { _id: null, docs: { $push: "$$ROOT" } } }])`]
+    ])('rejects a query that copies a whole joined document when it %s', async (_, mongoQuery) => {
+      const report = await evaluate(mongoQuery);
+
+      expect(report.allowed).toBe(false);
+      expect(report.violations).toContainEqual(expect.objectContaining({
+        code: 'FIELD_NOT_ALLOWED',
+        collection: 'users',
+        field: ''
+      }));
+    });
+
+    it.each([
+      ['unwinds it', `db.orders.aggregate([${LOOKUP}, { $unwind: "$u" }])`],
+      ['counts it', `db.orders.aggregate([${LOOKUP}, { $project: { buyers: { $size: "$u" } } }])`],
+      ['reads an allowed field of it', `db.orders.aggregate([${LOOKUP}, { $project: { name: "$u.name" } }])`]
+    ])('allows a query that %s', async (_, mongoQuery) => {
+      expect((await evaluate(mongoQuery)).allowed).toBe(true);
+    });
+
+    it('rejects a denied field read through the alias', async () => {
+      const report = await evaluate(`db.orders.aggregate([${LOOKUP}, { $project: { p: "$u.password" } }])`);
+
+      expect(report.violations).toContainEqual(expect.objectContaining({ collection: 'users', field: 'password' }));
+    });
+  });
+
+  describe('sanitizeResults', () => {
+    it('strips denied fields from joined documents', async () => {
+      const [order] = await sanitize(`db.orders.aggregate([${LOOKUP}])`, ORDERS);
+
+      expect(order.u).toEqual([{ _id: 'u1', name: 'Ada', profile: { city: 'London' } }]);
+      expect(order.total).toBe(120);
+    });
+
+    it('strips denied fields from reshaped output that copies joined documents', async () => {
+      const [renamed] = await sanitize(`db.orders.aggregate([${LOOKUP}, { $project: { z: "$u" } }])`, [{ _id: 'o1', z: ORDERS[0].u }]);
+      const [grouped] = await sanitize(
+        `db.orders.aggregate([${LOOKUP}, { $group: { _id: "$total", all: { $push: "$u" } } }])`,
+        [{ _id: 120, all: [ORDERS[0].u] }]
+      );
+
+      expect(renamed.z).toEqual([{ _id: 'u1', name: 'Ada', profile: { city: 'London' } }]);
+      expect(grouped).toEqual({ _id: 120, all: [[{ _id: 'u1', name: 'Ada', profile: { city: 'London' } }]] });
+    });
+
+    it('follows a parent object copied under a new name', async () => {
+      const [user] = await sanitize('db.users.aggregate([{ $project: { p: "$profile" } }])', [{ _id: 'u1', p: { city: 'London', ssn: '123' } }]);
+
+      expect(user).toEqual({ _id: 'u1', p: { city: 'London' } });
+    });
+
+    it('keeps scalars computed from a joined document and drops objects', async () => {
+      const [order] = await sanitize(
+        `db.orders.aggregate([${LOOKUP}, { $project: { buyers: { $size: "$u" }, pairs: { $objectToArray: { $first: "$u" } } } }])`,
+        [{ _id: 'o1', buyers: 1, pairs: [{ k: 'password', v: 'hunter2' }] }]
+      );
+
+      expect(order).toEqual({ _id: 'o1', buyers: 1 });
+    });
+
+    it('strips denied sub-fields from distinct values', async () => {
+      expect(await sanitize('db.users.distinct("profile")', [{ city: 'London', ssn: '123' }])).toEqual([{ city: 'London' }]);
+    });
+  });
+});
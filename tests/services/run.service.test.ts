@@ -0,0 +1,84 @@
+import { parseMongoQuery } from '../../src/helpers/query.helper';
+import runService from '../../src/services/run.service';
+import scopeService from '../../src/services/scope.service';
+import { AuthenticatedUser } from '../../src/types/auth.types';
+import { QueryOperation } from '../../src/types/query.types';
+import { SHOP, useShop } from '../support/shop';
+
+function user(id: string, role: AuthenticatedUser['role'] = 'analyst'): AuthenticatedUser {
+  return { id, name: id, email: `${id}@example.com`, role, method: 'token' };
+}
+
+const ADA = user('ada');
+const ADMIN = user('root', 'admin');
+
+// Every `region` anywhere in the results, joined documents included
+function regionsIn(value: any): string[] {
+  if (Array.isArray(value)) return value.flatMap(regionsIn);
+  if (!value || typeof value !== 'object') return [];
+  return Object.entries(value).flatMap(([key, field]) => key === 'region' ? [field as string] : regionsIn(field));
+}
+
+// Starts a run of `mongoQuery` as Ada and fetches its first page as `reader`
+async function firstPage(mongoQuery: string, reader = ADA) {
+  const query = parseMongoQuery(mongoQuery);
+  const run = runService.create(SHOP.id, mongoQuery, query.operation as QueryOperation, { query, userId: ADA.id });
+  const cursor = Buffer.from(JSON.stringify({ runId: run.id, offset: 0, pageSize: 100 })).toString('base64url');
+  return (await runService.fetchPage(cursor, undefined, reader)).results;
+}
+
+describe('scoped runs', () => {
+  beforeEach(() => {
+    useShop();
+    // Ada may only read EU documents of the shop
+    jest.spyOn(scopeService, 'loadConfig').mockResolvedValue({
+      rules: [{ collection: '*', connectionId: SHOP.id, users: [ADA.id], filter: { region: 'EU' } }]
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it.each([
+    ['a find with an $or', 'db.orders.find({ $or: [{ region: "US" }, { status: "paid" }] })'],
+    ['a $lookup by key', 'db.customers.aggregate([{ $lookup: { from: "orders", localField: "_id", foreignField: "customerId", as: "orders" } }])'],
+    ['a $lookup sub-pipeline', 'db.customers.aggregate([{ $lookup: { from: "orders", pipeline: [{ $match: { region: "US" } }], as: "orders" } }])'],
+    ['a $unionWith', 'db.customers.aggregate([{ $unionWith: "orders" }])'],
+    ['a $graphLookup', 'db.orders.aggregate([{ $graphLookup: { from: "customers", startWith: "$customerId", connectFromField: "_id", connectToField: "_id", as: "buyers" } }])'],
+    ['a $facet', 'db.customers.aggregate([{ $facet: { orders: [{ $unionWith: "orders" }], all: [{ $lookup: { from: "orders", pipeline: [], as: "orders" } }] } }])']
+  ])("doesn't return documents outside the scope from %s", async (_, mongoQuery) => {
+    const results = await firstPage(mongoQuery);
+
+    expect(results.length).toBeGreaterThan(0);
+    expect(new Set(regionsIn(results))).toEqual(new Set(['EU']));
+  });
+
+  it('finds nothing when the query asks only for documents outside the scope', async () => {
+    expect(await firstPage('db.orders.aggregate([{ $match: { region: { $ne: "EU" } } }])')).toEqual([]);
+  });
+
+  it('joins only the documents in scope', async () => {
+    const results = await firstPage('db.customers.aggregate([{ $lookup: { from: "orders", pipeline: [], as: "orders" } }])');
+
+    expect(results.map(customer => customer._id)).toEqual(['c1', 'c3']);
+    expect(results[0].orders.map((order: any) => order._id)).toEqual(['o1', 'o3', 'o4']);
+  });
+
+  it('counts and lists distinct values of the scoped slice only', async () => {
+    expect(await firstPage('db.orders.countDocuments({ $or: [{ region: "US" }, { total: { $gte: 0 } }] })')).toEqual([{ count: 3 }]);
+    expect(await firstPage('db.orders.estimatedDocumentCount()')).toEqual([{ count: 3 }]);
+    expect((await firstPage('db.orders.distinct("customerId")')).sort()).toEqual(['c1', 'c3']);
+  });
+
+  it('rejects stages that read the whole collection', async () => {
+    await expect(firstPage('db.orders.aggregate([{ $collStats: { count: {} } }])')).rejects.toMatchObject({
+      name: 'RunError',
+      status: 403
+    });
+  });
+
+  it("runs unscoped for users the rules don't cover", async () => {
+    const results = await firstPage('db.orders.find({ $or: [{ region: "US" }, { status: "paid" }] })', ADMIN);
+
+    expect(new Set(regionsIn(results))).toEqual(new Set(['EU', 'US']));
+  });
+});
@@ -0,0 +1,60 @@
+import schemaService, { SchemaError } from '../../src/services/schema.service';
+import { CollectionSchema } from '../../src/types/schema.types';
+import { memoryDb } from '../support/memory-db';
+
+describe('schema sample size', () => {
+  afterEach(() => {
+    delete process.env.SCHEMA_SAMPLE_SIZE;
+    delete process.env.SCHEMA_MAX_SAMPLE_SIZE;
+  });
+
+  it('uses SCHEMA_SAMPLE_SIZE when the request sets none', () => {
+    expect(schemaService.resolveSampleSize(undefined)).toBe(100);
+    process.env.SCHEMA_SAMPLE_SIZE = '250';
+    expect(schemaService.resolveSampleSize(undefined)).toBe(250);
+  });
+
+  it('accepts positive integers, as numbers or numeric strings', () => {
+    expect(schemaService.resolveSampleSize(50)).toBe(50);
+    expect(schemaService.resolveSampleSize('50')).toBe(50);
+  });
+
+  it.each([[-1], [0], [2.5], ['lots'], [{ $gt: 1 }], [true]])('rejects %p', requested => {
+    expect(() => schemaService.resolveSampleSize(requested)).toThrow(SchemaError);
+  });
+
+  it('caps the sample at SCHEMA_MAX_SAMPLE_SIZE', () => {
+    expect(schemaService.resolveSampleSize(1e9)).toBe(10000);
+    process.env.SCHEMA_MAX_SAMPLE_SIZE = '500';
+    expect(schemaService.resolveSampleSize(1e9)).toBe(500);
+  });
+});
+
+describe('relationship cardinality', () => {
+  const customers = Array.from({ length: 20 }, (_, i) => ({ _id: `c${i}` }));
+  // Every customer placed two orders but has one profile
+  const orders = Array.from({ length: 40 }, (_, i) => ({ _id: `o${i}`, customerId: `c${i % 20}` }));
+  const profiles = customers.map(customer => ({ _id: `p${customer._id}`, customerId: customer._id }));
+  const db = memoryDb({ customers, orders, profiles });
+
+  const schema = (collectionName: string, totalDocuments: number): CollectionSchema => ({
+    collectionName,
+    totalDocuments,
+    fields: { _id: { type: 'string' }, ...(collectionName !== 'customers' && { customerId: { type: 'string' } }) }
+  });
+
+  async function cardinalityOf(collection: string) {
+    const graph = await schemaService.discoverRelationships(
+      db, [schema('customers', 20), schema('orders', 40), schema('profiles', 20)], 2
+    );
+    return graph.relationships.find(relationship => relationship.from.collection === collection)?.cardinality;
+  }
+
+  it("doesn't call a key one-to-one because its sampled values happen not to repeat", async () => {
+    expect(await cardinalityOf('orders')).toBe('many-to-one');
+  });
+
+  it('calls a key one-to-one when no value repeats in the whole collection', async () => {
+    expect(await cardinalityOf('profiles')).toBe('one-to-one');
+  });
+});
@@ -0,0 +1,48 @@
+import sessionService from '../../src/services/session.service';
+import { AuthenticatedUser } from '../../src/types/auth.types';
+
+function user(id: string, role: AuthenticatedUser['role'] = 'analyst'): AuthenticatedUser {
+  return { id, name: id, email: `${id}@example.com`, role, method: 'token' };
+}
+
+const ADA = user('ada');
+const GRACE = user('grace');
+const ADMIN = user('root', 'admin');
+
+describe('session ownership', () => {
+  beforeEach(() => {
+    // Sessions stay in memory instead of data/sessions
+    jest.spyOn(sessionService as any, 'loadSessions').mockResolvedValue(undefined);
+    jest.spyOn(sessionService as any, 'saveSession').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it("lists and returns a user's own sessions only", async () => {
+    const mine = await sessionService.createSession({ connectionId: 'shop' }, ADA);
+    const theirs = await sessionService.createSession({ connectionId: 'shop' }, GRACE);
+
+    expect(mine.userId).toBe('ada');
+    const listed = (await sessionService.getAllSessions(ADA)).map(session => session.id);
+    expect(listed).toContain(mine.id);
+    expect(listed).not.toContain(theirs.id);
+    expect(await sessionService.getSessionById(mine.id, ADA)).toBe(mine);
+    expect(await sessionService.getSessionById(theirs.id, ADA)).toBeNull();
+  });
+
+  it("doesn't let another analyst delete a session", async () => {
+    const session = await sessionService.createSession({}, ADA);
+
+    expect(await sessionService.deleteSession(session.id, GRACE)).toBe(false);
+    expect(await sessionService.getSessionById(session.id, ADA)).toBe(session);
+    expect(await sessionService.deleteSession(session.id, ADA)).toBe(true);
+    expect(await sessionService.getSessionById(session.id, ADA)).toBeNull();
+  });
+
+  it('gives admins every session', async () => {
+    const session = await sessionService.createSession({}, GRACE);
+
+    expect(await sessionService.getSessionById(session.id, ADMIN)).toBe(session);
+    expect((await sessionService.getAllSessions(ADMIN)).map(summary => summary.id)).toContain(session.id);
+  });
+});
@@ -0,0 +1,11 @@
+import path from 'path';
+
+// Specs run offline: recorded model responses, no caches or audit files, and
+// no default MongoDB; each spec brings the connection and data it needs
+process.env.LLM_PROVIDER = 'fixture';
+process.env.LLM_FIXTURES_DIR = path.join(__dirname, 'fixtures/llm');
+process.env.CACHE_ENABLED = 'false';
+process.env.AUDIT_ENABLED = 'false';
+process.env.EXAMPLES_ENABLED = 'false';
+delete process.env.LLM_RECORD_FIXTURES;
+delete process.env.MONGODB_URI;
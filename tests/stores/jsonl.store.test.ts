@@ -0,0 +1,48 @@
+import * as fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { JsonlAuditStore } from '../../src/stores/jsonl.store';
+import { AuditEntry } from '../../src/types/audit.types';
+
+function entry(index: number): AuditEntry {
+  return {
+    id: `entry-${index}`,
+    timestamp: new Date(Date.UTC(2024, 0, 1, 0, index)),
+    type: 'nl_query',
+    userId: index % 2 ? 'ada' : 'grace',
+    outcome: 'success'
+  } as AuditEntry;
+}
+
+describe('JsonlAuditStore.find', () => {
+  let dir: string;
+  let store: JsonlAuditStore;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'audit-'));
+    store = new JsonlAuditStore(path.join(dir, 'audit.jsonl'));
+    for (let i = 0; i < 25; i++) await store.append(entry(i));
+  });
+
+  afterAll(() => fs.rm(dir, { recursive: true, force: true }));
+
+  const ids = (entries: AuditEntry[]) => entries.map(found => found.id);
+
+  it('pages through matches newest first', async () => {
+    expect(ids(await store.find({ limit: 3, offset: 0 }))).toEqual(['entry-24', 'entry-23', 'entry-22']);
+    expect(ids(await store.find({ limit: 3, offset: 10 }))).toEqual(['entry-14', 'entry-13', 'entry-12']);
+    expect(ids(await store.find({ limit: 10, offset: 20 }))).toEqual(['entry-4', 'entry-3', 'entry-2', 'entry-1', 'entry-0']);
+    expect(await store.find({ limit: 10, offset: 30 })).toEqual([]);
+  });
+
+  it('pages through the entries matching the filter only', async () => {
+    const page = await store.find({ userId: 'ada', limit: 2, offset: 1 });
+    expect(ids(page)).toEqual(['entry-21', 'entry-19']);
+    expect(page[0].timestamp).toEqual(new Date(Date.UTC(2024, 0, 1, 0, 21)));
+  });
+
+  it('returns nothing for an empty page or a missing file', async () => {
+    expect(await store.find({ limit: 0, offset: 0 })).toEqual([]);
+    expect(await new JsonlAuditStore(path.join(dir, 'missing.jsonl')).find({ limit: 5, offset: 0 })).toEqual([]);
+  });
+});
@@ -0,0 +1,109 @@
+import { Db, Document } from 'mongodb';
+import { aggregate, find } from 'mingo';
+
+type Collections = { [name: string]: Document[] };
+
+// The part of FindCursor mongo.helper uses; like the driver, the last
+// sort/skip/limit/project call wins
+class MemoryFindCursor {
+  private results: Document[] | null = null;
+  private sortSpec?: Document;
+  private skipCount = 0;
+  private limitCount = 0;
+  private projection?: Document;
+
+  constructor(private readonly documents: Document[], private readonly filter: Document, options: Document) {
+    this.sortSpec = options.sort;
+    this.skipCount = options.skip || 0;
+    this.limitCount = options.limit || 0;
+    this.projection = options.projection;
+  }
+
+  sort(spec: Document) { this.sortSpec = spec; return this; }
+  skip(count: number) { this.skipCount = count; return this; }
+  limit(count: number) { this.limitCount = count; return this; }
+  project(projection: Document) { this.projection = projection; return this; }
+  hint() { return this; }
+  collation() { return this; }
+  maxTimeMS() { return this; }
+  comment() { return this; }
+  batchSize() { return this; }
+
+  async next(): Promise<Document | null> {
+    if (!this.results) {
+      let cursor = find(this.documents, this.filter, this.projection);
+      if (this.sortSpec) cursor = cursor.sort(this.sortSpec as any);
+      if (this.skipCount) cursor = cursor.skip(this.skipCount);
+      if (this.limitCount) cursor = cursor.limit(this.limitCount);
+      this.results = cursor.all();
+    }
+    return this.results.shift() ?? null;
+  }
+
+  async close(): Promise<void> {}
+}
+
+class MemoryAggregationCursor {
+  constructor(private readonly results: Document[]) {}
+
+  async next(): Promise<Document | null> {
+    return this.results.shift() ?? null;
+  }
+
+  async toArray(): Promise<Document[]> {
+    return this.results.splice(0);
+  }
+
+  async close(): Promise<void> {}
+}
+
+// mingo ignores localField/foreignField when a $lookup also has a pipeline;
+// MongoDB 5.0+ applies both, so the join keys become a leading $match
+function withJoinKeys(pipeline: Document[]): Document[] {
+  return pipeline.map(stage => {
+    if (stage.$lookup?.pipeline) {
+      const { localField, foreignField, pipeline: inner, ...lookup } = stage.$lookup;
+      if (localField === undefined) return { $lookup: { ...lookup, pipeline: withJoinKeys(inner) } };
+      return {
+        $lookup: {
+          ...lookup,
+          let: { ...lookup.let, joinKey: `$${localField}` },
+          pipeline: [{ $match: { $expr: { $eq: [`$${foreignField}`, '$$joinKey'] } } }, ...withJoinKeys(inner)]
+        }
+      };
+    }
+    if (stage.$unionWith?.pipeline) {
+      return { $unionWith: { ...stage.$unionWith, pipeline: withJoinKeys(stage.$unionWith.pipeline) } };
+    }
+    if (stage.$facet) {
+      return { $facet: Object.fromEntries(Object.entries(stage.$facet).map(([name, facet]) => [name, withJoinKeys(facet as Document[])])) };
+    }
+    return stage;
+  });
+}
+
+/**
+ * A stand-in for the driver's Db that runs finds, counts, distincts and
+ * aggregations (including $lookup, $graphLookup and $unionWith across the
+ * given collections) in memory, so the query pipeline can be exercised
+ * without a MongoDB server.
+ */
+export function memoryDb(collections: Collections): Db {
+  const options = { collectionResolver: (name: string) => collections[name] || [] };
+  const collection = (name: string) => {
+    const documents = collections[name] || [];
+    return {
+      find: (filter: Document = {}, findOptions: Document = {}) => new MemoryFindCursor(documents, filter, findOptions),
+      aggregate: (pipeline: Document[]) => new MemoryAggregationCursor(aggregate(documents, withJoinKeys(pipeline), options)),
+      countDocuments: async (filter: Document = {}) => find(documents, filter).all().length,
+      estimatedDocumentCount: async () => documents.length,
+      // Only the default _id index exists
+      listIndexes: () => ({ toArray: async () => [{ v: 2, key: { _id: 1 }, name: '_id_' }] }),
+      distinct: async (field: string, filter: Document = {}) => {
+        const values = aggregate(find(documents, filter).all(), [{ $unwind: `$${field}` }, { $group: { _id: `$${field}` } }], options);
+        return values.map(value => value._id);
+      }
+    };
+  };
+  return { databaseName: 'memory', collection } as unknown as Db;
+}
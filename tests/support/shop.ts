@@ -0,0 +1,39 @@
+import path from 'path';
+import { Document } from 'mongodb';
+import connectionService from '../../src/services/connection.service';
+import mongoService from '../../src/services/mongo.service';
+import { Connection, ConnectionArtifacts } from '../../src/types/connection.types';
+import { memoryDb } from './memory-db';
+
+const SHOP_DIR = path.join(__dirname, '../fixtures/shop');
+
+export const SHOP: Connection = {
+  id: 'shop',
+  name: 'Shop',
+  uri: 'mongodb://memory/shop',
+  databaseName: 'shop',
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01')
+};
+
+// The analyzed schema and generated context of the shop, as the API would have saved them
+export const SHOP_ARTIFACTS: ConnectionArtifacts = {
+  dir: SHOP_DIR,
+  analysisPath: path.join(SHOP_DIR, 'schema_analysis.json'),
+  relationshipsPath: path.join(SHOP_DIR, 'relationships.json'),
+  contextPath: path.join(SHOP_DIR, 'context.json'),
+  schemaPath: path.join(SHOP_DIR, 'schema.json'),
+  snapshotsDir: path.join(SHOP_DIR, 'schema_snapshots')
+};
+
+export function shopDocuments(): { [collection: string]: Document[] } {
+  // A fresh copy per spec, so nothing one spec does leaks into the next
+  return JSON.parse(JSON.stringify(require('../fixtures/shop/documents.json')));
+}
+
+// Serves every connection lookup with the shop, backed by its documents in memory
+export function useShop(): void {
+  jest.spyOn(connectionService, 'getConnection').mockResolvedValue(SHOP);
+  jest.spyOn(connectionService, 'getArtifacts').mockReturnValue(SHOP_ARTIFACTS);
+  jest.spyOn(mongoService, 'getDb').mockResolvedValue(memoryDb(shopDocuments()));
+}